@@ -1,20 +1,72 @@
 // Main application component
 
-import { useState, useEffect, useCallback } from 'react';
-import { initMIDI, isMIDISupported, updateMessageHandler, MIDIMessageHandler } from './midi/midi';
-import { GameSettings, GameSnapshot, DEFAULT_SETTINGS } from './game/types';
+import { useState, useEffect, useCallback, useReducer, useRef } from 'react';
 import {
-  startGame,
-  handleInput,
-  pauseGame,
-  resumeGame,
-  clearFlashError,
-  getAccuracy,
-} from './game/gameLoop';
+  initMIDI,
+  isMIDISupported,
+  updateMessageHandler,
+  subscribeMIDIEvents,
+  getInputDeviceKey,
+  applyDeviceChoices,
+  applyOutputChoice,
+  getLostDevices,
+  onDeviceStateChange,
+  MIDIDeviceInfo,
+  MIDIMessageHandler,
+} from './midi/midi';
+import { applyKeyboardInput, DEFAULT_KEYBOARD_INPUT } from './midi/keyboard';
+import { applyMicrophoneInput, DEFAULT_MICROPHONE_INPUT } from './midi/microphone';
+import { GameSettings, GameMode, GameSnapshot, DEFAULT_SETTINGS } from './game/types';
+import { getRemainingPlaybacks, getAccuracy, isGameActive } from './game/gameLoop';
+import { gameReducer, INITIAL_GAME_STATE } from './game/engine';
+import { createSeed, parseSeed } from './game/random';
 import { calculateFinalScore, calculateDuration } from './game/scoring';
-import { saveSettings, loadSettings, saveHighScore, getHighScore, HighScoreEntry } from './utils/storage';
+import {
+  saveSettings,
+  loadSettings,
+  saveHighScore,
+  getHighScore,
+  loadMIDIDeviceChoices,
+  loadMIDIOutputChoice,
+  loadKeyboardInput,
+  loadMicrophoneInput,
+  loadSkillModel,
+  saveSkillModel,
+  loadFlashcards,
+  saveFlashcards,
+  loadSessionHistory,
+  saveSessionHistory,
+  loadLatencyCalibrations,
+  saveLatencyCalibrations,
+  HighScoreEntry,
+} from './utils/storage';
 import { getCurrentTime } from './utils/time';
-import { initAudio, playNote } from './utils/audio';
+import {
+  initAudio,
+  playNote,
+  playInterval,
+  playSequence,
+  playPhrase,
+  setSoundSource,
+  setTuning,
+  stopPlayback,
+} from './utils/audio';
+import { startMetronome } from './utils/metronome';
+import { midiToPitch } from './game/mapping';
+import { getTargetMidis } from './game/chordGen';
+import { getLatencyOffsetMs, LatencyCalibration, NO_LATENCY } from './game/latency';
+import { TIME_SIGNATURES } from './game/rhythm';
+import { getTuning } from './game/tuning';
+import {
+  addCards,
+  answerFlashcard,
+  buildReviewQueue,
+  FlashcardDeck,
+  FlashcardSession,
+  getDeckCardIds,
+  startFlashcardSession,
+} from './game/flashcards';
+import { addSession, createSessionRecord, SessionRecord } from './game/history';
 import { LeaderboardEntry, submitScore, wouldMakeTopTen } from './utils/gist';
 
 // Components
@@ -22,16 +74,26 @@ import Staff from './components/Staff';
 import Hud from './components/Hud';
 import Controls from './components/Controls';
 import DevicePicker from './components/DevicePicker';
+import KeyboardInputPanel from './components/KeyboardInputPanel';
+import MicrophoneInputPanel from './components/MicrophoneInputPanel';
+import LatencyWizard from './components/LatencyWizard';
 import PianoFallback from './components/PianoFallback';
 import Modal from './components/Modal';
 import Leaderboard from './components/Leaderboard';
+import IntervalResults from './components/IntervalResults';
+import ScrollingStaff from './components/ScrollingStaff';
+import TimingResults from './components/TimingResults';
+import FlashcardReview from './components/FlashcardReview';
+import ProgressDashboard from './components/ProgressDashboard';
 
-type AppScreen = 'welcome' | 'config' | 'game';
+type AppScreen = 'welcome' | 'config' | 'game' | 'flashcards' | 'progress';
 
 function App() {
   const [currentScreen, setCurrentScreen] = useState<AppScreen>('welcome');
   const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
-  const [snapshot, setSnapshot] = useState<GameSnapshot | null>(null);
+  const [game, dispatch] = useReducer(gameReducer, INITIAL_GAME_STATE);
+  const snapshot = game.snapshot;
+  const [seedText, setSeedText] = useState(''); // empty for a new game every time
   const [midiSupported, setMidiSupported] = useState(false);
   const [midiInitialized, setMidiInitialized] = useState(false);
   const [showGameOver, setShowGameOver] = useState(false);
@@ -42,6 +104,13 @@ function App() {
   const [pendingLeaderboardEntry, setPendingLeaderboardEntry] = useState<LeaderboardEntry | null>(null);
   const [submittedEntry, setSubmittedEntry] = useState<LeaderboardEntry | null>(null);
   const [qualifiesForLeaderboard, setQualifiesForLeaderboard] = useState(false);
+  const [lostDevices, setLostDevices] = useState<MIDIDeviceInfo[]>([]);
+  const [latencyCalibrations, setLatencyCalibrations] =
+    useState<Record<string, LatencyCalibration>>(loadLatencyCalibrations);
+  const [showLatencyWizard, setShowLatencyWizard] = useState(false);
+  const [flashcardDeck, setFlashcardDeck] = useState<FlashcardDeck>(loadFlashcards);
+  const [flashcardSession, setFlashcardSession] = useState<FlashcardSession | null>(null);
+  const [sessionHistory, setSessionHistory] = useState<SessionRecord[]>(loadSessionHistory);
 
   // Initialize MIDI on mount
   useEffect(() => {
@@ -51,14 +120,52 @@ function App() {
     if (supported) {
       initMIDI().then((success) => {
         setMidiInitialized(success);
+        // Reconnect the devices chosen last time
+        if (success) {
+          applyDeviceChoices(loadMIDIDeviceChoices());
+          applyOutputChoice(loadMIDIOutputChoice());
+        }
       });
     }
 
+    // The computer keyboard and the microphone play whether or not there is MIDI
+    applyKeyboardInput(loadKeyboardInput() ?? DEFAULT_KEYBOARD_INPUT);
+    applyMicrophoneInput(loadMicrophoneInput() ?? DEFAULT_MICROPHONE_INPUT).catch((error) => {
+      console.warn('Failed to open the microphone:', error);
+    });
+
     // Load settings and high score
     setSettings(loadSettings());
     setHighScore(getHighScore());
   }, []);
 
+  // Track chosen devices that were unplugged; they reconnect on their own
+  useEffect(() => {
+    return onDeviceStateChange(() => setLostDevices(getLostDevices()));
+  }, []);
+
+  // Pause while a device is missing so a loose cable does not cost lives
+  useEffect(() => {
+    if (lostDevices.length === 0) return;
+    dispatch({ type: 'pause', at: getCurrentTime() });
+  }, [lostDevices]);
+
+  // Silence phrases and intervals when the game is paused, over or left
+  const isGameRunning = snapshot !== null && !snapshot.isPaused && !snapshot.isGameOver;
+  useEffect(() => {
+    if (!isGameRunning) stopPlayback();
+  }, [isGameRunning]);
+
+  // Play prompts and keys with the chosen sound
+  useEffect(() => {
+    setSoundSource(settings.soundSource, settings.samplePackUrl);
+  }, [settings.soundSource, settings.samplePackUrl]);
+
+  // Play in the chosen concert pitch and tuning system
+  useEffect(() => {
+    setTuning(getTuning(settings));
+  }, [settings]);
+
   // Save settings when they change
   useEffect(() => {
     if (settings !== DEFAULT_SETTINGS) {
@@ -66,16 +173,86 @@ function App() {
     }
   }, [settings]);
 
+  // Keep what the game learned about the player's reading for the next session
+  const skill = snapshot?.skill;
+  useEffect(() => {
+    if (skill) saveSkillModel(skill);
+  }, [skill]);
+
   // Clear flash error after animation
   useEffect(() => {
     if (snapshot?.flashError) {
       const timer = setTimeout(() => {
-        setSnapshot((prev) => (prev ? clearFlashError(prev) : prev));
+        dispatch({ type: 'clearFlash', at: getCurrentTime() });
       }, 500);
       return () => clearTimeout(timer);
     }
   }, [snapshot?.flashError]);
 
+  // Keep every finished session for the progress dashboard
+  useEffect(() => {
+    saveSessionHistory(sessionHistory);
+  }, [sessionHistory]);
+
+  const recordSession = useCallback(
+    (finished: GameSnapshot, durationSeconds: number) => {
+      if (finished.attempts === 0) return;
+      const record = createSessionRecord(finished, game.settings, durationSeconds, Date.now());
+      setSessionHistory((history) => addSession(history, record));
+    },
+    [game.settings]
+  );
+
+  // Keep the flashcard schedule between sessions
+  useEffect(() => {
+    saveFlashcards(flashcardDeck);
+  }, [flashcardDeck]);
+
+  useEffect(() => {
+    if (flashcardSession?.flashError) {
+      const timer = setTimeout(() => {
+        setFlashcardSession((session) => session && { ...session, flashError: false });
+      }, 500);
+      return () => clearTimeout(timer);
+    }
+  }, [flashcardSession?.flashError]);
+
+  // Judge an incomplete chord once its collection window has elapsed
+  useEffect(() => {
+    if (snapshot?.pendingSince == null) return;
+
+    const timer = setTimeout(() => {
+      dispatch({ type: 'tick', at: getCurrentTime() });
+    }, settings.chordWindowMs);
+    return () => clearTimeout(timer);
+  }, [snapshot?.pendingSince, settings]);
+
+  // Mark notes that scrolled past the playhead as missed
+  const isTimedActive =
+    snapshot?.beatZeroAt != null && !snapshot.isPaused && !snapshot.isGameOver;
+  useEffect(() => {
+    if (!isTimedActive) return;
+
+    const timer = setInterval(() => {
+      dispatch({ type: 'tick', at: getCurrentTime() });
+    }, 50);
+    return () => clearInterval(timer);
+  }, [isTimedActive]);
+
+  // Click along with the beat; restarted after a pause so it follows the moved beat
+  // Each new sequence moves beatZeroAt by whole bars, so the clicks keep going through it
+  const beatZeroAtRef = useRef(snapshot?.beatZeroAt);
+  beatZeroAtRef.current = snapshot?.beatZeroAt;
+  useEffect(() => {
+    const beatZeroAt = beatZeroAtRef.current;
+    if (!isTimedActive || beatZeroAt == null || !settings.metronome) return;
+
+    // Click the felt beat: quarters, or dotted quarters in 6/8
+    const meter = settings.mode === 'rhythm' ? settings.timeSignature : '4/4';
+    const { barBeats, beatUnit } = TIME_SIGNATURES[meter];
+    return startMetronome(settings.tempoBpm / beatUnit, beatZeroAt, barBeats / beatUnit);
+  }, [isTimedActive, settings.metronome, settings.tempoBpm, settings.mode, settings.timeSignature]);
+
   // Check for game over
   useEffect(() => {
     if (snapshot?.isGameOver && !showGameOver) {
@@ -85,6 +262,7 @@ function App() {
       const duration = calculateDuration(snapshot.startedAt, getCurrentTime());
       const finalScore = calculateFinalScore(snapshot.score, duration, snapshot.correct);
       const accuracy = getAccuracy(snapshot);
+      recordSession(snapshot, duration);
 
       const entry: HighScoreEntry = {
         score: finalScore,
@@ -100,7 +278,7 @@ function App() {
       // Check if score qualifies for leaderboard
       checkLeaderboardQualification(finalScore, snapshot.bestStreak);
     }
-  }, [snapshot?.isGameOver, showGameOver, snapshot, settings.difficulty]);
+  }, [snapshot?.isGameOver, showGameOver, snapshot, settings.difficulty, recordSession]);
 
   const checkLeaderboardQualification = async (
     score: number,
@@ -146,14 +324,30 @@ function App() {
     setPlayerName('');
   };
 
+  // Answer the card on show; reviews are days apart, so they are timed on the wall clock
+  const handleFlashcardAnswer = useCallback(
+    (midiNote: number) => {
+      if (!flashcardSession) return;
+      const answered = answerFlashcard(flashcardDeck, flashcardSession, midiNote, Date.now());
+      setFlashcardDeck(answered.deck);
+      setFlashcardSession(answered.session);
+    },
+    [flashcardDeck, flashcardSession]
+  );
+
   // MIDI message handler
   const handleMIDIMessage: MIDIMessageHandler = useCallback(
-    (midiNote: number, velocity: number) => {
+    (midiNote: number, velocity: number, deviceId: string, timestamp: number) => {
       console.log(`🎹 MIDI Note Received: ${midiNote} (velocity: ${velocity})`);
       
-      if (snapshot && !snapshot.isPaused && !snapshot.isGameOver) {
-        const newSnapshot = handleInput(snapshot, midiNote, settings);
-        setSnapshot(newSnapshot);
+      if (currentScreen === 'flashcards') {
+        handleFlashcardAnswer(midiNote);
+      } else if (snapshot && isGameActive(snapshot)) {
+        // Correct for the calibrated delay of the device the note came from; the press is
+        // timed when the event arrived, like its release and the calibration taps
+        const calibration = latencyCalibrations[getInputDeviceKey(deviceId)] ?? NO_LATENCY;
+        const latencyMs = getLatencyOffsetMs(calibration, settings);
+        dispatch({ type: 'noteOn', at: timestamp, midi: midiNote, latencyMs });
         setShowStartGamePrompt(false); // Clear prompt when game is active
       } else {
         console.log('⚠️ Game not started yet. Click "Start Game" to begin!');
@@ -162,14 +356,7 @@ function App() {
         setTimeout(() => setShowStartGamePrompt(false), 3000);
       }
     },
-    [snapshot, settings]
-  );
-
-  const handleDeviceConnect = useCallback(
-    (_handler: MIDIMessageHandler) => {
-      console.log('MIDI device connected');
-    },
-    []
+    [snapshot, settings, latencyCalibrations, currentScreen, handleFlashcardAnswer]
   );
 
   // Update MIDI handler whenever it changes (keeps handler fresh across screens)
@@ -177,37 +364,61 @@ function App() {
     updateMessageHandler(handleMIDIMessage);
   }, [handleMIDIMessage]);
 
-  const handleWelcomeStart = (mode: 'reading' | 'hearing') => {
+  // Released keys end held notes (judged in rhythm mode)
+  const handleNoteRelease = useCallback((midiNote: number, releasedAt?: number) => {
+    dispatch({ type: 'noteOff', at: releasedAt ?? getCurrentTime(), midi: midiNote });
+  }, []);
+
+  useEffect(() => {
+    return subscribeMIDIEvents((event) => {
+      if (event.type === 'noteOff') {
+        handleNoteRelease(event.note, event.timestamp);
+      }
+    });
+  }, [handleNoteRelease]);
+
+  const handleWelcomeStart = (mode: GameMode) => {
     setSettings({ ...settings, mode });
     setCurrentScreen('config');
   };
 
+  // Review the cards of the chosen difficulty and clefs that are due today
+  const handleStartFlashcards = (material: GameSettings) => {
+    const ids = getDeckCardIds(material);
+    const deck = addCards(flashcardDeck, ids);
+    const now = Date.now();
+    setSettings(material);
+    setFlashcardDeck(deck);
+    setFlashcardSession(startFlashcardSession(buildReviewQueue(deck, ids, now), now));
+    setCurrentScreen('flashcards');
+  };
+
   const handleStartGame = () => {
-    const newSnapshot = startGame(settings);
-    setSnapshot(newSnapshot);
+    const seed = parseSeed(seedText) ?? createSeed();
+    dispatch({ type: 'start', at: getCurrentTime(), settings, seed, skill: loadSkillModel() });
     setShowGameOver(false);
     setCurrentScreen('game');
     
-    // Initialize audio context for hearing mode
-    if (settings.mode === 'hearing') {
+    // Initialize audio context for the listening modes
+    if (settings.mode !== 'reading' && settings.mode !== 'chords') {
       initAudio();
     }
   };
 
   const handlePauseGame = () => {
-    if (snapshot) {
-      setSnapshot(pauseGame(snapshot));
-    }
+    dispatch({ type: 'pause', at: getCurrentTime() });
   };
 
   const handleResumeGame = () => {
-    if (snapshot) {
-      setSnapshot(resumeGame(snapshot));
-    }
+    dispatch({ type: 'resume', at: getCurrentTime() });
   };
 
   const handleResetGame = () => {
-    setSnapshot(null);
+    // A game left before it is over still counts as practice
+    if (snapshot && !snapshot.isGameOver) {
+      recordSession(snapshot, calculateDuration(snapshot.startedAt, getCurrentTime()));
+    }
+    dispatch({ type: 'quit', at: getCurrentTime() });
     setShowGameOver(false);
     setCurrentScreen('config');
   };
@@ -231,10 +442,7 @@ function App() {
   };
 
   const handlePianoClick = (midiNote: number) => {
-    if (snapshot && !snapshot.isPaused && !snapshot.isGameOver) {
-      const newSnapshot = handleInput(snapshot, midiNote, settings);
-      setSnapshot(newSnapshot);
-    }
+    dispatch({ type: 'noteOn', at: getCurrentTime(), midi: midiNote });
   };
 
   const handlePlayCurrentNote = () => {
@@ -244,12 +452,47 @@ function App() {
     }
   };
 
+  // Show the answer: play the target, which lights the keys on keyboards that can
+  const handleShowAnswer = () => {
+    if (snapshot && !snapshot.isPaused && !snapshot.isGameOver) {
+      getTargetMidis(snapshot.sequence[snapshot.currentIndex]).forEach((midi) => {
+        playNote(midi, 1.0, 0.3);
+      });
+    }
+  };
+
+  const handlePlayPhrase = () => {
+    if (!snapshot || !isGameActive(snapshot)) return;
+    if (getRemainingPlaybacks(snapshot, settings) === 0) return;
+    dispatch({ type: 'replayPhrase', at: getCurrentTime() });
+
+    const midiNotes = snapshot.sequence.map((note) => note.midi);
+    if (settings.dictationRhythm) {
+      playPhrase(midiNotes, snapshot.sequence.map((note) => note.beats ?? 1));
+    } else {
+      playSequence(midiNotes, 0.6, 0.5);
+    }
+  };
+
+  const handlePlayCurrentInterval = () => {
+    if (snapshot && !snapshot.isPaused && !snapshot.isGameOver) {
+      const currentNote = snapshot.sequence[snapshot.currentIndex];
+      if (currentNote.interval) {
+        playInterval(
+          currentNote.midi,
+          currentNote.interval.secondMidi,
+          settings.intervalPlayback === 'harmonic'
+        );
+      }
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
       {/* Welcome Screen */}
       {currentScreen === 'welcome' && (
         <div className="min-h-screen flex items-center justify-center px-4 py-8">
-          <div className="text-center max-w-4xl">
+          <div className="text-center max-w-7xl">
             <h1 className="text-7xl font-bold text-gray-900 mb-4">
               🎹 Solideya
             </h1>
@@ -262,7 +505,7 @@ function App() {
               <h2 className="text-2xl font-semibold text-gray-800 mb-6">
                 Choose Your Challenge
               </h2>
-              <div className="grid md:grid-cols-2 gap-6 max-w-3xl mx-auto">
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
                 {/* Reading Challenge */}
                 <button
                   onClick={() => handleWelcomeStart('reading')}
@@ -306,6 +549,138 @@ function App() {
                     </ul>
                   </div>
                 </button>
+
+                {/* Chord Challenge */}
+                <button
+                  onClick={() => handleWelcomeStart('chords')}
+                  className="group relative p-8 bg-white rounded-2xl shadow-xl hover:shadow-2xl transition-all transform hover:scale-105 border-4 border-green-200 hover:border-green-400"
+                >
+                  <div className="text-6xl mb-4">🎼</div>
+                  <h3 className="text-2xl font-bold text-gray-900 mb-3">
+                    Chord Challenge
+                  </h3>
+                  <p className="text-gray-600 mb-4">
+                    See chords on the staff and play all their notes together
+                  </p>
+                  <div className="bg-green-50 rounded-lg p-3 text-sm text-gray-700">
+                    <p className="font-semibold mb-2">Perfect for:</p>
+                    <ul className="text-left space-y-1">
+                      <li>• Triads and seventh chords</li>
+                      <li>• Reading inversions</li>
+                      <li>• Reading several notes at once</li>
+                    </ul>
+                  </div>
+                </button>
+
+                {/* Interval Challenge */}
+                <button
+                  onClick={() => handleWelcomeStart('intervals')}
+                  className="group relative p-8 bg-white rounded-2xl shadow-xl hover:shadow-2xl transition-all transform hover:scale-105 border-4 border-pink-200 hover:border-pink-400"
+                >
+                  <div className="text-6xl mb-4">🎶</div>
+                  <h3 className="text-2xl font-bold text-gray-900 mb-3">
+                    Interval Challenge
+                  </h3>
+                  <p className="text-gray-600 mb-4">
+                    Hear two notes and play the same interval back
+                  </p>
+                  <div className="bg-pink-50 rounded-lg p-3 text-sm text-gray-700">
+                    <p className="font-semibold mb-2">Perfect for:</p>
+                    <ul className="text-left space-y-1">
+                      <li>• Relative pitch</li>
+                      <li>• Recognizing intervals by ear</li>
+                      <li>• Playing by ear</li>
+                    </ul>
+                  </div>
+                </button>
+
+                {/* Melodic Dictation */}
+                <button
+                  onClick={() => handleWelcomeStart('dictation')}
+                  className="group relative p-8 bg-white rounded-2xl shadow-xl hover:shadow-2xl transition-all transform hover:scale-105 border-4 border-orange-200 hover:border-orange-400"
+                >
+                  <div className="text-6xl mb-4">📝</div>
+                  <h3 className="text-2xl font-bold text-gray-900 mb-3">
+                    Melodic Dictation
+                  </h3>
+                  <p className="text-gray-600 mb-4">
+                    Hear a whole phrase and play it back from memory
+                  </p>
+                  <div className="bg-orange-50 rounded-lg p-3 text-sm text-gray-700">
+                    <p className="font-semibold mb-2">Perfect for:</p>
+                    <ul className="text-left space-y-1">
+                      <li>• Melodic memory</li>
+                      <li>• Conservatory dictation exercises</li>
+                      <li>• Transcribing by ear</li>
+                    </ul>
+                  </div>
+                </button>
+
+                {/* Tempo Challenge */}
+                <button
+                  onClick={() => handleWelcomeStart('timed')}
+                  className="group relative p-8 bg-white rounded-2xl shadow-xl hover:shadow-2xl transition-all transform hover:scale-105 border-4 border-teal-200 hover:border-teal-400"
+                >
+                  <div className="text-6xl mb-4">⏱️</div>
+                  <h3 className="text-2xl font-bold text-gray-900 mb-3">
+                    Tempo Challenge
+                  </h3>
+                  <p className="text-gray-600 mb-4">
+                    Play the notes in time as they scroll past the playhead
+                  </p>
+                  <div className="bg-teal-50 rounded-lg p-3 text-sm text-gray-700">
+                    <p className="font-semibold mb-2">Perfect for:</p>
+                    <ul className="text-left space-y-1">
+                      <li>• Keeping a steady pulse</li>
+                      <li>• Sight-reading without stopping</li>
+                      <li>• Playing with a metronome</li>
+                    </ul>
+                  </div>
+                </button>
+
+                {/* Rhythm Challenge */}
+                <button
+                  onClick={() => handleWelcomeStart('rhythm')}
+                  className="group relative p-8 bg-white rounded-2xl shadow-xl hover:shadow-2xl transition-all transform hover:scale-105 border-4 border-red-200 hover:border-red-400"
+                >
+                  <div className="text-6xl mb-4">🥁</div>
+                  <h3 className="text-2xl font-bold text-gray-900 mb-3">
+                    Rhythm Challenge
+                  </h3>
+                  <p className="text-gray-600 mb-4">
+                    Read rhythms in bars and hold every note for its full length
+                  </p>
+                  <div className="bg-red-50 rounded-lg p-3 text-sm text-gray-700">
+                    <p className="font-semibold mb-2">Perfect for:</p>
+                    <ul className="text-left space-y-1">
+                      <li>• Note lengths, rests and ties</li>
+                      <li>• Counting in 2/4, 3/4, 4/4 and 6/8</li>
+                      <li>• Holding notes for their full value</li>
+                    </ul>
+                  </div>
+                </button>
+
+                {/* Flashcard Review */}
+                <button
+                  onClick={() => handleStartFlashcards(settings)}
+                  className="group relative p-8 bg-white rounded-2xl shadow-xl hover:shadow-2xl transition-all transform hover:scale-105 border-4 border-indigo-200 hover:border-indigo-400"
+                >
+                  <div className="text-6xl mb-4">🃏</div>
+                  <h3 className="text-2xl font-bold text-gray-900 mb-3">
+                    Flashcard Review
+                  </h3>
+                  <p className="text-gray-600 mb-4">
+                    Review each note when you are about to forget it
+                  </p>
+                  <div className="bg-indigo-50 rounded-lg p-3 text-sm text-gray-700">
+                    <p className="font-semibold mb-2">Perfect for:</p>
+                    <ul className="text-left space-y-1">
+                      <li>• A few minutes of practice a day</li>
+                      <li>• Remembering every note for good</li>
+                      <li>• Accidentals and ledger lines</li>
+                    </ul>
+                  </div>
+                </button>
               </div>
             </div>
 
@@ -317,6 +692,12 @@ function App() {
                 >
                   🏆 View Leaderboard
                 </button>
+                <button
+                  onClick={() => setCurrentScreen('progress')}
+                  className="ml-4 py-4 px-10 bg-gradient-to-r from-green-400 to-teal-500 text-white text-xl font-bold rounded-xl hover:from-green-500 hover:to-teal-600 transition-all transform hover:scale-105 shadow-xl"
+                >
+                  📈 View Progress
+                </button>
               </div>
 
               <div className="text-left max-w-2xl mx-auto space-y-3 text-gray-700 bg-white rounded-xl p-6 shadow-lg">
@@ -334,6 +715,31 @@ function App() {
         </div>
       )}
 
+      {/* Flashcard Screen */}
+      {currentScreen === 'flashcards' && flashcardSession && (
+        <div className="container mx-auto px-4 py-8">
+          <FlashcardReview
+            deck={flashcardDeck}
+            session={flashcardSession}
+            settings={settings}
+            onSettingsChange={handleStartFlashcards}
+            onBack={() => setCurrentScreen('welcome')}
+          />
+          {(settings.enableFallbackPiano || !midiSupported) && (
+            <div className="mt-6" style={{ maxHeight: '150px' }}>
+              <PianoFallback onNoteClick={handleFlashcardAnswer} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Progress Screen */}
+      {currentScreen === 'progress' && (
+        <div className="container mx-auto px-4 py-8">
+          <ProgressDashboard history={sessionHistory} onBack={() => setCurrentScreen('welcome')} />
+        </div>
+      )}
+
       {/* Configuration Screen */}
       <div className={currentScreen === 'config' ? '' : 'hidden'}>
         <div className="container mx-auto px-4 py-8">
@@ -356,16 +762,27 @@ function App() {
               onPause={handlePauseGame}
               onResume={handleResumeGame}
               onReset={handleResetGame}
+              seed={seedText}
+              onSeedChange={setSeedText}
             />
 
             {/* MIDI Device Picker - Always rendered to maintain connection */}
             {midiSupported && midiInitialized && (
-              <DevicePicker
-                onDeviceConnect={handleDeviceConnect}
-                messageHandler={handleMIDIMessage}
-              />
+              <DevicePicker />
             )}
 
+            <KeyboardInputPanel />
+
+            <MicrophoneInputPanel />
+
+            <button
+              onClick={() => setShowLatencyWizard(true)}
+              className="w-full py-2 px-4 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
+              type="button"
+            >
+              ⏱️ Calibrate Latency
+            </button>
+
             {!midiSupported && (
               <div className="bg-yellow-50 border border-yellow-300 rounded-lg p-4">
                 <h3 className="font-semibold text-yellow-900 mb-2">⚠️ MIDI Not Supported</h3>
@@ -427,7 +844,7 @@ function App() {
             {/* HUD in the middle */}
             {snapshot && (
               <div className="flex-1 min-w-0">
-                <Hud snapshot={snapshot} highScore={highScore} />
+                <Hud snapshot={snapshot} highScore={highScore} lostDevices={lostDevices} />
               </div>
             )}
             
@@ -462,8 +879,8 @@ function App() {
               <div className="flex flex-col h-full px-6 py-2 gap-2">
                 {/* Game Content Area - Centered with proper spacing, max-height to prevent overflow */}
                 <div className="flex-grow flex flex-col justify-center py-2 overflow-hidden" style={{ maxHeight: 'calc(100vh - 180px)' }}>
-                  {settings.mode === 'reading' ? (
-                    // Reading Mode - Show Staff
+                  {settings.mode === 'reading' || settings.mode === 'chords' ? (
+                    // Reading and Chord Modes - Show Staff
                     <div className="space-y-2 max-h-full flex flex-col items-center justify-center">
                       <div className="w-full max-w-full" style={{ maxHeight: 'calc(100vh - 320px)' }}>
                         <Staff
@@ -472,6 +889,148 @@ function App() {
                           flashError={snapshot.flashError}
                         />
                       </div>
+                      <button
+                        onClick={handleShowAnswer}
+                        disabled={snapshot.isPaused || snapshot.isGameOver}
+                        className="py-1 px-4 bg-white border border-gray-300 text-gray-700 text-sm font-semibold rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        type="button"
+                      >
+                        💡 Show Me
+                      </button>
+                    </div>
+                  ) : snapshot.beatZeroAt !== null ? (
+                    // Timed and Rhythm Modes - Notes scroll past the playhead at the chosen tempo
+                    <div className="space-y-2 max-h-full flex flex-col items-center justify-center">
+                      <div className="w-full max-w-full">
+                        <ScrollingStaff
+                          sequence={snapshot.sequence}
+                          currentIndex={snapshot.currentIndex}
+                          flashError={snapshot.flashError}
+                          noteTimings={snapshot.noteTimings}
+                          beatZeroAt={snapshot.beatZeroAt}
+                          tempoBpm={settings.tempoBpm}
+                          isPaused={snapshot.isPaused}
+                        />
+                      </div>
+                      <TimingResults
+                        results={snapshot.timingResults}
+                        holdResults={settings.mode === 'rhythm' ? snapshot.holdResults : undefined}
+                        compact
+                      />
+                    </div>
+                  ) : settings.mode === 'intervals' ? (
+                    // Interval Mode - Show Play Button and the answer's starting note
+                    <div className="space-y-2 max-h-full flex flex-col items-center justify-center">
+                      <h2 className="text-lg font-bold text-gray-900 text-center">
+                        {snapshot.isPaused ? '⏸️ Game Paused' : '🎶 Listen and play the same interval'}
+                      </h2>
+                      <div className="max-w-2xl mx-auto w-full" style={{ maxHeight: 'calc(100vh - 350px)' }}>
+                        <div className="bg-white rounded-2xl shadow-xl p-4 text-center border-4 border-pink-200">
+                          <div className="mb-3">
+                            <div className="text-4xl mb-2">🔊</div>
+                            <p className="text-sm text-gray-600 mb-3">
+                              Click the button to hear the interval
+                            </p>
+                            <button
+                              onClick={handlePlayCurrentInterval}
+                              disabled={snapshot.isPaused || snapshot.isGameOver}
+                              className="py-2 px-6 bg-gradient-to-r from-pink-500 to-rose-600 text-white text-base font-bold rounded-xl hover:from-pink-600 hover:to-rose-700 transition-all transform hover:scale-105 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                              type="button"
+                            >
+                              🎵 Play Interval
+                            </button>
+                          </div>
+
+                          <div className="mt-3 pt-3 border-t border-gray-200">
+                            <p className="text-sm text-gray-700">
+                              {settings.transposedAnswer ? (
+                                'Start your answer on any note'
+                              ) : (
+                                <>
+                                  Start your answer on{' '}
+                                  <span className="font-bold text-pink-600">
+                                    {midiToPitch(
+                                      snapshot.sequence[snapshot.currentIndex].interval?.answerStartMidi ??
+                                        snapshot.sequence[snapshot.currentIndex].midi
+                                    )}
+                                  </span>
+                                </>
+                              )}
+                            </p>
+                            {snapshot.pendingNotes.length > 0 && (
+                              <p className="text-xs text-gray-500 mt-1">
+                                First note: {midiToPitch(snapshot.pendingNotes[0])}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  ) : settings.mode === 'dictation' ? (
+                    // Dictation Mode - Play the whole phrase, then judge it as a whole
+                    <div className="space-y-2 max-h-full flex flex-col items-center justify-center">
+                      <h2 className="text-lg font-bold text-gray-900 text-center">
+                        {snapshot.isPaused ? '⏸️ Game Paused' : '📝 Listen and play back the whole phrase'}
+                      </h2>
+                      <div className="max-w-2xl mx-auto w-full" style={{ maxHeight: 'calc(100vh - 350px)' }}>
+                        <div className="bg-white rounded-2xl shadow-xl p-4 text-center border-4 border-orange-200">
+                          <div className="mb-3">
+                            <div className="text-4xl mb-2">🔊</div>
+                            <p className="text-sm text-gray-600 mb-3">
+                              {getRemainingPlaybacks(snapshot, settings)} playback(s) left for this phrase
+                            </p>
+                            <button
+                              onClick={handlePlayPhrase}
+                              disabled={
+                                snapshot.isPaused ||
+                                snapshot.isGameOver ||
+                                getRemainingPlaybacks(snapshot, settings) === 0
+                              }
+                              className="py-2 px-6 bg-gradient-to-r from-orange-500 to-red-500 text-white text-base font-bold rounded-xl hover:from-orange-600 hover:to-red-600 transition-all transform hover:scale-105 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                              type="button"
+                            >
+                              🎵 Play Phrase
+                            </button>
+                          </div>
+
+                          {/* Notes played so far in this phrase */}
+                          <div className="mt-3 pt-3 border-t border-gray-200">
+                            <p className="text-xs text-gray-600 mb-2">Your Phrase</p>
+                            <div className="flex justify-center gap-2 flex-wrap">
+                              {snapshot.sequence.map((_, index) => (
+                                <div
+                                  key={index}
+                                  className={`w-3 h-3 rounded-full ${
+                                    index < snapshot.pendingNotes.length
+                                      ? 'bg-blue-500'
+                                      : 'bg-gray-300'
+                                  }`}
+                                />
+                              ))}
+                            </div>
+                          </div>
+
+                          {/* Result of the previous phrase */}
+                          {snapshot.dictationMarks && (
+                            <div className="mt-3 pt-3 border-t border-gray-200">
+                              <p className="text-xs text-gray-600 mb-2">
+                                Last Phrase: {snapshot.dictationMarks.filter(Boolean).length}/
+                                {snapshot.dictationMarks.length} correct
+                              </p>
+                              <div className="flex justify-center gap-2 flex-wrap">
+                                {snapshot.dictationMarks.map((isCorrect, index) => (
+                                  <div
+                                    key={index}
+                                    className={`w-3 h-3 rounded-full ${
+                                      isCorrect ? 'bg-green-500' : 'bg-red-500'
+                                    }`}
+                                  />
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      </div>
                     </div>
                   ) : (
                     // Hearing Mode - Show Play Button
@@ -525,7 +1084,7 @@ function App() {
                 {/* On-screen piano fallback - Always visible at bottom with max height */}
                 {(settings.enableFallbackPiano || !midiSupported) && (
                   <div className="flex-shrink-0" style={{ maxHeight: '150px' }}>
-                    <PianoFallback onNoteClick={handlePianoClick} />
+                    <PianoFallback onNoteClick={handlePianoClick} onNoteRelease={handleNoteRelease} />
                   </div>
                 )}
               </div>
@@ -535,6 +1094,22 @@ function App() {
       </div>
 
       {/* Leaderboard Modal */}
+      <Modal
+        isOpen={showLatencyWizard}
+        onClose={() => setShowLatencyWizard(false)}
+        title="⏱️ Latency Calibration"
+        maxWidth="md"
+      >
+        <LatencyWizard
+          calibrations={latencyCalibrations}
+          onSave={(calibrations) => {
+            setLatencyCalibrations(calibrations);
+            saveLatencyCalibrations(calibrations);
+          }}
+          onClose={() => setShowLatencyWizard(false)}
+        />
+      </Modal>
+
       <Modal
         isOpen={showLeaderboard}
         onClose={() => setShowLeaderboard(false)}
@@ -622,6 +1197,34 @@ function App() {
               </div>
             </div>
 
+            {/* Seed, to play or share the same notes again */}
+            <div className="flex items-center justify-between bg-gray-50 rounded-lg px-4 py-2 text-sm text-gray-600">
+              <span>
+                Seed: <span className="font-mono text-gray-900">{snapshot.seed}</span>
+              </span>
+              {seedText !== String(snapshot.seed) && (
+                <button
+                  onClick={() => setSeedText(String(snapshot.seed))}
+                  className="text-primary hover:underline"
+                >
+                  Keep this seed
+                </button>
+              )}
+            </div>
+
+            {/* Per-interval breakdown */}
+            {settings.mode === 'intervals' && (
+              <IntervalResults results={snapshot.intervalResults} />
+            )}
+
+            {/* Timing breakdown */}
+            {snapshot.beatZeroAt !== null && (
+              <TimingResults
+                results={snapshot.timingResults}
+                holdResults={settings.mode === 'rhythm' ? snapshot.holdResults : undefined}
+              />
+            )}
+
             {/* New High Score Badge */}
             {highScore && snapshot.score >= highScore.score && (
               <div className="bg-yellow-50 border-2 border-yellow-400 rounded-lg p-4 text-center">
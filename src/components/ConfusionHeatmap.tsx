@@ -0,0 +1,264 @@
+// Confusion heatmaps: which notes are misread, what is played instead, and the kind of mistake
+
+import { StaffClef } from '../game/types';
+import { getStaffStep, isNatural, midiToPitch, pitchToMidi } from '../game/mapping';
+import {
+  ConfusionMatrix,
+  MISTAKE_LABELS,
+  MistakeKind,
+  countMistakes,
+  getConfusionRows,
+  getWrongKeyCounts,
+} from '../game/confusion';
+
+interface ConfusionHeatmapProps {
+  matrix: ConfusionMatrix;
+}
+
+// Most-missed notes shown as rows of the matrix
+const MATRIX_ROWS = 12;
+
+// Keyboard drawing, in SVG units
+const WHITE_KEY_WIDTH = 16;
+const WHITE_KEY_HEIGHT = 70;
+const BLACK_KEY_WIDTH = 10;
+const BLACK_KEY_HEIGHT = 44;
+
+// Staff drawing, in SVG units: one step is a line or a space
+const STEP_HEIGHT = 5;
+const NOTE_SPACING = 22;
+const STAFF_MARGIN = 40; // room for ledger lines above and below
+
+/**
+ * Shade from white to red as a share goes from 0 to 1
+ */
+function getHeatColor(share: number): string {
+  return share > 0 ? `rgba(239, 68, 68, ${0.15 + 0.85 * share})` : '#ffffff';
+}
+
+/**
+ * Each key shaded by how often it was played by mistake
+ */
+function KeyboardHeatmap({ counts }: { counts: Record<number, number> }) {
+  const midis = Object.keys(counts).map(Number);
+  const most = Math.max(...Object.values(counts));
+  const firstC = Math.floor(Math.min(...midis) / 12) * 12;
+  const lastB = Math.floor(Math.max(...midis) / 12) * 12 + 11;
+
+  const keys = Array.from({ length: lastB - firstC + 1 }, (_, index) => firstC + index);
+  const whiteKeys = keys.filter(isNatural);
+  const blackKeys = keys.filter((midi) => !isNatural(midi));
+
+  // A black key sits on the line between its two white neighbours
+  const getWhiteIndex = (midi: number) => whiteKeys.filter((white) => white < midi).length;
+
+  return (
+    <svg
+      viewBox={`0 0 ${whiteKeys.length * WHITE_KEY_WIDTH} ${WHITE_KEY_HEIGHT}`}
+      className="w-full h-auto"
+    >
+      {whiteKeys.map((midi, index) => (
+        <rect
+          key={midi}
+          x={index * WHITE_KEY_WIDTH}
+          y={0}
+          width={WHITE_KEY_WIDTH}
+          height={WHITE_KEY_HEIGHT}
+          fill={getHeatColor((counts[midi] ?? 0) / most)}
+          stroke="#9ca3af"
+        >
+          <title>{`${midiToPitch(midi)}: played by mistake ${counts[midi] ?? 0}×`}</title>
+        </rect>
+      ))}
+      {blackKeys.map((midi) => (
+        <rect
+          key={midi}
+          x={getWhiteIndex(midi) * WHITE_KEY_WIDTH - BLACK_KEY_WIDTH / 2}
+          y={0}
+          width={BLACK_KEY_WIDTH}
+          height={BLACK_KEY_HEIGHT}
+          fill={counts[midi] ? getHeatColor(counts[midi] / most) : '#1f2937'}
+          stroke="#111827"
+        >
+          <title>{`${midiToPitch(midi)}: played by mistake ${counts[midi] ?? 0}×`}</title>
+        </rect>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * The notes read on one clef, placed on its staff and shaded by how often they were missed
+ */
+function StaffHeatmap({
+  clef,
+  notes,
+}: {
+  clef: StaffClef;
+  notes: { pitch: string; attempts: number; mistakes: number }[];
+}) {
+  const placed = notes
+    .map((note) => ({ ...note, step: getStaffStep(note.pitch, clef) }))
+    .sort((a, b) => pitchToMidi(a.pitch) - pitchToMidi(b.pitch));
+  const lowest = Math.min(0, ...placed.map(({ step }) => step));
+  const highest = Math.max(8, ...placed.map(({ step }) => step));
+
+  const width = STAFF_MARGIN + placed.length * NOTE_SPACING + NOTE_SPACING;
+  const height = (highest - lowest) * STEP_HEIGHT + 2 * STAFF_MARGIN;
+  const getY = (step: number) => STAFF_MARGIN + (highest - step) * STEP_HEIGHT;
+
+  return (
+    <div>
+      <div className="text-sm font-medium text-gray-700 capitalize mb-1">{clef} clef</div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+        {[0, 2, 4, 6, 8].map((step) => (
+          <line key={step} x1={0} y1={getY(step)} x2={width} y2={getY(step)} stroke="#6b7280" />
+        ))}
+        {placed.map(({ pitch, attempts, mistakes, step }, index) => {
+          const x = STAFF_MARGIN + index * NOTE_SPACING;
+
+          // Ledger lines between the staff and notes above or below it
+          const ledgers = [];
+          for (let ledger = -2; ledger >= step; ledger -= 2) ledgers.push(ledger);
+          for (let ledger = 10; ledger <= step; ledger += 2) ledgers.push(ledger);
+
+          return (
+            <g key={pitch}>
+              {ledgers.map((ledger) => (
+                <line
+                  key={ledger}
+                  x1={x - 9}
+                  y1={getY(ledger)}
+                  x2={x + 9}
+                  y2={getY(ledger)}
+                  stroke="#6b7280"
+                />
+              ))}
+              <ellipse
+                cx={x}
+                cy={getY(step)}
+                rx={6}
+                ry={STEP_HEIGHT - 0.5}
+                fill={getHeatColor(mistakes / attempts)}
+                stroke="#374151"
+              >
+                <title>{`${pitch}: missed ${mistakes} of ${attempts}`}</title>
+              </ellipse>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
+export default function ConfusionHeatmap({ matrix }: ConfusionHeatmapProps) {
+  const rows = getConfusionRows(matrix);
+  const mistakes = countMistakes(matrix);
+  const totalMistakes = Object.values(mistakes).reduce((sum, count) => sum + count, 0);
+  const wrongKeys = getWrongKeyCounts(matrix);
+
+  if (totalMistakes === 0) {
+    return (
+      <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm text-gray-600">
+        🎯 No wrong notes in these sessions, so there is nothing to map yet.
+      </div>
+    );
+  }
+
+  // The most-missed notes, against every note played for them
+  const matrixRows = rows.filter((row) => row.mistakes > 0).slice(0, MATRIX_ROWS);
+  const playedColumns = [
+    ...new Set(matrixRows.flatMap((row) => Object.keys(row.played).map(Number))),
+  ].sort((a, b) => a - b);
+  const mostInCell = Math.max(
+    ...matrixRows.flatMap((row) =>
+      Object.entries(row.played)
+        .filter(([midi]) => Number(midi) !== pitchToMidi(row.pitch))
+        .map(([, count]) => count)
+    )
+  );
+
+  // Heard notes were never on a staff
+  const clefs = [...new Set(rows.flatMap((row) => (row.clef === null ? [] : [row.clef])))];
+
+  return (
+    <div className="space-y-6">
+      {/* Mistake patterns */}
+      <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-800 mb-3">🧩 Kinds of Mistakes</h3>
+        <div className="space-y-2">
+          {(Object.keys(MISTAKE_LABELS) as MistakeKind[]).map((kind) => (
+            <div key={kind} className="flex items-center gap-3 text-sm">
+              <div className="w-48 text-gray-700">{MISTAKE_LABELS[kind]}</div>
+              <div className="flex-1 bg-gray-100 rounded h-4">
+                <div
+                  className="bg-red-400 h-4 rounded"
+                  style={{ width: `${(mistakes[kind] / totalMistakes) * 100}%` }}
+                />
+              </div>
+              <div className="w-10 text-right text-gray-600">{mistakes[kind]}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Confusion matrix */}
+      <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm overflow-x-auto">
+        <h3 className="text-lg font-semibold text-gray-800 mb-3">🔀 Expected vs. Played</h3>
+        <table className="text-xs border-collapse">
+          <thead>
+            <tr>
+              <th className="p-1 text-left text-gray-600">Expected ↓ / Played →</th>
+              {playedColumns.map((midi) => (
+                <th key={midi} className="p-1 text-gray-600 font-medium">
+                  {midiToPitch(midi)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrixRows.map((row) => (
+              <tr key={row.key}>
+                <td className="p-1 font-medium text-gray-800 whitespace-nowrap">
+                  {row.pitch} <span className="text-gray-500">({row.clef ?? 'heard'})</span>
+                </td>
+                {playedColumns.map((midi) => {
+                  const count = row.played[midi] ?? 0;
+                  const isCorrect = midi === pitchToMidi(row.pitch);
+                  return (
+                    <td
+                      key={midi}
+                      className="p-1 text-center border border-gray-100 w-8"
+                      style={{
+                        backgroundColor: isCorrect
+                          ? count > 0
+                            ? '#dcfce7'
+                            : '#ffffff'
+                          : getHeatColor(count / mostInCell),
+                      }}
+                    >
+                      {count > 0 ? count : ''}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Heatmaps */}
+      <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800">🎹 Keys Played by Mistake</h3>
+        <KeyboardHeatmap counts={wrongKeys} />
+        <h3 className="text-lg font-semibold text-gray-800">🎼 Notes Missed on the Staff</h3>
+        <div className="grid md:grid-cols-2 gap-4">
+          {clefs.map((clef) => (
+            <StaffHeatmap key={clef} clef={clef} notes={rows.filter((row) => row.clef === clef)} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,35 @@
 // Game controls for settings and game state management
 
-import { GameSettings, Difficulty, ClefChoice, DIFFICULTY_CONFIGS } from '../game/types';
+import {
+  GameSettings,
+  Difficulty,
+  ClefChoice,
+  IntervalPlayback,
+  SoundSource,
+  StaffClef,
+  TimeSignature,
+  TuningSystem,
+  DIFFICULTY_CONFIGS,
+  GAME_MODE_INFO,
+} from '../game/types';
+import { KEY_NAMES, KEY_SIGNATURES, KeyName, KeySignatureChoice } from '../game/keys';
+import { TIME_SIGNATURES } from '../game/rhythm';
+import { isTimedMode } from '../game/timing';
+import { TUNING_SYSTEM_NAMES } from '../game/tuning';
+import { isReadingMode } from '../game/adaptive';
+
+// Pitch classes from C, for picking a tuning's root and custom offsets
+const PITCH_CLASS_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+/**
+ * Describe a key for the selector (e.g., "Eb major (3♭)")
+ */
+function describeKey(key: KeyName): string {
+  const name = key.endsWith('m') ? `${key.slice(0, -1)} minor` : `${key} major`;
+  const count = KEY_SIGNATURES[key];
+  if (count === 0) return name;
+  return `${name} (${Math.abs(count)}${count > 0 ? '♯' : '♭'})`;
+}
 
 interface ControlsProps {
   settings: GameSettings;
@@ -11,6 +40,8 @@ interface ControlsProps {
   onPause: () => void;
   onResume: () => void;
   onReset: () => void;
+  seed: string; // seed typed for the next game; empty for a new one every time
+  onSeedChange: (seed: string) => void;
 }
 
 export default function Controls({
@@ -22,6 +53,8 @@ export default function Controls({
   onPause,
   onResume,
   onReset,
+  seed,
+  onSeedChange,
 }: ControlsProps) {
   const updateSetting = <K extends keyof GameSettings>(key: K, value: GameSettings[K]) => {
     const newSettings = { ...settings, [key]: value };
@@ -31,10 +64,25 @@ export default function Controls({
       const config = DIFFICULTY_CONFIGS[value as Difficulty];
       newSettings.sequenceLength = config.defaultSequenceLength;
     }
+
+    // Samples need a pack to play from
+    if (key === 'samplePackUrl' && !(value as string).trim()) {
+      newSettings.soundSource = 'synth';
+    }
     
     onSettingsChange(newSettings);
   };
 
+  const toggleMixedClef = (clef: StaffClef, enabled: boolean) => {
+    // Keep the rotation in staff order and never empty
+    const clefs = (['treble', 'bass', 'alto', 'tenor'] as StaffClef[]).filter((c) =>
+      c === clef ? enabled : settings.mixedClefs.includes(c)
+    );
+    if (clefs.length > 0) {
+      updateSetting('mixedClefs', clefs);
+    }
+  };
+
   return (
     <div className="bg-white border border-gray-300 rounded-lg p-6 shadow-sm space-y-6">
       <h2 className="text-2xl font-bold text-gray-900">Game Settings</h2>
@@ -45,18 +93,12 @@ export default function Controls({
           Current Mode
         </label>
         <div className="flex items-center gap-3">
-          <div className="text-3xl">
-            {settings.mode === 'reading' ? '👀' : '👂'}
-          </div>
+          <div className="text-3xl">{GAME_MODE_INFO[settings.mode].emoji}</div>
           <div>
             <div className="font-bold text-lg text-gray-900">
-              {settings.mode === 'reading' ? 'Reading Challenge' : 'Hearing Challenge'}
-            </div>
-            <div className="text-sm text-gray-600">
-              {settings.mode === 'reading' 
-                ? 'See notes and play them' 
-                : 'Hear notes and play them back'}
+              {GAME_MODE_INFO[settings.mode].label}
             </div>
+            <div className="text-sm text-gray-600">{GAME_MODE_INFO[settings.mode].description}</div>
           </div>
         </div>
       </div>
@@ -72,10 +114,28 @@ export default function Controls({
           disabled={isGameActive}
           className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary disabled:bg-gray-100 disabled:cursor-not-allowed"
         >
-          <option value="beginner">Beginner (C3-C5, naturals only)</option>
+          <option value="beginner">Beginner (C3-C5, no accidentals)</option>
           <option value="intermediate">Intermediate (A2-E5, with accidentals)</option>
           <option value="advanced">Advanced (F2-G5, all accidentals)</option>
         </select>
+        {isReadingMode(settings.mode) && (
+          <div className="mt-3">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={settings.adaptive}
+                onChange={(e) => updateSetting('adaptive', e.target.checked)}
+                disabled={isGameActive}
+                className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+              />
+              <span className="text-sm font-medium text-gray-700">Adaptive Practice</span>
+            </label>
+            <p className="text-xs text-gray-500 mt-1 ml-6">
+              Shows the notes you miss or read slowly more often, and widens the range once you
+              know it
+            </p>
+          </div>
+        )}
       </div>
 
       {/* Clef Selection */}
@@ -84,7 +144,7 @@ export default function Controls({
           Clef
         </label>
         <div className="grid grid-cols-3 gap-2">
-          {(['treble', 'bass', 'both'] as ClefChoice[]).map((clef) => (
+          {(['treble', 'bass', 'alto', 'tenor', 'both', 'mixed'] as ClefChoice[]).map((clef) => (
             <button
               key={clef}
               onClick={() => updateSetting('clef', clef)}
@@ -99,6 +159,59 @@ export default function Controls({
             </button>
           ))}
         </div>
+        {settings.clef === 'mixed' && (
+          <div className="mt-3 ml-1">
+            <p className="text-xs text-gray-500 mb-2">Rotate through these clefs, one per sequence:</p>
+            <div className="flex flex-wrap gap-4">
+              {(['treble', 'bass', 'alto', 'tenor'] as StaffClef[]).map((clef) => (
+                <label key={clef} className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={settings.mixedClefs.includes(clef)}
+                    onChange={(e) => toggleMixedClef(clef, e.target.checked)}
+                    disabled={
+                      isGameActive ||
+                      (settings.mixedClefs.length === 1 && settings.mixedClefs[0] === clef)
+                    }
+                    className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                  />
+                  <span className="text-sm text-gray-700">
+                    {clef.charAt(0).toUpperCase() + clef.slice(1)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Key Signature */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Key Signature
+        </label>
+        <select
+          value={settings.keySignature}
+          onChange={(e) => updateSetting('keySignature', e.target.value as KeySignatureChoice)}
+          disabled={isGameActive}
+          className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary disabled:bg-gray-100 disabled:cursor-not-allowed"
+        >
+          <option value="random">Random key per sequence</option>
+          <optgroup label="Major keys">
+            {KEY_NAMES.filter((key) => !key.endsWith('m')).map((key) => (
+              <option key={key} value={key}>
+                {describeKey(key)}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Minor keys">
+            {KEY_NAMES.filter((key) => key.endsWith('m')).map((key) => (
+              <option key={key} value={key}>
+                {describeKey(key)}
+              </option>
+            ))}
+          </optgroup>
+        </select>
       </div>
 
       {/* Lives */}
@@ -144,6 +257,160 @@ export default function Controls({
         </div>
       </div>
 
+      {/* Chord Window (Chord mode only) */}
+      {settings.mode === 'chords' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Chord Window: {settings.chordWindowMs}ms
+          </label>
+          <input
+            type="range"
+            min="50"
+            max="1000"
+            step="50"
+            value={settings.chordWindowMs}
+            onChange={(e) => updateSetting('chordWindowMs', parseInt(e.target.value))}
+            disabled={isGameActive}
+            className="w-full disabled:opacity-50 disabled:cursor-not-allowed"
+          />
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>50ms (strict)</span>
+            <span>1000ms (relaxed)</span>
+          </div>
+        </div>
+      )}
+
+      {/* Interval Playback (Interval mode only) */}
+      {settings.mode === 'intervals' && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Interval Playback</label>
+            <select
+              value={settings.intervalPlayback}
+              onChange={(e) =>
+                updateSetting('intervalPlayback', e.target.value as IntervalPlayback)
+              }
+              disabled={isGameActive}
+              className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary disabled:bg-gray-100 disabled:cursor-not-allowed"
+            >
+              <option value="melodic">Melodic (one note after the other)</option>
+              <option value="harmonic">Harmonic (both notes together)</option>
+            </select>
+          </div>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={settings.transposedAnswer}
+              onChange={(e) => updateSetting('transposedAnswer', e.target.checked)}
+              disabled={isGameActive}
+              className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            <span className="text-sm font-medium text-gray-700">
+              Answer from any starting note
+            </span>
+          </label>
+        </div>
+      )}
+
+      {/* Dictation Playback (Dictation mode only) */}
+      {settings.mode === 'dictation' && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Replays Allowed: {settings.dictationReplays}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="5"
+              value={settings.dictationReplays}
+              onChange={(e) => updateSetting('dictationReplays', parseInt(e.target.value))}
+              disabled={isGameActive}
+              className="w-full disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+          </div>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={settings.dictationRhythm}
+              onChange={(e) => updateSetting('dictationRhythm', e.target.checked)}
+              disabled={isGameActive}
+              className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            <span className="text-sm font-medium text-gray-700">Play phrases with a rhythm</span>
+          </label>
+        </div>
+      )}
+
+      {/* Tempo and Timing Window (Timed and Rhythm modes) */}
+      {isTimedMode(settings.mode) && (
+        <div className="space-y-3">
+          {settings.mode === 'rhythm' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Time Signature
+              </label>
+              <select
+                value={settings.timeSignature}
+                onChange={(e) => updateSetting('timeSignature', e.target.value as TimeSignature)}
+                disabled={isGameActive}
+                className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary disabled:bg-gray-100 disabled:cursor-not-allowed"
+              >
+                {(Object.keys(TIME_SIGNATURES) as TimeSignature[]).map((timeSignature) => (
+                  <option key={timeSignature} value={timeSignature}>
+                    {timeSignature}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Tempo: {settings.tempoBpm} BPM{settings.mode === 'rhythm' && ' (quarter notes)'}
+            </label>
+            <input
+              type="range"
+              min="40"
+              max="180"
+              step="4"
+              value={settings.tempoBpm}
+              onChange={(e) => updateSetting('tempoBpm', parseInt(e.target.value))}
+              disabled={isGameActive}
+              className="w-full disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              On-Time Window: ±{settings.timingWindowMs}ms
+            </label>
+            <input
+              type="range"
+              min="30"
+              max="250"
+              step="10"
+              value={settings.timingWindowMs}
+              onChange={(e) => updateSetting('timingWindowMs', parseInt(e.target.value))}
+              disabled={isGameActive}
+              className="w-full disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>30ms (strict)</span>
+              <span>250ms (relaxed)</span>
+            </div>
+          </div>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={settings.metronome}
+              onChange={(e) => updateSetting('metronome', e.target.checked)}
+              disabled={isGameActive}
+              className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            <span className="text-sm font-medium text-gray-700">Metronome click</span>
+          </label>
+        </div>
+      )}
+
       {/* Double Accidentals (Advanced only) */}
       <div>
         <label className="flex items-center space-x-2">
@@ -165,6 +432,103 @@ export default function Controls({
         )}
       </div>
 
+      {/* Sound */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Sound</label>
+        <select
+          value={settings.soundSource}
+          onChange={(e) => updateSetting('soundSource', e.target.value as SoundSource)}
+          className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary"
+        >
+          <option value="synth">Piano Synth</option>
+          <option value="samples" disabled={!settings.samplePackUrl.trim()}>
+            Sample Pack
+          </option>
+        </select>
+        <input
+          type="text"
+          value={settings.samplePackUrl}
+          onChange={(e) => updateSetting('samplePackUrl', e.target.value)}
+          placeholder="/samples/piano.sfz"
+          className="w-full mt-2 p-2 border border-gray-300 rounded text-sm font-mono focus:ring-2 focus:ring-primary focus:border-primary"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Set a sample pack to play it: an .sfz file or a .json map of notes to WAV files, such
+          as one added to public/. The synth plays until it loads.
+        </p>
+      </div>
+
+      {/* Tuning */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Tuning (A4 = {settings.concertPitch} Hz)
+        </label>
+        <input
+          type="number"
+          min="380"
+          max="480"
+          step="1"
+          value={settings.concertPitch}
+          onChange={(e) => {
+            const concertPitch = parseFloat(e.target.value);
+            if (concertPitch >= 380 && concertPitch <= 480) {
+              updateSetting('concertPitch', concertPitch);
+            }
+          }}
+          className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary"
+        />
+        <select
+          value={settings.tuningSystem}
+          onChange={(e) => updateSetting('tuningSystem', e.target.value as TuningSystem)}
+          className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary"
+        >
+          {(Object.keys(TUNING_SYSTEM_NAMES) as TuningSystem[]).map((system) => (
+            <option key={system} value={system}>
+              {TUNING_SYSTEM_NAMES[system]}
+            </option>
+          ))}
+        </select>
+        {settings.tuningSystem !== 'equal' && settings.tuningSystem !== 'custom' && (
+          <select
+            value={settings.tuningRoot}
+            onChange={(e) => updateSetting('tuningRoot', parseInt(e.target.value))}
+            className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary"
+          >
+            {PITCH_CLASS_NAMES.map((name, pitchClass) => (
+              <option key={name} value={pitchClass}>
+                Tuned from {name}
+              </option>
+            ))}
+          </select>
+        )}
+        {settings.tuningSystem === 'custom' && (
+          <div className="grid grid-cols-4 gap-1">
+            {PITCH_CLASS_NAMES.map((name, pitchClass) => (
+              <label key={name} className="text-xs text-gray-600">
+                {name}
+                <input
+                  type="number"
+                  min="-50"
+                  max="50"
+                  step="1"
+                  value={settings.customCents[pitchClass] ?? 0}
+                  onChange={(e) => {
+                    const customCents = [...settings.customCents];
+                    customCents[pitchClass] = parseFloat(e.target.value) || 0;
+                    updateSetting('customCents', customCents);
+                  }}
+                  className="w-full p-1 border border-gray-300 rounded text-sm"
+                  title="Cents away from equal temperament"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          Applies to the built-in sounds; a MIDI output plays in its own tuning
+        </p>
+      </div>
+
       {/* Fallback Piano */}
       <div>
         <label className="flex items-center space-x-2">
@@ -183,6 +547,24 @@ export default function Controls({
         </p>
       </div>
 
+      {/* Seed */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Seed (optional)
+        </label>
+        <input
+          type="text"
+          value={seed}
+          onChange={(e) => onSeedChange(e.target.value)}
+          disabled={isGameActive}
+          placeholder="Random"
+          className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary disabled:bg-gray-100 disabled:cursor-not-allowed"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Players with the same seed and settings get the same notes
+        </p>
+      </div>
+
       {/* Game Control Buttons */}
       <div className="pt-4 border-t space-y-2">
         {!isGameActive ? (
@@ -1,41 +1,45 @@
 // MIDI device selection and status display
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import {
   getInputDevices,
-  connectDevice,
-  disconnectDevice,
-  getConnectedDevice,
+  getOutputDevices,
+  applyDeviceChoices,
+  applyOutputChoice,
+  getConnectedDevices,
+  getDeviceKey,
   onDeviceStateChange,
+  subscribeMIDIEvents,
+  isPedalDown,
+  SUSTAIN_PEDAL,
   MIDIDeviceInfo,
-  MIDIMessageHandler,
+  MIDIDeviceChoice,
+  MIDIOutputChoice,
 } from '../midi/midi';
+import {
+  loadMIDIDeviceChoices,
+  saveMIDIDeviceChoices,
+  loadMIDIOutputChoice,
+  saveMIDIOutputChoice,
+} from '../utils/storage';
 
-interface DevicePickerProps {
-  onDeviceConnect: (handler: MIDIMessageHandler) => void;
-  messageHandler: MIDIMessageHandler | null;
-}
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 
-export default function DevicePicker({ onDeviceConnect, messageHandler }: DevicePickerProps) {
+export default function DevicePicker() {
   const [devices, setDevices] = useState<MIDIDeviceInfo[]>([]);
-  const [selectedDeviceId, setSelectedDeviceId] = useState<string>('');
-  const [connectedDevice, setConnectedDevice] = useState<MIDIDeviceInfo | null>(null);
+  const [outputs, setOutputs] = useState<MIDIDeviceInfo[]>([]);
+  const [outputChoice, setOutputChoice] = useState<MIDIOutputChoice | null>(loadMIDIOutputChoice);
+  const [choices, setChoices] = useState<Record<string, MIDIDeviceChoice>>(loadMIDIDeviceChoices);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [lastNote, setLastNote] = useState<string>('');
   const [noteTestActive, setNoteTestActive] = useState(false);
-  
-  // Use ref to always have latest messageHandler (fixes stale closure issue)
-  const messageHandlerRef = useRef<MIDIMessageHandler | null>(null);
-  
-  // Update ref whenever messageHandler changes
-  useEffect(() => {
-    messageHandlerRef.current = messageHandler;
-  }, [messageHandler]);
+  const [sustainDown, setSustainDown] = useState(false);
 
   const refreshDevices = () => {
     setIsRefreshing(true);
     const updatedDevices = getInputDevices();
     setDevices(updatedDevices);
+    setOutputs(getOutputDevices());
     console.log('MIDI devices refreshed:', updatedDevices);
     setTimeout(() => setIsRefreshing(false), 500);
   };
@@ -44,164 +48,242 @@ export default function DevicePicker({ onDeviceConnect, messageHandler }: Device
     // Load initial devices
     refreshDevices();
 
-    // Listen for device changes
-    onDeviceStateChange((updatedDevices) => {
+    // Listen for device changes (chosen devices have already reconnected)
+    return onDeviceStateChange((updatedDevices) => {
       setDevices(updatedDevices);
+      setOutputs(getOutputDevices());
       console.log('MIDI devices changed:', updatedDevices);
-      
-      // Check if connected device was disconnected
-      const connected = getConnectedDevice();
-      if (!connected || !updatedDevices.find(d => d.id === connected.id)) {
-        setConnectedDevice(null);
-        setSelectedDeviceId('');
-      }
     });
   }, []);
 
-  const handleConnect = () => {
-    if (!selectedDeviceId) return;
-
-    // Create a wrapper handler that shows test feedback
-    // Uses ref so it always calls the LATEST messageHandler (fixes stale closure)
-    const testHandler: MIDIMessageHandler = (midiNote, velocity) => {
-      // Show note feedback for testing
-      const noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-      const octave = Math.floor(midiNote / 12) - 1;
-      const noteName = noteNames[midiNote % 12];
-      setLastNote(`${noteName}${octave} (${midiNote})`);
+  // Show the last key and the sustain pedal state, with the device they came from
+  useEffect(() => {
+    return subscribeMIDIEvents((event) => {
+      if (event.type === 'controlChange' && event.controller === SUSTAIN_PEDAL) {
+        setSustainDown(isPedalDown(event, SUSTAIN_PEDAL));
+      }
+      if (event.type !== 'noteOn') return;
+
+      const octave = Math.floor(event.note / 12) - 1;
+      const noteName = NOTE_NAMES[event.note % 12];
+      const device = devices.find((candidate) => candidate.id === event.deviceId);
+      setLastNote(`${noteName}${octave} (${event.note}) on ${device?.name ?? 'Unknown Device'}`);
       setNoteTestActive(true);
-      
+
       // Clear the indicator after 500ms
       setTimeout(() => setNoteTestActive(false), 500);
-      
-      // Pass through to actual handler (use ref to get latest)
-      if (messageHandlerRef.current) {
-        messageHandlerRef.current(midiNote, velocity);
-      }
-    };
-
-    const success = connectDevice(selectedDeviceId, testHandler);
-    if (success) {
-      const device = getConnectedDevice();
-      setConnectedDevice(device);
-      onDeviceConnect(testHandler);
-    }
+    });
+  }, [devices]);
+
+  const updateChoice = (device: MIDIDeviceInfo, change: Partial<MIDIDeviceChoice>) => {
+    const key = getDeviceKey(device);
+    const current: MIDIDeviceChoice = choices[key] ?? { enabled: false, channel: null };
+    const updated = { ...choices, [key]: { ...current, ...change } };
+    setChoices(updated);
+    saveMIDIDeviceChoices(updated);
+    applyDeviceChoices(updated);
   };
 
-  const handleDisconnect = () => {
-    disconnectDevice();
-    setConnectedDevice(null);
-    setSelectedDeviceId('');
+  const connectedIds = getConnectedDevices().map((device) => device.id);
+
+  const updateOutputChoice = (choice: MIDIOutputChoice | null) => {
+    setOutputChoice(choice);
+    saveMIDIOutputChoice(choice);
+    applyOutputChoice(choice);
   };
 
   return (
     <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm">
       <h3 className="text-lg font-semibold mb-3 flex items-center">
         <span className="mr-2">🎹</span>
-        MIDI Device
+        MIDI Devices
       </h3>
 
-      {connectedDevice ? (
-        <div className="space-y-2">
-          <div className="flex items-center justify-between bg-green-50 border border-green-300 rounded p-3">
-            <div>
-              <div className="font-medium text-green-900">{connectedDevice.name}</div>
-              <div className="text-sm text-green-700">{connectedDevice.manufacturer}</div>
-            </div>
-            <div className="flex items-center">
-              <span className={`w-2 h-2 rounded-full mr-2 ${noteTestActive ? 'bg-blue-500 animate-ping' : 'bg-green-500 animate-pulse'}`}></span>
-              <span className="text-sm text-green-700 font-medium">Connected</span>
-            </div>
-          </div>
-          
-          {/* MIDI Test Indicator */}
-          <div className={`p-3 rounded border transition-all ${
-            noteTestActive 
-              ? 'bg-blue-50 border-blue-300' 
-              : 'bg-gray-50 border-gray-200'
-          }`}>
-            <div className="text-xs text-gray-600 mb-1">🎹 Test your keys:</div>
-            <div className={`font-mono text-sm font-bold transition-colors ${
-              noteTestActive ? 'text-blue-600' : 'text-gray-400'
-            }`}>
-              {lastNote || 'Play any key...'}
+      <div className="space-y-3">
+        {devices.length === 0 ? (
+          <div className="space-y-3">
+            <div className="text-gray-700 text-sm p-3 bg-yellow-50 border border-yellow-300 rounded">
+              <div className="font-semibold mb-2">⚠️ No MIDI devices found</div>
+              <div className="space-y-2 text-xs">
+                <p>
+                  <strong>Troubleshooting steps:</strong>
+                </p>
+                <ol className="list-decimal list-inside space-y-1 ml-2">
+                  <li>Connect your MIDI keyboard via USB</li>
+                  <li>Turn on your keyboard/piano</li>
+                  <li>Make sure drivers are installed (check Device Manager on Windows)</li>
+                  <li>Close other music software that might be using MIDI</li>
+                  <li>Try a different USB port or cable</li>
+                  <li>Restart your browser after connecting</li>
+                </ol>
+                <p className="mt-2">
+                  <strong>Browser requirements:</strong>
+                </p>
+                <ul className="list-disc list-inside ml-2">
+                  <li>Chrome, Edge, or Opera (recommended)</li>
+                  <li>HTTPS connection (or localhost)</li>
+                </ul>
+              </div>
             </div>
+            <button
+              onClick={refreshDevices}
+              disabled={isRefreshing}
+              className="w-full py-2 px-4 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:bg-gray-300 flex items-center justify-center gap-2"
+            >
+              {isRefreshing ? '🔄 Refreshing...' : '🔄 Refresh Devices'}
+            </button>
           </div>
-          
-          <button
-            onClick={handleDisconnect}
-            className="w-full py-2 px-4 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
-          >
-            Disconnect
-          </button>
-        </div>
-      ) : (
-        <div className="space-y-3">
-          {devices.length === 0 ? (
-            <div className="space-y-3">
-              <div className="text-gray-700 text-sm p-3 bg-yellow-50 border border-yellow-300 rounded">
-                <div className="font-semibold mb-2">⚠️ No MIDI devices found</div>
-                <div className="space-y-2 text-xs">
-                  <p><strong>Troubleshooting steps:</strong></p>
-                  <ol className="list-decimal list-inside space-y-1 ml-2">
-                    <li>Connect your MIDI keyboard via USB</li>
-                    <li>Turn on your keyboard/piano</li>
-                    <li>Make sure drivers are installed (check Device Manager on Windows)</li>
-                    <li>Close other music software that might be using MIDI</li>
-                    <li>Try a different USB port or cable</li>
-                    <li>Restart your browser after connecting</li>
-                  </ol>
-                  <p className="mt-2"><strong>Browser requirements:</strong></p>
-                  <ul className="list-disc list-inside ml-2">
-                    <li>Chrome, Edge, or Opera (recommended)</li>
-                    <li>HTTPS connection (or localhost)</li>
-                  </ul>
+        ) : (
+          <>
+            {devices.map((device) => {
+              const choice = choices[getDeviceKey(device)];
+              const isConnected = connectedIds.includes(device.id);
+
+              return (
+                <div
+                  key={device.id}
+                  className={`border rounded p-3 space-y-2 ${
+                    isConnected ? 'bg-green-50 border-green-300' : 'bg-gray-50 border-gray-200'
+                  }`}
+                >
+                  <label className="flex items-center justify-between gap-2 cursor-pointer">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <input
+                        type="checkbox"
+                        checked={choice?.enabled ?? false}
+                        onChange={(e) => updateChoice(device, { enabled: e.target.checked })}
+                        className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+                      />
+                      <span className="min-w-0">
+                        <span className="block font-medium text-gray-900 truncate">
+                          {device.name}
+                        </span>
+                        <span className="block text-sm text-gray-600">{device.manufacturer}</span>
+                      </span>
+                    </span>
+                    {isConnected && (
+                      <span className="flex items-center">
+                        <span
+                          className={`w-2 h-2 rounded-full mr-2 ${noteTestActive ? 'bg-blue-500 animate-ping' : 'bg-green-500 animate-pulse'}`}
+                        ></span>
+                        <span className="text-sm text-green-700 font-medium">Connected</span>
+                      </span>
+                    )}
+                  </label>
+                  <select
+                    value={choice?.channel ?? ''}
+                    onChange={(e) =>
+                      updateChoice(device, {
+                        channel: e.target.value === '' ? null : parseInt(e.target.value),
+                      })
+                    }
+                    disabled={!choice?.enabled}
+                    className="w-full p-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary disabled:bg-gray-100 disabled:cursor-not-allowed"
+                  >
+                    <option value="">All channels</option>
+                    {Array.from({ length: 16 }, (_, channel) => (
+                      <option key={channel} value={channel}>
+                        Channel {channel + 1}
+                      </option>
+                    ))}
+                  </select>
                 </div>
-              </div>
-              <button
-                onClick={refreshDevices}
-                disabled={isRefreshing}
-                className="w-full py-2 px-4 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:bg-gray-300 flex items-center justify-center gap-2"
+              );
+            })}
+
+            {/* MIDI Test Indicator */}
+            {connectedIds.length > 0 && (
+              <div
+                className={`p-3 rounded border transition-all ${
+                  noteTestActive ? 'bg-blue-50 border-blue-300' : 'bg-gray-50 border-gray-200'
+                }`}
               >
-                {isRefreshing ? '🔄 Refreshing...' : '🔄 Refresh Devices'}
-              </button>
-            </div>
-          ) : (
-            <>
+                <div className="text-xs text-gray-600 mb-1">🎹 Test your keys:</div>
+                <div
+                  className={`font-mono text-sm font-bold transition-colors ${
+                    noteTestActive ? 'text-blue-600' : 'text-gray-400'
+                  }`}
+                >
+                  {lastNote || 'Play any key...'}
+                </div>
+                <div
+                  className={`text-xs mt-1 ${sustainDown ? 'text-blue-600 font-semibold' : 'text-gray-400'}`}
+                >
+                  Sustain pedal: {sustainDown ? 'down' : 'up'}
+                </div>
+              </div>
+            )}
+
+            <button
+              onClick={refreshDevices}
+              className="w-full py-1 px-3 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+            >
+              🔄 Refresh List
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* MIDI Output for prompts and hints */}
+      {outputs.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-gray-200 space-y-2">
+          <label className="block text-sm font-medium text-gray-700">🔊 Play Prompts On</label>
+          <select
+            value={outputChoice?.deviceKey ?? ''}
+            onChange={(e) =>
+              updateOutputChoice(
+                e.target.value === ''
+                  ? null
+                  : { channel: 0, velocity: 80, ...outputChoice, deviceKey: e.target.value }
+              )
+            }
+            className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary"
+          >
+            <option value="">Speakers (built-in sound)</option>
+            {outputs.map((output) => (
+              <option key={output.id} value={getDeviceKey(output)}>
+                {output.name} ({output.manufacturer})
+              </option>
+            ))}
+          </select>
+          {outputChoice && (
+            <div className="grid grid-cols-2 gap-2">
               <select
-                value={selectedDeviceId}
-                onChange={(e) => setSelectedDeviceId(e.target.value)}
-                className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary"
+                value={outputChoice.channel}
+                onChange={(e) =>
+                  updateOutputChoice({ ...outputChoice, channel: parseInt(e.target.value) })
+                }
+                className="w-full p-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary"
               >
-                <option value="">Select a device...</option>
-                {devices.map((device) => (
-                  <option key={device.id} value={device.id}>
-                    {device.name} ({device.manufacturer})
+                {Array.from({ length: 16 }, (_, channel) => (
+                  <option key={channel} value={channel}>
+                    Channel {channel + 1}
                   </option>
                 ))}
               </select>
-              <button
-                onClick={handleConnect}
-                disabled={!selectedDeviceId}
-                className="w-full py-2 px-4 bg-primary text-white rounded hover:bg-blue-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
-              >
-                Connect
-              </button>
-              <button
-                onClick={refreshDevices}
-                className="w-full py-1 px-3 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
-              >
-                🔄 Refresh List
-              </button>
-            </>
+              <div>
+                <label className="block text-xs text-gray-600">
+                  Velocity: {outputChoice.velocity}
+                </label>
+                <input
+                  type="range"
+                  min="1"
+                  max="127"
+                  value={outputChoice.velocity}
+                  onChange={(e) =>
+                    updateOutputChoice({ ...outputChoice, velocity: parseInt(e.target.value) })
+                  }
+                  className="w-full"
+                />
+              </div>
+            </div>
           )}
         </div>
       )}
 
       <div className="mt-3 text-xs text-gray-500">
-        💡 Tip: Press any key on your MIDI keyboard to test the connection
+        💡 Tip: Tick every device you want to play, then press any key to test it
       </div>
     </div>
   );
 }
-
@@ -0,0 +1,139 @@
+// Flashcard review screen: one note at a time from the day's spaced-repetition queue
+
+import Staff from './Staff';
+import { ClefChoice, Difficulty, GameSettings } from '../game/types';
+import { FlashcardDeck, FlashcardSession, getCardNote, getDeckCardIds } from '../game/flashcards';
+
+interface FlashcardReviewProps {
+  deck: FlashcardDeck;
+  session: FlashcardSession;
+  settings: GameSettings;
+  onSettingsChange: (settings: GameSettings) => void; // picks the cards to review
+  onBack: () => void;
+}
+
+/**
+ * Describe when a card comes back after an answer
+ */
+function describeNextReview(intervalDays: number, isRepeatedToday: boolean): string {
+  if (isRepeatedToday) return 'it comes back later today';
+  return intervalDays === 1 ? 'back tomorrow' : `back in ${intervalDays} days`;
+}
+
+export default function FlashcardReview({
+  deck,
+  session,
+  settings,
+  onSettingsChange,
+  onBack,
+}: FlashcardReviewProps) {
+  const currentCard = session.queue.length > 0 ? deck[session.queue[0]] : undefined;
+  const { lastReview } = session;
+  const lastCard = lastReview ? deck[lastReview.cardId] : undefined;
+
+  // When the cards of the chosen material are next due, once today's are done
+  const nextDueAt = getDeckCardIds(settings)
+    .map((id) => deck[id]?.dueAt)
+    .filter((dueAt): dueAt is number => dueAt !== null && dueAt !== undefined)
+    .reduce((earliest, dueAt) => Math.min(earliest, dueAt), Infinity);
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <header className="text-center">
+        <h1 className="text-4xl font-bold text-gray-900 mb-2">🃏 Flashcard Review</h1>
+        <p className="text-gray-600">
+          Play each note you see; the faster you recall it, the later it comes back
+        </p>
+      </header>
+
+      {/* Material */}
+      <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm grid grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Difficulty
+          <select
+            value={settings.difficulty}
+            onChange={(e) =>
+              onSettingsChange({ ...settings, difficulty: e.target.value as Difficulty })
+            }
+            className="mt-1 w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary"
+          >
+            <option value="beginner">Beginner</option>
+            <option value="intermediate">Intermediate</option>
+            <option value="advanced">Advanced</option>
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Clef
+          <select
+            value={settings.clef}
+            onChange={(e) => onSettingsChange({ ...settings, clef: e.target.value as ClefChoice })}
+            className="mt-1 w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary"
+          >
+            {(['treble', 'bass', 'alto', 'tenor', 'both', 'mixed'] as ClefChoice[]).map((clef) => (
+              <option key={clef} value={clef}>
+                {clef.charAt(0).toUpperCase() + clef.slice(1)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Progress */}
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div className="bg-blue-50 rounded-lg p-3">
+          <div className="text-2xl font-bold text-blue-600">{session.queue.length}</div>
+          <div className="text-sm text-gray-600">Left Today</div>
+        </div>
+        <div className="bg-purple-50 rounded-lg p-3">
+          <div className="text-2xl font-bold text-purple-600">{session.reviewed}</div>
+          <div className="text-sm text-gray-600">Answered</div>
+        </div>
+        <div className="bg-green-50 rounded-lg p-3">
+          <div className="text-2xl font-bold text-green-600">{session.correct}</div>
+          <div className="text-sm text-gray-600">Correct</div>
+        </div>
+      </div>
+
+      {currentCard ? (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <Staff
+            sequence={[getCardNote(currentCard)]}
+            currentIndex={0}
+            flashError={session.flashError}
+          />
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <div className="text-5xl mb-3">🎉</div>
+          <p className="text-xl font-bold text-gray-900 mb-1">All done for today!</p>
+          <p className="text-gray-600">
+            {nextDueAt === Infinity
+              ? 'No cards are scheduled yet'
+              : `Next review: ${new Date(nextDueAt).toLocaleDateString()}`}
+          </p>
+        </div>
+      )}
+
+      {/* Result of the last answer */}
+      {lastReview && lastCard && (
+        <div
+          className={`rounded-lg p-3 text-center text-sm font-medium ${
+            lastReview.isCorrect ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {lastReview.isCorrect ? '✅' : '❌'} {lastCard.pitch} ({lastCard.clef} clef):{' '}
+          {describeNextReview(lastReview.intervalDays, session.queue.includes(lastReview.cardId))}
+        </div>
+      )}
+
+      <div className="text-center">
+        <button
+          onClick={onBack}
+          className="py-2 px-6 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          ← Back to Menu
+        </button>
+      </div>
+    </div>
+  );
+}
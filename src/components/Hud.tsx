@@ -2,18 +2,23 @@
 
 import { GameSnapshot } from '../game/types';
 import { calculateAccuracy, calculateNotesPerMinute } from '../game/scoring';
-import { getConnectedDevice } from '../midi/midi';
+import { getConnectedDevices, MIDIDeviceInfo } from '../midi/midi';
 import { HighScoreEntry } from '../utils/storage';
 
 interface HudProps {
   snapshot: GameSnapshot;
   highScore: HighScoreEntry | null;
+  lostDevices?: MIDIDeviceInfo[]; // chosen devices that were unplugged mid-session
 }
 
-export default function Hud({ snapshot, highScore }: HudProps) {
+export default function Hud({ snapshot, highScore, lostDevices = [] }: HudProps) {
   const accuracy = calculateAccuracy(snapshot.correct, snapshot.attempts);
   const notesPerMinute = calculateNotesPerMinute(snapshot.avgMsPerNote);
-  const connectedDevice = getConnectedDevice();
+  const connectedDevices = getConnectedDevices();
+  const deviceLabel =
+    connectedDevices.length > 1
+      ? `${connectedDevices.length} devices`
+      : connectedDevices[0]?.name;
 
   const renderHearts = () => {
     const hearts = [];
@@ -84,11 +89,14 @@ export default function Hud({ snapshot, highScore }: HudProps) {
         <div className="text-center">
           <div className="text-[10px] opacity-75">Device</div>
           <div className="text-xs font-semibold flex items-center justify-center gap-1">
-            {connectedDevice ? (
+            {deviceLabel ? (
               <>
                 <span className="w-1.5 h-1.5 bg-green-400 rounded-full animate-pulse"></span>
-                <span className="truncate max-w-[100px]" title={connectedDevice.name}>
-                  {connectedDevice.name}
+                <span
+                  className="truncate max-w-[100px]"
+                  title={connectedDevices.map((device) => device.name).join(', ')}
+                >
+                  {deviceLabel}
                 </span>
               </>
             ) : (
@@ -107,6 +115,14 @@ export default function Hud({ snapshot, highScore }: HudProps) {
           </div>
         )}
       </div>
+
+      {/* Reconnect banner while a chosen device is unplugged */}
+      {lostDevices.length > 0 && (
+        <div className="mt-1.5 px-2 py-1 bg-red-500 bg-opacity-90 rounded text-xs font-semibold text-center">
+          🔌 {lostDevices.map((device) => device.name).join(', ')} disconnected. Plug it back in
+          and it will reconnect by itself, then press Resume.
+        </div>
+      )}
     </div>
   );
 }
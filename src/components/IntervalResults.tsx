@@ -0,0 +1,49 @@
+// Per-interval accuracy breakdown shown at the end of an interval game
+
+import { IntervalName, IntervalResult } from '../game/types';
+import { INTERVAL_SEMITONES } from '../game/intervals';
+import { calculateAccuracy } from '../game/scoring';
+
+interface IntervalResultsProps {
+  results: Partial<Record<IntervalName, IntervalResult>>;
+}
+
+export default function IntervalResults({ results }: IntervalResultsProps) {
+  // Smallest interval first
+  const names = (Object.keys(INTERVAL_SEMITONES) as IntervalName[]).filter(
+    (name) => results[name] !== undefined
+  );
+
+  if (names.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-pink-50 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">Accuracy per Interval</h3>
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        {names.map((name) => {
+          const { attempts, correct } = results[name]!;
+          const accuracy = calculateAccuracy(correct, attempts);
+
+          return (
+            <div key={name} className="bg-white rounded px-2 py-1 flex justify-between">
+              <span className="font-bold text-gray-900">{name}</span>
+              <span
+                className={
+                  accuracy >= 80
+                    ? 'text-green-600'
+                    : accuracy >= 50
+                      ? 'text-yellow-600'
+                      : 'text-red-600'
+                }
+              >
+                {correct}/{attempts}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
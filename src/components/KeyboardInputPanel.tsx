@@ -0,0 +1,126 @@
+// Computer keyboard input settings: enable, octave and key layout
+
+import { useEffect, useState } from 'react';
+import {
+  applyKeyboardInput,
+  getKeyboardInput,
+  getKeyLabel,
+  onKeyboardInputChange,
+  DEFAULT_KEY_MAP,
+  OCTAVE_DOWN_KEY,
+  OCTAVE_UP_KEY,
+  KeyboardInputSettings,
+} from '../midi/keyboard';
+import { midiToPitch } from '../game/mapping';
+import { saveKeyboardInput } from '../utils/storage';
+
+// Notes of the layout, in semitones above its first key
+const LAYOUT_OFFSETS = Array.from({ length: 17 }, (_, offset) => offset);
+
+function updateKeyboardInput(settings: KeyboardInputSettings): void {
+  saveKeyboardInput(settings);
+  applyKeyboardInput(settings);
+}
+
+export default function KeyboardInputPanel() {
+  const [keyboardInput, setKeyboardInput] = useState<KeyboardInputSettings>(getKeyboardInput);
+  const [remappingOffset, setRemappingOffset] = useState<number | null>(null);
+
+  // Follow octave shifts made with the keyboard itself
+  useEffect(() => onKeyboardInputChange(setKeyboardInput), []);
+
+  // Take the next key press as the key for the note being remapped
+  useEffect(() => {
+    if (remappingOffset === null) return;
+
+    const captureKey = (event: KeyboardEvent) => {
+      // Capture phase on window runs before the note input, which must not play it
+      event.preventDefault();
+      event.stopPropagation();
+
+      // The octave keys keep their job
+      if (event.code === OCTAVE_DOWN_KEY || event.code === OCTAVE_UP_KEY) return;
+
+      if (event.code !== 'Escape') {
+        const keyMap = Object.fromEntries(
+          Object.entries(getKeyboardInput().keyMap).filter(
+            ([code, offset]) => code !== event.code && offset !== remappingOffset
+          )
+        );
+        updateKeyboardInput({
+          ...getKeyboardInput(),
+          keyMap: { ...keyMap, [event.code]: remappingOffset },
+        });
+      }
+      setRemappingOffset(null);
+    };
+
+    window.addEventListener('keydown', captureKey, { capture: true });
+    return () => window.removeEventListener('keydown', captureKey, { capture: true });
+  }, [remappingOffset]);
+
+  const getKeyForOffset = (offset: number): string | undefined =>
+    Object.entries(keyboardInput.keyMap).find(([, keyOffset]) => keyOffset === offset)?.[0];
+
+  return (
+    <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm">
+      <h3 className="text-lg font-semibold mb-3 flex items-center">
+        <span className="mr-2">⌨️</span>
+        Computer Keyboard
+      </h3>
+
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={keyboardInput.enabled}
+          onChange={(e) => updateKeyboardInput({ ...keyboardInput, enabled: e.target.checked })}
+          className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+        />
+        <span className="text-sm font-medium text-gray-700">Play notes with the keyboard</span>
+      </label>
+
+      {keyboardInput.enabled && (
+        <div className="mt-3 space-y-2">
+          <p className="text-xs text-gray-600">
+            Starts on {midiToPitch(keyboardInput.baseMidi)}. Press{' '}
+            <kbd className="px-1 border rounded">{getKeyLabel(OCTAVE_DOWN_KEY)}</kbd> /{' '}
+            <kbd className="px-1 border rounded">{getKeyLabel(OCTAVE_UP_KEY)}</kbd> to shift an
+            octave.
+          </p>
+          <div className="grid grid-cols-6 gap-1">
+            {LAYOUT_OFFSETS.map((offset) => {
+              const code = getKeyForOffset(offset);
+              return (
+                <button
+                  key={offset}
+                  onClick={() => setRemappingOffset(offset)}
+                  className={`p-1 text-xs rounded border transition-colors ${
+                    remappingOffset === offset
+                      ? 'bg-blue-500 text-white border-blue-600 animate-pulse'
+                      : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+                  }`}
+                  title="Click, then press the key to use for this note"
+                  type="button"
+                >
+                  <div className="font-medium">
+                    {midiToPitch(keyboardInput.baseMidi + offset).replace(/\d/, '')}
+                  </div>
+                  <div className="font-mono text-gray-500">
+                    {remappingOffset === offset ? '…' : code ? getKeyLabel(code) : '-'}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+          <button
+            onClick={() => updateKeyboardInput({ ...keyboardInput, keyMap: DEFAULT_KEY_MAP })}
+            className="w-full py-1 px-3 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+            type="button"
+          >
+            Reset Layout
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+// Latency calibration: tap along to clicks, then to flashes, to measure input delay
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  calculateLatencyOffset,
+  getCalibrationBeats,
+  LatencyCalibration,
+  CALIBRATION_INTERVAL_MS,
+  CALIBRATION_LEAD_IN,
+  CALIBRATION_TAPS,
+} from '../game/latency';
+import { getInputDeviceKey, subscribeMIDIEvents } from '../midi/midi';
+import { startMetronome } from '../utils/metronome';
+import { getCurrentTime } from '../utils/time';
+
+type CalibrationStep = 'audio' | 'visual' | 'done';
+
+// How long each flash stays lit
+const FLASH_MS = 120;
+
+interface LatencyWizardProps {
+  calibrations: Record<string, LatencyCalibration>;
+  onSave: (calibrations: Record<string, LatencyCalibration>) => void;
+  onClose: () => void;
+}
+
+export default function LatencyWizard({ calibrations, onSave, onClose }: LatencyWizardProps) {
+  const [step, setStep] = useState<CalibrationStep>('audio');
+  const [isRunning, setIsRunning] = useState(false);
+  const [isFlashing, setIsFlashing] = useState(false);
+  const [tapCount, setTapCount] = useState(0);
+  const [audioMs, setAudioMs] = useState<number | null>(null);
+  const [visualMs, setVisualMs] = useState<number | null>(null);
+  const [deviceKey, setDeviceKey] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const stopRoundRef = useRef<(() => void) | null>(null);
+
+  // Stop a running round when the wizard closes
+  useEffect(() => () => stopRoundRef.current?.(), []);
+
+  const runRound = (kind: 'audio' | 'visual') => {
+    const startAt = getCurrentTime() + 500;
+    const beats = getCalibrationBeats(startAt);
+    const allBeats = [...Array(CALIBRATION_LEAD_IN).keys()]
+      .map((index) => startAt + index * CALIBRATION_INTERVAL_MS)
+      .concat(beats);
+    const endAt = beats[beats.length - 1] + CALIBRATION_INTERVAL_MS / 2;
+    const taps: number[] = [];
+    let tapDevice: string | null = null;
+
+    setIsRunning(true);
+    setTapCount(0);
+    setError('');
+
+    // Taps come from whichever input the player uses; its timestamps are the press times,
+    // the same ones gameplay judges presses by, so the offset also cancels any delay before
+    // the handler runs
+    const unsubscribe = subscribeMIDIEvents((event) => {
+      if (event.type !== 'noteOn') return;
+      taps.push(event.timestamp);
+      tapDevice = getInputDeviceKey(event.deviceId);
+      setTapCount(taps.length);
+    });
+
+    const stopMetronome =
+      kind === 'audio'
+        ? startMetronome(60000 / CALIBRATION_INTERVAL_MS, startAt, allBeats.length)
+        : () => {};
+
+    let frame = 0;
+    const tick = () => {
+      const now = getCurrentTime();
+      if (now >= endAt) {
+        finish();
+        return;
+      }
+      if (kind === 'visual') {
+        setIsFlashing(allBeats.some((beat) => now >= beat && now < beat + FLASH_MS));
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      stopMetronome();
+      unsubscribe();
+      setIsFlashing(false);
+      setIsRunning(false);
+      stopRoundRef.current = null;
+    };
+
+    const finish = () => {
+      stop();
+      const offset = calculateLatencyOffset(taps, beats);
+      if (offset === null || tapDevice === null) {
+        setError(`Tap along to at least ${CALIBRATION_TAPS / 2} beats, then try again.`);
+        return;
+      }
+
+      if (kind === 'visual' && tapDevice !== deviceKey) {
+        setError('Use the same keyboard for both steps, then try again.');
+        return;
+      }
+
+      setDeviceKey(tapDevice);
+      if (kind === 'audio') {
+        setAudioMs(offset);
+        setStep('visual');
+      } else {
+        setVisualMs(offset);
+        setStep('done');
+      }
+    };
+
+    stopRoundRef.current = stop;
+  };
+
+  const handleSave = () => {
+    if (deviceKey === null || audioMs === null || visualMs === null) return;
+    onSave({ ...calibrations, [deviceKey]: { audioMs, visualMs } });
+    onClose();
+  };
+
+  return (
+    <div className="space-y-4 text-center">
+      {step === 'audio' && (
+        <>
+          <p className="text-gray-700">
+            <strong>Step 1 of 2:</strong> After {CALIBRATION_LEAD_IN} count-in clicks, play any key
+            exactly on each of the next {CALIBRATION_TAPS} clicks.
+          </p>
+          <div className="text-6xl">{isRunning ? '🔊' : '🎧'}</div>
+        </>
+      )}
+
+      {step === 'visual' && (
+        <>
+          <p className="text-gray-700">
+            <strong>Step 2 of 2:</strong> Now play any key exactly when the square lights up, after{' '}
+            {CALIBRATION_LEAD_IN} count-in flashes.
+          </p>
+          <div
+            className={`mx-auto w-32 h-32 rounded-xl border-4 ${
+              isFlashing ? 'bg-blue-500 border-blue-600' : 'bg-gray-100 border-gray-300'
+            }`}
+          />
+        </>
+      )}
+
+      {step !== 'done' && (
+        <>
+          {isRunning && <p className="text-sm text-gray-600">Taps: {tapCount}</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            onClick={() => runRound(step)}
+            disabled={isRunning}
+            className="py-2 px-6 bg-primary text-white font-semibold rounded-lg hover:bg-blue-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+            type="button"
+          >
+            {isRunning ? 'Tap along…' : 'Start'}
+          </button>
+        </>
+      )}
+
+      {step === 'done' && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="bg-purple-50 rounded-lg p-3">
+              <div className="text-2xl font-bold text-purple-600">{audioMs}ms</div>
+              <div className="text-xs text-gray-600">Sound to key press</div>
+            </div>
+            <div className="bg-blue-50 rounded-lg p-3">
+              <div className="text-2xl font-bold text-blue-600">{visualMs}ms</div>
+              <div className="text-xs text-gray-600">Screen to key press</div>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            Response times and timing from this device will be corrected by these amounts.
+          </p>
+          <button
+            onClick={handleSave}
+            className="py-2 px-6 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 transition-colors"
+            type="button"
+          >
+            Save Calibration
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
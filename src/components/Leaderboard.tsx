@@ -2,6 +2,20 @@
 
 import { useState, useEffect } from 'react';
 import { LeaderboardEntry, fetchLeaderboard } from '../utils/gist';
+import { GameMode, GAME_MODE_INFO } from '../game/types';
+
+const TAB_COLORS: Record<GameMode, string> = {
+  reading: 'from-blue-500 to-blue-600',
+  hearing: 'from-purple-500 to-purple-600',
+  chords: 'from-green-500 to-green-600',
+  intervals: 'from-pink-500 to-pink-600',
+  dictation: 'from-orange-500 to-orange-600',
+  timed: 'from-teal-500 to-teal-600',
+  rhythm: 'from-red-500 to-red-600',
+};
+
+const isGameMode = (mode: string | undefined): mode is GameMode =>
+  mode !== undefined && mode in GAME_MODE_INFO;
 
 interface LeaderboardProps {
   onClose?: () => void;
@@ -12,8 +26,8 @@ export default function Leaderboard({ onClose, highlightEntry }: LeaderboardProp
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'reading' | 'hearing'>(
-    (highlightEntry?.mode === 'hearing' ? 'hearing' : 'reading')
+  const [activeTab, setActiveTab] = useState<GameMode>(
+    isGameMode(highlightEntry?.mode) ? highlightEntry?.mode : 'reading'
   );
 
   useEffect(() => {
@@ -22,8 +36,8 @@ export default function Leaderboard({ onClose, highlightEntry }: LeaderboardProp
 
   // Switch to the tab of the highlighted entry when it changes
   useEffect(() => {
-    if (highlightEntry?.mode === 'reading' || highlightEntry?.mode === 'hearing') {
-      setActiveTab(highlightEntry.mode);
+    if (isGameMode(highlightEntry?.mode)) {
+      setActiveTab(highlightEntry?.mode);
     }
   }, [highlightEntry]);
 
@@ -93,28 +107,20 @@ export default function Leaderboard({ onClose, highlightEntry }: LeaderboardProp
 
       {/* Tab Selector */}
       <div className="flex gap-2 mb-6">
-        <button
-          onClick={() => setActiveTab('reading')}
-          className={`flex-1 py-3 px-6 rounded-lg font-bold transition-all ${
-            activeTab === 'reading'
-              ? 'bg-gradient-to-r from-blue-500 to-blue-600 text-white shadow-lg scale-105'
-              : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-          }`}
-        >
-          <span className="text-2xl mr-2">👀</span>
-          Reading Challenge
-        </button>
-        <button
-          onClick={() => setActiveTab('hearing')}
-          className={`flex-1 py-3 px-6 rounded-lg font-bold transition-all ${
-            activeTab === 'hearing'
-              ? 'bg-gradient-to-r from-purple-500 to-purple-600 text-white shadow-lg scale-105'
-              : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-          }`}
-        >
-          <span className="text-2xl mr-2">👂</span>
-          Hearing Challenge
-        </button>
+        {(Object.keys(GAME_MODE_INFO) as GameMode[]).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => setActiveTab(mode)}
+            className={`flex-1 py-3 px-6 rounded-lg font-bold transition-all ${
+              activeTab === mode
+                ? `bg-gradient-to-r ${TAB_COLORS[mode]} text-white shadow-lg scale-105`
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            <span className="text-2xl mr-2">{GAME_MODE_INFO[mode].emoji}</span>
+            {GAME_MODE_INFO[mode].label}
+          </button>
+        ))}
       </div>
 
       {loading && (
@@ -139,7 +145,7 @@ export default function Leaderboard({ onClose, highlightEntry }: LeaderboardProp
       {!loading && !error && top10.length === 0 && (
         <div className="text-center py-12">
           <div className="text-6xl mb-4">
-            {activeTab === 'reading' ? '👀' : '👂'}
+            {GAME_MODE_INFO[activeTab].emoji}
           </div>
           <p className="text-xl text-gray-600">No scores yet for {activeTab} mode!</p>
           <p className="text-gray-500 mt-2">Be the first to make the leaderboard!</p>
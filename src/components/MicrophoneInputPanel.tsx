@@ -0,0 +1,107 @@
+// Microphone input settings: enable, pitch confidence and what was last heard
+
+import { useEffect, useState } from 'react';
+import {
+  applyMicrophoneInput,
+  getMicrophoneInput,
+  isMicrophoneListening,
+  MICROPHONE_DEVICE_ID,
+  MicrophoneInputSettings,
+} from '../midi/microphone';
+import { subscribeMIDIEvents } from '../midi/midi';
+import { midiToPitch } from '../game/mapping';
+import { saveMicrophoneInput } from '../utils/storage';
+
+export default function MicrophoneInputPanel() {
+  const [microphoneInput, setMicrophoneInput] =
+    useState<MicrophoneInputSettings>(getMicrophoneInput);
+  const [isListening, setIsListening] = useState(isMicrophoneListening);
+  const [heardNote, setHeardNote] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  // Show what the microphone hears, to check the room and the confidence
+  useEffect(() => {
+    return subscribeMIDIEvents((event) => {
+      if (event.deviceId !== MICROPHONE_DEVICE_ID) return;
+      if (event.type === 'noteOn') setHeardNote(event.note);
+      else if (event.type === 'noteOff') setHeardNote(null);
+    });
+  }, []);
+
+  const updateMicrophoneInput = (settings: MicrophoneInputSettings) => {
+    setMicrophoneInput(settings);
+    setError('');
+    applyMicrophoneInput(settings)
+      .catch((err: Error) => setError(`Could not open the microphone: ${err.message}`))
+      .finally(() => {
+        setMicrophoneInput(getMicrophoneInput());
+        saveMicrophoneInput(getMicrophoneInput());
+        setIsListening(isMicrophoneListening());
+      });
+  };
+
+  return (
+    <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm">
+      <h3 className="text-lg font-semibold mb-3 flex items-center">
+        <span className="mr-2">🎤</span>
+        Microphone
+      </h3>
+
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={microphoneInput.enabled}
+          onChange={(e) => updateMicrophoneInput({ ...microphoneInput, enabled: e.target.checked })}
+          className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+        />
+        <span className="text-sm font-medium text-gray-700">Listen to an acoustic piano</span>
+      </label>
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+      {microphoneInput.enabled && (
+        <div className="mt-3 space-y-2">
+          <div className="p-2 bg-gray-50 rounded text-sm">
+            {isListening ? (
+              <>
+                Hearing:{' '}
+                <span className="font-mono font-bold">
+                  {heardNote !== null ? midiToPitch(heardNote) : '-'}
+                </span>
+              </>
+            ) : (
+              'Opening the microphone…'
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Pitch Confidence: {Math.round(microphoneInput.minConfidence * 100)}%
+            </label>
+            <input
+              type="range"
+              min="0.6"
+              max="0.95"
+              step="0.05"
+              value={microphoneInput.minConfidence}
+              onChange={(e) =>
+                updateMicrophoneInput({
+                  ...microphoneInput,
+                  minConfidence: parseFloat(e.target.value),
+                })
+              }
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>60% (noisy room)</span>
+              <span>95% (strict)</span>
+            </div>
+          </div>
+          <p className="text-xs text-gray-600">
+            Play one note at a time. Use headphones so the app&apos;s own prompts are not heard as
+            answers, and calibrate latency for the microphone.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
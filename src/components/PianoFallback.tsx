@@ -1,10 +1,13 @@
 // On-screen clickable piano for fallback when no MIDI is available
 
+import { useEffect, useRef, useState } from 'react';
 import { midiToPitch } from '../game/mapping';
+import { subscribeMIDIEvents } from '../midi/midi';
 import { initAudio, playNote } from '../utils/audio';
 
 interface PianoFallbackProps {
   onNoteClick: (midiNote: number) => void;
+  onNoteRelease?: (midiNote: number) => void;
   startOctave?: number;
   octaveCount?: number;
 }
@@ -14,10 +17,31 @@ const BLACK_KEYS = [1, 3, 6, 8, 10]; // C#, D#, F#, G#, A#
 
 export default function PianoFallback({
   onNoteClick,
+  onNoteRelease,
   startOctave = 2,
   octaveCount = 4,
 }: PianoFallbackProps) {
-  const handleKeyClick = (midi: number, event: React.MouseEvent) => {
+  const pressedKeyRef = useRef<number | null>(null);
+  const [litNotes, setLitNotes] = useState<Set<number>>(new Set());
+
+  // Light up the keys held on the computer keyboard or a MIDI device
+  useEffect(() => {
+    return subscribeMIDIEvents((event) => {
+      if (event.type !== 'noteOn' && event.type !== 'noteOff') return;
+
+      setLitNotes((prev) => {
+        const next = new Set(prev);
+        if (event.type === 'noteOn') {
+          next.add(event.note);
+        } else {
+          next.delete(event.note);
+        }
+        return next;
+      });
+    });
+  }, []);
+
+  const handleKeyClick = (midi: number, event: React.SyntheticEvent) => {
     // Prevent default behavior and scrolling
     event.preventDefault();
     event.stopPropagation();
@@ -29,9 +53,31 @@ export default function PianoFallback({
     playNote(midi, 0.5, 0.3);
     
     // Call the game's note handler
+    pressedKeyRef.current = midi;
     onNoteClick(midi);
   };
 
+  // Keys count as held from mouse down until mouse up, or until the pointer leaves the key
+  const handleKeyRelease = (midi: number) => {
+    if (pressedKeyRef.current !== midi) return;
+
+    pressedKeyRef.current = null;
+    onNoteRelease?.(midi);
+  };
+
+  // Enter and Space play a focused key, held until they are let go
+  const isActivationKey = (event: React.KeyboardEvent) =>
+    event.key === 'Enter' || event.key === ' ';
+
+  const handleKeyboardPress = (midi: number, event: React.KeyboardEvent) => {
+    if (!isActivationKey(event) || event.repeat) return;
+    handleKeyClick(midi, event);
+  };
+
+  const handleKeyboardRelease = (midi: number, event: React.KeyboardEvent) => {
+    if (isActivationKey(event)) handleKeyRelease(midi);
+  };
+
   const renderOctave = (octave: number) => {
     const baseMidi = (octave + 1) * 12;
 
@@ -45,8 +91,15 @@ export default function PianoFallback({
           return (
             <button
               key={offset}
-              onClick={(e) => handleKeyClick(midi, e)}
-              className="relative w-8 h-24 bg-white border-2 border-gray-800 hover:bg-gray-100 active:bg-gray-300 transition-colors flex items-end justify-center pb-1 text-[10px] font-medium text-gray-600"
+              onMouseDown={(e) => handleKeyClick(midi, e)}
+              onMouseUp={() => handleKeyRelease(midi)}
+              onMouseLeave={() => handleKeyRelease(midi)}
+              onKeyDown={(e) => handleKeyboardPress(midi, e)}
+              onKeyUp={(e) => handleKeyboardRelease(midi, e)}
+              onBlur={() => handleKeyRelease(midi)}
+              className={`relative w-8 h-24 border-2 border-gray-800 hover:bg-gray-100 active:bg-gray-300 transition-colors flex items-end justify-center pb-1 text-[10px] font-medium text-gray-600 ${
+                litNotes.has(midi) ? 'bg-blue-300' : 'bg-white'
+              }`}
               title={pitch}
               type="button"
             >
@@ -69,8 +122,15 @@ export default function PianoFallback({
           return (
             <button
               key={offset}
-              onClick={(e) => handleKeyClick(midi, e)}
-              className="absolute w-5 h-16 bg-gray-900 hover:bg-gray-700 active:bg-gray-600 transition-colors rounded-b border-2 border-gray-800 text-white text-[9px] font-medium flex items-end justify-center pb-0.5 z-10"
+              onMouseDown={(e) => handleKeyClick(midi, e)}
+              onMouseUp={() => handleKeyRelease(midi)}
+              onMouseLeave={() => handleKeyRelease(midi)}
+              onKeyDown={(e) => handleKeyboardPress(midi, e)}
+              onKeyUp={(e) => handleKeyboardRelease(midi, e)}
+              onBlur={() => handleKeyRelease(midi)}
+              className={`absolute w-5 h-16 hover:bg-gray-700 active:bg-gray-600 transition-colors rounded-b border-2 border-gray-800 text-white text-[9px] font-medium flex items-end justify-center pb-0.5 z-10 ${
+                litNotes.has(midi) ? 'bg-blue-600' : 'bg-gray-900'
+              }`}
               style={{ left: `${leftPosition * 2}rem` }}
               title={pitch}
               type="button"
@@ -0,0 +1,325 @@
+// Progress dashboard: accuracy and speed over past sessions, filtered by mode, difficulty and clef
+
+import { useState } from 'react';
+import { ClefChoice, Difficulty, GameMode, GAME_MODE_INFO } from '../game/types';
+import {
+  ALL_SESSIONS,
+  HistoryFilter,
+  SessionRecord,
+  filterSessions,
+  getProgressPoints,
+  getWeakestNotes,
+  summarizeSessions,
+} from '../game/history';
+import { exportConfusionsCsv, mergeConfusions } from '../game/confusion';
+import { downloadFile } from '../utils/download';
+import ConfusionHeatmap from './ConfusionHeatmap';
+
+interface ProgressDashboardProps {
+  history: SessionRecord[];
+  onBack: () => void;
+}
+
+// Chart drawing area, in SVG units
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 32;
+
+const RECENT_SESSIONS = 10;
+const WEAKEST_NOTES = 8;
+
+const CLEF_CHOICES: ClefChoice[] = ['treble', 'bass', 'alto', 'tenor', 'both', 'mixed'];
+
+interface TrendChartProps {
+  title: string;
+  dates: number[]; // when each session ended
+  values: (number | null)[]; // one per session; null where there is nothing to show
+  maxValue: number;
+  formatValue: (value: number) => string;
+  color: string;
+}
+
+/**
+ * A line chart of one value per session, oldest on the left
+ */
+function TrendChart({ title, dates, values, maxValue, formatValue, color }: TrendChartProps) {
+  const plotWidth = CHART_WIDTH - 2 * CHART_PADDING;
+  const plotHeight = CHART_HEIGHT - 2 * CHART_PADDING;
+  const points = values.flatMap((value, index) => {
+    if (value === null) return [];
+    const x =
+      CHART_PADDING +
+      (values.length > 1 ? (index / (values.length - 1)) * plotWidth : plotWidth / 2);
+    const y = CHART_PADDING + plotHeight - (Math.min(value, maxValue) / maxValue) * plotHeight;
+    return [{ x, y, value, date: dates[index] }];
+  });
+
+  return (
+    <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm">
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">{title}</h3>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+        <line
+          x1={CHART_PADDING}
+          y1={CHART_HEIGHT - CHART_PADDING}
+          x2={CHART_WIDTH - CHART_PADDING}
+          y2={CHART_HEIGHT - CHART_PADDING}
+          stroke="#d1d5db"
+        />
+        <line
+          x1={CHART_PADDING}
+          y1={CHART_PADDING}
+          x2={CHART_WIDTH - CHART_PADDING}
+          y2={CHART_PADDING}
+          stroke="#f3f4f6"
+        />
+        <text x={4} y={CHART_PADDING + 4} fontSize="11" fill="#6b7280">
+          {formatValue(maxValue)}
+        </text>
+        <text x={4} y={CHART_HEIGHT - CHART_PADDING + 4} fontSize="11" fill="#6b7280">
+          {formatValue(0)}
+        </text>
+        {dates.length > 0 && (
+          <>
+            <text x={CHART_PADDING} y={CHART_HEIGHT - 8} fontSize="11" fill="#6b7280">
+              {new Date(dates[0]).toLocaleDateString()}
+            </text>
+            <text
+              x={CHART_WIDTH - CHART_PADDING}
+              y={CHART_HEIGHT - 8}
+              fontSize="11"
+              fill="#6b7280"
+              textAnchor="end"
+            >
+              {new Date(dates[dates.length - 1]).toLocaleDateString()}
+            </text>
+          </>
+        )}
+        <polyline
+          points={points.map(({ x, y }) => `${x},${y}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth="2"
+        />
+        {points.map(({ x, y, value, date }) => (
+          <circle key={`${date}-${x}`} cx={x} cy={y} r="4" fill={color}>
+            <title>{`${new Date(date).toLocaleString()}: ${formatValue(value)}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+export default function ProgressDashboard({ history, onBack }: ProgressDashboardProps) {
+  const [filter, setFilter] = useState<HistoryFilter>(ALL_SESSIONS);
+
+  const sessions = filterSessions(history, filter);
+  const points = getProgressPoints(sessions);
+  const summary = summarizeSessions(sessions);
+  const weakestNotes = getWeakestNotes(sessions, WEAKEST_NOTES);
+  const confusions = mergeConfusions(sessions.map((session) => session.confusions));
+
+  const speeds = points.map(({ avgMs }) => (avgMs === null ? null : avgMs / 1000));
+  const slowest = Math.max(1, ...speeds.map((speed) => speed ?? 0));
+
+  const selectClass =
+    'mt-1 w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-primary';
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <header className="text-center">
+        <h1 className="text-4xl font-bold text-gray-900 mb-2">📈 Your Progress</h1>
+        <p className="text-gray-600">How your accuracy and speed change from session to session</p>
+      </header>
+
+      {/* Filters */}
+      <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm grid grid-cols-3 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Mode
+          <select
+            value={filter.mode}
+            onChange={(e) => setFilter({ ...filter, mode: e.target.value as GameMode | 'all' })}
+            className={selectClass}
+          >
+            <option value="all">All modes</option>
+            {(Object.keys(GAME_MODE_INFO) as GameMode[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {GAME_MODE_INFO[mode].emoji} {GAME_MODE_INFO[mode].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Difficulty
+          <select
+            value={filter.difficulty}
+            onChange={(e) =>
+              setFilter({ ...filter, difficulty: e.target.value as Difficulty | 'all' })
+            }
+            className={selectClass}
+          >
+            <option value="all">All difficulties</option>
+            <option value="beginner">Beginner</option>
+            <option value="intermediate">Intermediate</option>
+            <option value="advanced">Advanced</option>
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Clef
+          <select
+            value={filter.clef}
+            onChange={(e) => setFilter({ ...filter, clef: e.target.value as ClefChoice | 'all' })}
+            className={selectClass}
+          >
+            <option value="all">All clefs</option>
+            {CLEF_CHOICES.map((clef) => (
+              <option key={clef} value={clef}>
+                {clef.charAt(0).toUpperCase() + clef.slice(1)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+        <div className="bg-blue-50 rounded-lg p-3">
+          <div className="text-2xl font-bold text-blue-600">{summary.sessions}</div>
+          <div className="text-sm text-gray-600">Sessions</div>
+        </div>
+        <div className="bg-purple-50 rounded-lg p-3">
+          <div className="text-2xl font-bold text-purple-600">
+            {Math.round(summary.practiceSeconds / 60)} min
+          </div>
+          <div className="text-sm text-gray-600">Practice Time</div>
+        </div>
+        <div className="bg-green-50 rounded-lg p-3">
+          <div className="text-2xl font-bold text-green-600">
+            {summary.notes > 0 ? `${summary.accuracy}%` : '-'}
+          </div>
+          <div className="text-sm text-gray-600">Accuracy ({summary.notes} notes)</div>
+        </div>
+        <div className="bg-orange-50 rounded-lg p-3">
+          <div className="text-2xl font-bold text-orange-600">{summary.bestStreak}</div>
+          <div className="text-sm text-gray-600">Best Streak</div>
+        </div>
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center text-gray-600">
+          No finished sessions match these filters yet. Play a game and it will show up here.
+        </div>
+      ) : (
+        <>
+          <TrendChart
+            title="🎯 Accuracy"
+            dates={points.map(({ endedAt }) => endedAt)}
+            values={points.map(({ accuracy }) => accuracy)}
+            maxValue={100}
+            formatValue={(value) => `${Math.round(value)}%`}
+            color="#16a34a"
+          />
+          <TrendChart
+            title="⚡ Average Response Time"
+            dates={points.map(({ endedAt }) => endedAt)}
+            values={speeds}
+            maxValue={Math.ceil(slowest)}
+            formatValue={(value) => `${value.toFixed(1)}s`}
+            color="#2563eb"
+          />
+
+          {weakestNotes.length > 0 && (
+            <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">🔍 Notes to Work On</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {weakestNotes.map(({ key, result }) => {
+                  const [clef, pitch] = key.split(':');
+                  return (
+                    <div key={key} className="bg-red-50 rounded-lg p-2 text-center">
+                      <div className="text-lg font-bold text-red-700">{pitch}</div>
+                      <div className="text-xs text-gray-600">
+                        {clef} clef · {Math.round((result.correct / result.attempts) * 100)}% of{' '}
+                        {result.attempts}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <ConfusionHeatmap matrix={confusions} />
+
+          {/* Recent sessions */}
+          <div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm overflow-x-auto">
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">🕑 Recent Sessions</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2">Date</th>
+                  <th>Mode</th>
+                  <th>Difficulty</th>
+                  <th>Clef</th>
+                  <th className="text-right">Accuracy</th>
+                  <th className="text-right">Avg Time</th>
+                  <th className="text-right">Best Streak</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sessions
+                  .slice(-RECENT_SESSIONS)
+                  .reverse()
+                  .map((session) => (
+                    <tr key={session.endedAt} className="border-b last:border-0">
+                      <td className="py-2">{new Date(session.endedAt).toLocaleString()}</td>
+                      <td>{GAME_MODE_INFO[session.settings.mode]?.emoji ?? ''}</td>
+                      <td className="capitalize">{session.settings.difficulty}</td>
+                      <td className="capitalize">{session.settings.clef}</td>
+                      <td className="text-right">{session.accuracy}%</td>
+                      <td className="text-right">
+                        {session.correct > 0 ? `${(session.avgMsPerNote / 1000).toFixed(1)}s` : '-'}
+                      </td>
+                      <td className="text-right">{session.bestStreak}</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-wrap justify-center gap-3">
+        {sessions.length > 0 && (
+          <>
+            <button
+              onClick={() =>
+                downloadFile(
+                  'solideya-sessions.json',
+                  JSON.stringify(sessions, null, 2),
+                  'application/json'
+                )
+              }
+              className="py-2 px-6 bg-blue-500 text-white font-semibold rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              ⬇️ Export Sessions (JSON)
+            </button>
+            <button
+              onClick={() =>
+                downloadFile('solideya-mistakes.csv', exportConfusionsCsv(confusions), 'text/csv')
+              }
+              className="py-2 px-6 bg-blue-500 text-white font-semibold rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              ⬇️ Export Mistakes (CSV)
+            </button>
+          </>
+        )}
+        <button
+          onClick={onBack}
+          className="py-2 px-6 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          ← Back to Menu
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+// Staff that scrolls past a fixed playhead in time with the beat
+
+import { useEffect, useRef } from 'react';
+import { NoteSpec, TimingJudgement } from '../game/types';
+import { getBeatMs, getNoteOnsets, getSequenceBeats } from '../game/timing';
+import { getCurrentTime } from '../utils/time';
+import { drawSequence } from './staffRendering';
+
+interface ScrollingStaffProps {
+  sequence: NoteSpec[];
+  currentIndex: number;
+  flashError: boolean;
+  noteTimings: (TimingJudgement | null)[];
+  beatZeroAt: number;
+  tempoBpm: number;
+  isPaused: boolean;
+}
+
+const PIXELS_PER_BEAT = 90;
+const STAFF_HEADER_WIDTH = 140; // clef and key signature in front of the first note
+const PLAYHEAD_X = 160; // playhead position inside the visible window
+
+export default function ScrollingStaff({
+  sequence,
+  currentIndex,
+  flashError,
+  noteTimings,
+  beatZeroAt,
+  tempoBpm,
+  isPaused,
+}: ScrollingStaffProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const noteXsRef = useRef<number[]>([]);
+
+  // Draw the whole sequence on one wide staff
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || sequence.length === 0) return;
+
+    const totalBeats = getSequenceBeats(sequence) + 1;
+    const notes = drawSequence(container, {
+      sequence,
+      currentIndex,
+      flashError,
+      width: STAFF_HEADER_WIDTH + totalBeats * PIXELS_PER_BEAT,
+      // Rests and tied notes are never wrong
+      noteResults: noteTimings.map((judgement) => judgement === null || judgement === 'onTime'),
+    });
+    noteXsRef.current = notes.map((note) => note.getAbsoluteX());
+
+    return () => {
+      container.innerHTML = '';
+    };
+  }, [sequence, currentIndex, flashError, noteTimings]);
+
+  // Move the staff so the note that is due sits under the playhead
+  useEffect(() => {
+    if (isPaused) return;
+
+    const onsets = getNoteOnsets(sequence);
+    const beatMs = getBeatMs(tempoBpm);
+    let frame = 0;
+
+    const update = () => {
+      const beat = (getCurrentTime() - beatZeroAt) / beatMs;
+      const x = getXAtBeat(beat, onsets, noteXsRef.current);
+      if (scrollRef.current) {
+        scrollRef.current.style.transform = `translateX(${PLAYHEAD_X - x}px)`;
+      }
+      frame = requestAnimationFrame(update);
+    };
+
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [sequence, beatZeroAt, tempoBpm, isPaused]);
+
+  return (
+    <div className="relative bg-white border-2 border-gray-300 rounded-lg p-2 shadow-md overflow-hidden">
+      <div ref={scrollRef} className="will-change-transform">
+        <div ref={containerRef} />
+      </div>
+      {/* Playhead */}
+      <div
+        className="absolute top-0 bottom-0 w-0.5 bg-red-500 opacity-70 pointer-events-none"
+        style={{ left: PLAYHEAD_X }}
+      />
+    </div>
+  );
+}
+
+/**
+ * Interpolate the staff x position of a beat between the drawn note positions
+ * (before the first note and after the last one, the spacing is extrapolated)
+ */
+function getXAtBeat(beat: number, onsets: number[], xs: number[]): number {
+  if (xs.length === 0) return 0;
+  if (xs.length === 1) return xs[0] + beat * PIXELS_PER_BEAT;
+
+  let segment = onsets.findIndex((onset, index) => index > 0 && beat < onset) - 1;
+  if (segment < 0) {
+    segment = beat < onsets[0] ? 0 : onsets.length - 2;
+  }
+
+  const pixelsPerBeat = (xs[segment + 1] - xs[segment]) / (onsets[segment + 1] - onsets[segment]);
+  return xs[segment] + (beat - onsets[segment]) * pixelsPerBeat;
+}
@@ -0,0 +1,46 @@
+// Early / on-time / late / missed breakdown for tempo-driven play
+
+import { HoldJudgement, TimingJudgement } from '../game/types';
+
+interface TimingResultsProps {
+  results: Record<TimingJudgement, number>;
+  holdResults?: Record<HoldJudgement, number>; // shown when notes are judged on held length
+  compact?: boolean;
+}
+
+const TIMING_LABELS: { judgement: TimingJudgement; label: string; color: string }[] = [
+  { judgement: 'early', label: 'Early', color: 'text-yellow-600' },
+  { judgement: 'onTime', label: 'On Time', color: 'text-green-600' },
+  { judgement: 'late', label: 'Late', color: 'text-orange-600' },
+  { judgement: 'missed', label: 'Missed', color: 'text-red-600' },
+];
+
+export default function TimingResults({
+  results,
+  holdResults,
+  compact = false,
+}: TimingResultsProps) {
+  return (
+    <div className={compact ? 'flex justify-center gap-4' : 'bg-teal-50 rounded-lg p-4'}>
+      {!compact && <h3 className="text-sm font-semibold text-gray-700 mb-2">Timing</h3>}
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {TIMING_LABELS.map(({ judgement, label, color }) => (
+          <div key={judgement} className={compact ? 'px-2' : 'bg-white rounded px-2 py-1'}>
+            <div className={`${compact ? 'text-lg' : 'text-2xl'} font-bold ${color}`}>
+              {results[judgement]}
+            </div>
+            <div className="text-xs text-gray-600">{label}</div>
+          </div>
+        ))}
+      </div>
+      {holdResults && (
+        <div className={compact ? 'px-2 text-center' : 'mt-2 text-center text-sm'}>
+          <div className={`${compact ? 'text-lg' : 'text-2xl'} font-bold text-teal-600`}>
+            {holdResults.held}/{holdResults.held + holdResults.short}
+          </div>
+          <div className="text-xs text-gray-600">Held Full Length</div>
+        </div>
+      )}
+    </div>
+  );
+}
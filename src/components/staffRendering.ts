@@ -0,0 +1,294 @@
+// VexFlow drawing of note sequences, shared by the staff components
+
+import {
+  Renderer,
+  Stave,
+  StaveNote,
+  Formatter,
+  Voice,
+  Accidental,
+  BarNote,
+  Beam,
+  Dot,
+  Fraction,
+  StaveTie,
+  Tickable,
+  RenderContext,
+} from 'vexflow';
+import { NoteSpec, StaffClef } from '../game/types';
+import { KeyName } from '../game/keys';
+import { TIME_SIGNATURES } from '../game/rhythm';
+import { getNoteOnsets, getSequenceBeats } from '../game/timing';
+
+export interface DrawSequenceOptions {
+  sequence: NoteSpec[];
+  currentIndex: number;
+  flashError: boolean;
+  width: number;
+  noteResults?: boolean[]; // whether each passed note was right; all right when omitted
+}
+
+/**
+ * Render a sequence into a container, replacing what was drawn before
+ * Returns the drawn notes in sequence order (empty if rendering failed)
+ */
+export function drawSequence(container: HTMLDivElement, options: DrawSequenceOptions): StaveNote[] {
+  const { sequence, width } = options;
+
+  // Clear previous render
+  container.innerHTML = '';
+
+  const height = 200; // Reduced from 300 to 200 for more compact display
+
+  // Create VexFlow renderer
+  const renderer = new Renderer(container, Renderer.Backends.SVG);
+  renderer.resize(width, height);
+
+  const context = renderer.getContext();
+  context.setFont('Arial', 10);
+
+  try {
+    // Determine if we need one or two staves
+    const hasTreble = sequence.some((note) => note.clef === 'treble');
+    const hasBass = sequence.some((note) => note.clef === 'bass');
+    const needsBothStaves = hasTreble && hasBass;
+
+    // The whole sequence shares one key signature
+    const keySignature = sequence[0].keySignature ?? 'C';
+
+    if (needsBothStaves) {
+      return renderBothClefs(context, options, keySignature);
+    }
+
+    // Treble, bass, alto or tenor: a sequence never mixes these on one staff
+    return renderSingleClef(context, options, sequence[0].clef, keySignature);
+  } catch (error) {
+    console.error('Error rendering staff:', error);
+    return [];
+  }
+}
+
+/**
+ * Color a note by its state: passed (green, or red when it was wrong),
+ * current (blue, red while flashing an error) or upcoming (black)
+ */
+function styleNote(note: StaveNote, index: number, options: DrawSequenceOptions): void {
+  const { currentIndex, flashError, noteResults } = options;
+
+  let color = '#000000';
+  if (index < currentIndex) {
+    color = noteResults && !noteResults[index] ? '#ef4444' : '#10b981';
+  } else if (index === currentIndex) {
+    color = flashError ? '#ef4444' : '#3b82f6';
+  }
+
+  note.setStyle({ fillStyle: color, strokeStyle: color });
+}
+
+/**
+ * Create a note, rest or stacked chord with its written length and accidentals
+ */
+function createStaveNote(noteSpec: NoteSpec, clef: StaffClef): StaveNote {
+  const heads = noteSpec.chord ? noteSpec.chord.tones : [noteSpec];
+
+  // Dotted lengths are written as the plain length plus a dot
+  const written = noteSpec.duration ?? 'q';
+  const isDotted = written.endsWith('d');
+  const duration = isDotted ? written.slice(0, -1) : written;
+
+  const note = new StaveNote({
+    keys: heads.map((head) => head.vexKey),
+    duration: noteSpec.isRest ? `${duration}r` : duration,
+    dots: isDotted ? 1 : 0,
+    clef: clef,
+  });
+
+  if (isDotted) {
+    Dot.buildAndAttach([note], { all: true });
+  }
+
+  // Add accidentals that leave the key signature (indices follow the order of the keys)
+  if (!noteSpec.isRest) {
+    heads.forEach((head, keyIndex) => {
+      if (head.accidental) {
+        note.addModifier(new Accidental(head.accidental), keyIndex);
+      }
+    });
+  }
+
+  return note;
+}
+
+/**
+ * Create an invisible rest that keeps the other staff of the grand staff in step
+ */
+function createGhostRest(noteSpec: NoteSpec, clef: 'treble' | 'bass'): StaveNote {
+  const rest = createStaveNote(
+    { ...noteSpec, vexKey: clef === 'treble' ? 'b/4' : 'd/3', isRest: true, chord: undefined },
+    clef
+  );
+  rest.setStyle({ fillStyle: 'transparent', strokeStyle: 'transparent' });
+  return rest;
+}
+
+/**
+ * Add the time signature, when the sequence has one, after the clef and key
+ */
+function addTimeSignature(stave: Stave, sequence: NoteSpec[]): void {
+  const { timeSignature } = sequence[0];
+  if (timeSignature) {
+    stave.addTimeSignature(timeSignature);
+  }
+}
+
+/**
+ * Create a voice for the notes of a staff, with bar lines between whole bars
+ */
+function createVoice(sequence: NoteSpec[], notes: StaveNote[]): Voice {
+  const voice = new Voice({ num_beats: getSequenceBeats(sequence), beat_value: 4 });
+  const tickables: Tickable[] = [];
+  const { timeSignature } = sequence[0];
+  const onsets = getNoteOnsets(sequence);
+
+  notes.forEach((note, index) => {
+    const isBarStart =
+      timeSignature !== undefined &&
+      index > 0 &&
+      onsets[index] % TIME_SIGNATURES[timeSignature].barBeats === 0;
+    if (isBarStart) {
+      tickables.push(new BarNote());
+    }
+    tickables.push(note);
+  });
+
+  voice.addTickables(tickables);
+  return voice;
+}
+
+/**
+ * Beam eighth notes by the beat of the time signature (rhythm sequences only)
+ */
+function createBeams(sequence: NoteSpec[], notes: StaveNote[]): Beam[] {
+  const { timeSignature } = sequence[0];
+  if (!timeSignature) return [];
+
+  const [numerator, denominator] = TIME_SIGNATURES[timeSignature].beamGroup;
+  return Beam.generateBeams(notes, { groups: [new Fraction(numerator, denominator)] });
+}
+
+/**
+ * Draw the beams and ties of a staff once its notes are drawn
+ */
+function drawBeamsAndTies(
+  context: RenderContext,
+  sequence: NoteSpec[],
+  notes: StaveNote[],
+  beams: Beam[]
+): void {
+  beams.forEach((beam) => beam.setContext(context).draw());
+
+  sequence.forEach((noteSpec, index) => {
+    if (noteSpec.tiedToNext && notes[index + 1]) {
+      new StaveTie({
+        first_note: notes[index],
+        last_note: notes[index + 1],
+        first_indices: [0],
+        last_indices: [0],
+      })
+        .setContext(context)
+        .draw();
+    }
+  });
+}
+
+function renderSingleClef(
+  context: any,
+  options: DrawSequenceOptions,
+  clef: StaffClef,
+  keySignature: KeyName
+): StaveNote[] {
+  const { sequence, width } = options;
+
+  const stave = new Stave(10, 50, width - 20); // Adjusted from 80 to 50
+  stave.addClef(clef);
+  stave.addKeySignature(keySignature);
+  addTimeSignature(stave, sequence);
+  stave.setContext(context).draw();
+
+  // Create notes
+  const notes = sequence.map((noteSpec, index) => {
+    const note = createStaveNote(noteSpec, clef);
+    styleNote(note, index, options);
+    return note;
+  });
+
+  // Create voice and format
+  const voice = createVoice(sequence, notes);
+  const beams = createBeams(sequence, notes);
+
+  // Leave room for the clef and key signature in front of the notes
+  const noteWidth = stave.getNoteEndX() - stave.getNoteStartX() - 10;
+  new Formatter().joinVoices([voice]).format([voice], noteWidth);
+
+  voice.draw(context, stave);
+  drawBeamsAndTies(context, sequence, notes, beams);
+  return notes;
+}
+
+function renderBothClefs(
+  context: any,
+  options: DrawSequenceOptions,
+  keySignature: KeyName
+): StaveNote[] {
+  const { sequence, width } = options;
+
+  // Render treble clef staff (adjusted positions for smaller height)
+  const trebleStave = new Stave(10, 20, width - 20); // Adjusted from 40 to 20
+  trebleStave.addClef('treble');
+  trebleStave.addKeySignature(keySignature);
+  addTimeSignature(trebleStave, sequence);
+  trebleStave.setContext(context).draw();
+
+  // Render bass clef staff
+  const bassStave = new Stave(10, 110, width - 20); // Adjusted from 160 to 110
+  bassStave.addClef('bass');
+  bassStave.addKeySignature(keySignature);
+  addTimeSignature(bassStave, sequence);
+  bassStave.setContext(context).draw();
+
+  // Separate notes by clef, with invisible rests on the other staff
+  const notes: StaveNote[] = [];
+  const trebleNotes: StaveNote[] = [];
+  const bassNotes: StaveNote[] = [];
+
+  sequence.forEach((noteSpec, index) => {
+    const note = createStaveNote(noteSpec, noteSpec.clef);
+    styleNote(note, index, options);
+    notes.push(note);
+
+    if (noteSpec.clef === 'treble') {
+      trebleNotes.push(note);
+      bassNotes.push(createGhostRest(noteSpec, 'bass'));
+    } else {
+      bassNotes.push(note);
+      trebleNotes.push(createGhostRest(noteSpec, 'treble'));
+    }
+  });
+
+  // Create voices with ghost notes for alignment
+  const trebleVoice = createVoice(sequence, trebleNotes);
+  const bassVoice = createVoice(sequence, bassNotes);
+  const trebleBeams = createBeams(sequence, trebleNotes);
+  const bassBeams = createBeams(sequence, bassNotes);
+
+  // Format and draw
+  // Leave room for the clef and key signature in front of the notes
+  const noteWidth = trebleStave.getNoteEndX() - trebleStave.getNoteStartX() - 10;
+  new Formatter().joinVoices([trebleVoice]).format([trebleVoice], noteWidth);
+  new Formatter().joinVoices([bassVoice]).format([bassVoice], noteWidth);
+
+  trebleVoice.draw(context, trebleStave);
+  bassVoice.draw(context, bassStave);
+  drawBeamsAndTies(context, sequence, notes, [...trebleBeams, ...bassBeams]);
+  return notes;
+}
@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_SKILL_MODEL,
+  SkillModel,
+  getAdaptiveConfig,
+  getNoteStat,
+  getNoteWeight,
+  isRangeMastered,
+  pickWeakNote,
+  recordNoteResult,
+} from '../adaptive';
+import { generateSequence } from '../noteGen';
+import { handleInput, startGame } from '../gameLoop';
+import { createSeededRandom } from '../random';
+import { DEFAULT_SETTINGS, DIFFICULTY_CONFIGS, GameSettings, NoteSpec } from '../types';
+import { pitchToMidi, pitchToVexKey } from '../mapping';
+
+function note(pitch: string, clef: NoteSpec['clef'] = 'treble'): NoteSpec {
+  return { midi: pitchToMidi(pitch), pitch, vexKey: pitchToVexKey(pitch), clef };
+}
+
+// Every natural of the beginner treble range, answered right and quickly a few times
+const TREBLE_NATURALS = ['C4', 'D4', 'E4', 'F4', 'G4', 'A4', 'B4', 'C5'];
+function masteredTreble(): SkillModel {
+  let model = EMPTY_SKILL_MODEL;
+  TREBLE_NATURALS.forEach((pitch) => {
+    for (let i = 0; i < 3; i++) {
+      model = recordNoteResult(model, note(pitch), true, 800);
+    }
+  });
+  return model;
+}
+
+const settings: GameSettings = {
+  ...DEFAULT_SETTINGS,
+  mode: 'reading',
+  difficulty: 'beginner',
+  clef: 'treble',
+  sequenceLength: 8,
+  keySignature: 'C',
+  adaptive: true,
+};
+
+describe('Adaptive Practice', () => {
+  describe('recordNoteResult', () => {
+    it('should start a note from its first answer', () => {
+      const model = recordNoteResult(EMPTY_SKILL_MODEL, note('F#3', 'bass'), true, 1200);
+
+      expect(getNoteStat(model, 'bass', 'F#3')).toEqual({
+        attempts: 1,
+        accuracy: 1,
+        avgMs: 1200,
+      });
+      expect(getNoteStat(model, 'treble', 'F#3')).toBeUndefined();
+    });
+
+    it('should lean towards recent answers', () => {
+      let model = recordNoteResult(EMPTY_SKILL_MODEL, note('C4'), true, 1000);
+      model = recordNoteResult(model, note('C4'), false, 3000);
+
+      const stat = getNoteStat(model, 'treble', 'C4')!;
+      expect(stat.attempts).toBe(2);
+      expect(stat.accuracy).toBeCloseTo(0.7);
+      expect(stat.avgMs).toBe(1000); // only correct answers are timed
+    });
+
+    it('should keep the response time of untimed answers', () => {
+      let model = recordNoteResult(EMPTY_SKILL_MODEL, note('C4'), true, null);
+      expect(getNoteStat(model, 'treble', 'C4')!.avgMs).toBeNull();
+
+      model = recordNoteResult(model, note('C4'), true, 2000);
+      model = recordNoteResult(model, note('C4'), true, 1000);
+      expect(getNoteStat(model, 'treble', 'C4')!.avgMs).toBeCloseTo(1700);
+    });
+  });
+
+  describe('getNoteWeight', () => {
+    it('should favour missed and slow notes over known ones', () => {
+      let model = recordNoteResult(EMPTY_SKILL_MODEL, note('C4'), true, 800);
+      model = recordNoteResult(model, note('D4'), false, null);
+      model = recordNoteResult(model, note('E4'), true, 4000);
+
+      const known = getNoteWeight(model, 'treble', 'C4');
+      expect(known).toBe(1);
+      expect(getNoteWeight(model, 'treble', 'D4')).toBeGreaterThan(known);
+      expect(getNoteWeight(model, 'treble', 'E4')).toBeGreaterThan(known);
+    });
+
+    it('should give unseen notes a chance to be tried', () => {
+      expect(getNoteWeight(EMPTY_SKILL_MODEL, 'bass', 'C3')).toBeGreaterThan(1);
+    });
+  });
+
+  describe('pickWeakNote', () => {
+    it('should pick notes in proportion to their weights', () => {
+      const model = recordNoteResult(EMPTY_SKILL_MODEL, note('C4'), true, 800);
+      const notes = [note('C4'), note('D4')]; // weights 1 and 2
+
+      expect(pickWeakNote(notes, model, () => 0.3).pitch).toBe('C4');
+      expect(pickWeakNote(notes, model, () => 0.4).pitch).toBe('D4');
+    });
+  });
+
+  describe('isRangeMastered', () => {
+    const range = DIFFICULTY_CONFIGS.beginner.clefRanges.treble;
+
+    it('should not count a range nobody has played', () => {
+      expect(isRangeMastered(EMPTY_SKILL_MODEL, ['treble'], range)).toBe(false);
+    });
+
+    it('should count a range whose notes are all known', () => {
+      expect(isRangeMastered(masteredTreble(), ['treble'], range)).toBe(true);
+      expect(isRangeMastered(masteredTreble(), ['bass'], range)).toBe(false);
+    });
+
+    it('should not count a range with a weak note', () => {
+      const model = recordNoteResult(masteredTreble(), note('E4'), false, null);
+      expect(isRangeMastered(model, ['treble'], range)).toBe(false);
+    });
+  });
+
+  describe('getAdaptiveConfig', () => {
+    it('should widen the range and raise accidentals with each level', () => {
+      const config = DIFFICULTY_CONFIGS.intermediate;
+      const raised = getAdaptiveConfig(config, 2);
+
+      expect(getAdaptiveConfig(config, 0)).toBe(config);
+      expect(raised.clefRanges.treble.minMidi).toBe(config.clefRanges.treble.minMidi - 4);
+      expect(raised.clefRanges.treble.maxMidi).toBe(config.clefRanges.treble.maxMidi + 4);
+      expect(raised.accidentalProbability).toBeCloseTo(config.accidentalProbability + 0.1);
+    });
+
+    it('should keep accidentals out of a naturals-only difficulty', () => {
+      const config = DIFFICULTY_CONFIGS.beginner;
+      expect(getAdaptiveConfig(config, 3).accidentalProbability).toBe(config.accidentalProbability);
+    });
+  });
+
+  describe('adaptive generation', () => {
+    function countPitch(adaptive: boolean, model: SkillModel, pitch: string): number {
+      const random = createSeededRandom(5);
+      let count = 0;
+      for (let i = 0; i < 50; i++) {
+        const sequence = generateSequence({ ...settings, adaptive }, 0, random, model);
+        count += sequence.filter((generated) => generated.pitch === pitch).length;
+      }
+      return count;
+    }
+
+    it('should show weak notes more often', () => {
+      let model = masteredTreble();
+      for (let i = 0; i < 5; i++) {
+        model = recordNoteResult(model, note('E4'), false, null);
+      }
+
+      expect(countPitch(true, model, 'E4')).toBeGreaterThan(1.5 * countPitch(false, model, 'E4'));
+    });
+
+    it('should move past the difficulty range once it is mastered', () => {
+      const { minMidi, maxMidi } = DIFFICULTY_CONFIGS.beginner.clefRanges.treble;
+      const random = createSeededRandom(9);
+      const notes = Array.from({ length: 20 }, () =>
+        generateSequence(settings, 0, random, masteredTreble())
+      ).flat();
+
+      expect(notes.some((generated) => generated.midi < minMidi || generated.midi > maxMidi)).toBe(
+        true
+      );
+    });
+
+    it('should stay in the difficulty range until then', () => {
+      const { minMidi, maxMidi } = DIFFICULTY_CONFIGS.beginner.clefRanges.treble;
+      const random = createSeededRandom(9);
+      const notes = Array.from({ length: 20 }, () =>
+        generateSequence(settings, 0, random, EMPTY_SKILL_MODEL)
+      ).flat();
+
+      expect(
+        notes.every((generated) => generated.midi >= minMidi && generated.midi <= maxMidi)
+      ).toBe(true);
+    });
+  });
+
+  describe('game', () => {
+    it('should learn from the notes played in reading mode', () => {
+      let snapshot = startGame(settings, 0, 1);
+      const expected = snapshot.sequence[0];
+
+      snapshot = handleInput(snapshot, expected.midi, settings, 0, 900);
+
+      expect(getNoteStat(snapshot.skill, expected.clef, expected.pitch)).toEqual({
+        attempts: 1,
+        accuracy: 1,
+        avgMs: 900,
+      });
+    });
+
+    it('should not learn from notes that are heard rather than read', () => {
+      const hearing: GameSettings = { ...settings, mode: 'hearing' };
+      let snapshot = startGame(hearing, 0, 1);
+
+      snapshot = handleInput(snapshot, snapshot.sequence[0].midi, hearing, 0, 900);
+
+      expect(snapshot.skill).toEqual(EMPTY_SKILL_MODEL);
+    });
+  });
+});
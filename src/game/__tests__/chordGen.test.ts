@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { buildChord, generateChord, getMeantChordTone, getTargetMidis } from '../chordGen';
+import { generateSequence, placeOnStaff, validateSequence } from '../noteGen';
+import { countLedgerLines } from '../mapping';
+import { DEFAULT_SETTINGS, GameSettings, DIFFICULTY_CONFIGS } from '../types';
+
+describe('Chord Generation', () => {
+  const settings: GameSettings = {
+    ...DEFAULT_SETTINGS,
+    mode: 'chords',
+    difficulty: 'beginner',
+    clef: 'treble',
+    sequenceLength: 10,
+  };
+
+  describe('buildChord', () => {
+    it('should build a root position C major triad', () => {
+      const chord = buildChord(0, 0, 4, 'major', 0)!;
+
+      expect(chord.symbol).toBe('C');
+      expect(chord.tones.map((tone) => tone.pitch)).toEqual(['C4', 'E4', 'G4']);
+      expect(chord.tones.map((tone) => tone.midi)).toEqual([60, 64, 67]);
+    });
+
+    it('should spell each tone on its own letter', () => {
+      // E major uses G#, not Ab
+      const chord = buildChord(2, 0, 4, 'major', 0)!;
+
+      expect(chord.tones.map((tone) => tone.pitch)).toEqual(['E4', 'G#4', 'B4']);
+      expect(chord.tones[1].accidental).toBe('#');
+    });
+
+    it('should raise the lower tones for inversions', () => {
+      const chord = buildChord(0, 0, 4, 'major', 1)!;
+
+      expect(chord.inversion).toBe(1);
+      expect(chord.tones.map((tone) => tone.pitch)).toEqual(['E4', 'G4', 'C5']);
+    });
+
+    it('should build seventh chords with four tones', () => {
+      const chord = buildChord(4, 0, 3, 'dominant7', 0)!;
+
+      expect(chord.symbol).toBe('G7');
+      expect(chord.tones.map((tone) => tone.pitch)).toEqual(['G3', 'B3', 'D4', 'F4']);
+    });
+
+    it('should name chords from an altered root', () => {
+      const chord = buildChord(1, 1, 4, 'minor7', 0)!;
+
+      expect(chord.symbol).toBe('D#m7');
+      expect(chord.tones.map((tone) => tone.pitch)).toEqual(['D#4', 'F#4', 'A#4', 'C#5']);
+    });
+
+    it('should return null when a tone needs more than a double accidental', () => {
+      // Fb diminished 7th would need a triple flat on its seventh
+      expect(buildChord(3, -1, 4, 'diminished7', 0)).toBeNull();
+    });
+  });
+
+  describe('getMeantChordTone', () => {
+    const chord = buildChord(0, 0, 4, 'major', 0)!;
+    const note = { ...chord.tones[0], clef: 'treble' as const, chord };
+
+    it('should match a played tone to itself, as a single note', () => {
+      const tone = getMeantChordTone(note, 64, [60]);
+
+      expect(tone).toMatchObject({ midi: 64, pitch: 'E4', clef: 'treble' });
+      expect(tone.chord).toBeUndefined();
+    });
+
+    it('should match a wrong note to the nearest tone not yet played', () => {
+      expect(getMeantChordTone(note, 65, []).pitch).toBe('E4');
+      expect(getMeantChordTone(note, 65, [64]).pitch).toBe('G4');
+      expect(getMeantChordTone(note, 65, [60, 64, 67]).pitch).toBe('E4');
+    });
+  });
+
+  describe('generateChord', () => {
+    it('should fall back to a triad on the chosen staff', () => {
+      // No chord fits in a one-semitone range, so every attempt fails
+      const range = { minMidi: 48, maxMidi: 49 };
+      const config = DIFFICULTY_CONFIGS.beginner;
+
+      (['treble', 'bass', 'alto', 'tenor'] as const).forEach((clef) => {
+        const note = generateChord(settings, config, 'C', range, (midi, pitches) =>
+          placeOnStaff(clef, midi, pitches, config.maxLedgerLines)
+        );
+
+        expect(note.clef).toBe(clef);
+        expect(note.chord!.symbol).toBe('C');
+        note.chord!.tones.forEach((tone) => {
+          expect(countLedgerLines(tone.pitch, clef)).toBeLessThanOrEqual(config.maxLedgerLines);
+        });
+      });
+    });
+  });
+
+  describe('generateSequence in chords mode', () => {
+    it('should attach a chord to every note', () => {
+      const sequence = generateSequence(settings);
+
+      expect(sequence).toHaveLength(10);
+      sequence.forEach((note) => {
+        expect(note.chord).toBeDefined();
+        expect(note.midi).toBe(note.chord!.tones[0].midi);
+      });
+    });
+
+    it('should only use root position natural triads for beginner', () => {
+      const sequence = generateSequence(settings);
+
+      sequence.forEach((note) => {
+        expect(note.chord!.inversion).toBe(0);
+        expect(DIFFICULTY_CONFIGS.beginner.chordQualities).toContain(note.chord!.quality);
+        note.chord!.tones.forEach((tone) => expect(tone.accidental).toBeUndefined());
+      });
+      expect(validateSequence(sequence, settings)).toBe(true);
+    });
+
+    it('should keep every tone in range on advanced', () => {
+      const advanced: GameSettings = { ...settings, difficulty: 'advanced', sequenceLength: 30 };
+      const sequence = generateSequence(advanced);
+      const config = DIFFICULTY_CONFIGS.advanced;
+
+      sequence.forEach((note) => {
+        getTargetMidis(note).forEach((midi) => {
+          expect(midi).toBeGreaterThanOrEqual(config.minMidi);
+          expect(midi).toBeLessThanOrEqual(config.maxMidi);
+        });
+      });
+      expect(validateSequence(sequence, advanced)).toBe(true);
+    });
+  });
+});
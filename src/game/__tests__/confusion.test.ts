@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ConfusionMatrix,
+  classifyMistake,
+  countMistakes,
+  exportConfusionsCsv,
+  getConfusionRows,
+  getNoteSource,
+  getWrongKeyCounts,
+  mergeConfusions,
+  recordConfusion,
+} from '../confusion';
+import { handleInput, startGame } from '../gameLoop';
+import { DEFAULT_SETTINGS, GameSettings, NoteSpec } from '../types';
+import { pitchToMidi, pitchToVexKey } from '../mapping';
+
+function note(pitch: string, clef: NoteSpec['clef'] = 'treble'): NoteSpec {
+  return { midi: pitchToMidi(pitch), pitch, vexKey: pitchToVexKey(pitch), clef };
+}
+
+function played(pairs: [NoteSpec, string][]): ConfusionMatrix {
+  return pairs.reduce<ConfusionMatrix>(
+    (matrix, [expected, pitch]) => recordConfusion(matrix, expected, pitchToMidi(pitch), 'read'),
+    {}
+  );
+}
+
+describe('Confusions', () => {
+  describe('recordConfusion', () => {
+    it('should count each played note against the expected one', () => {
+      const matrix = played([
+        [note('E4'), 'F4'],
+        [note('E4'), 'F4'],
+        [note('E4'), 'E4'],
+        [note('E4', 'bass'), 'E4'],
+      ]);
+
+      expect(matrix).toEqual({
+        'treble:E4': { [pitchToMidi('F4')]: 2, [pitchToMidi('E4')]: 1 },
+        'bass:E4': { [pitchToMidi('E4')]: 1 },
+      });
+    });
+
+    it('should keep heard notes apart from read ones', () => {
+      const matrix = recordConfusion({}, note('E4'), pitchToMidi('F4'), 'heard');
+
+      expect(matrix).toEqual({ 'heard:E4': { [pitchToMidi('F4')]: 1 } });
+      expect(getConfusionRows(matrix)[0]).toMatchObject({ clef: null, pitch: 'E4' });
+    });
+
+    it('should tell the ear-training modes from the reading ones', () => {
+      expect(getNoteSource('hearing')).toBe('heard');
+      expect(getNoteSource('intervals')).toBe('heard');
+      expect(getNoteSource('dictation')).toBe('heard');
+      expect(getNoteSource('reading')).toBe('read');
+      expect(getNoteSource('chords')).toBe('read');
+    });
+  });
+
+  describe('mergeConfusions', () => {
+    it('should add up the counts of each pair', () => {
+      const first = played([[note('G4'), 'A4']]);
+      const second = played([
+        [note('G4'), 'A4'],
+        [note('G4'), 'G4'],
+      ]);
+
+      expect(mergeConfusions([first, second])).toEqual({
+        'treble:G4': { [pitchToMidi('A4')]: 2, [pitchToMidi('G4')]: 1 },
+      });
+    });
+  });
+
+  describe('classifyMistake', () => {
+    it('should not count the right note as a mistake', () => {
+      expect(classifyMistake('treble', 'F#4', pitchToMidi('F#4'))).toBeNull();
+    });
+
+    it('should spot a missed or wrong accidental', () => {
+      expect(classifyMistake('treble', 'F#4', pitchToMidi('F4'))).toBe('missedAccidental');
+      expect(classifyMistake('treble', 'Bb4', pitchToMidi('B4'))).toBe('missedAccidental');
+      expect(classifyMistake('treble', 'E4', pitchToMidi('Eb4'))).toBe('wrongAccidental');
+    });
+
+    it('should spot a note one line or space off', () => {
+      expect(classifyMistake('treble', 'E4', pitchToMidi('F4'))).toBe('lineSpace');
+      expect(classifyMistake('bass', 'C3', pitchToMidi('B2'))).toBe('lineSpace');
+      expect(classifyMistake('treble', 'F#4', pitchToMidi('G#4'))).toBe('lineSpace');
+    });
+
+    it('should spot a note read in another clef', () => {
+      // The bottom line is E4 on the treble staff and G2 on the bass staff
+      expect(classifyMistake('treble', 'E4', pitchToMidi('G2'))).toBe('otherClef');
+      expect(classifyMistake('bass', 'G2', pitchToMidi('E4'))).toBe('otherClef');
+      expect(classifyMistake('bass', 'F#3', pitchToMidi('D#5'))).toBe('otherClef');
+    });
+
+    it('should spot the right note in the wrong octave', () => {
+      expect(classifyMistake('treble', 'C5', pitchToMidi('C4'))).toBe('octave');
+    });
+
+    it('should leave anything else unexplained', () => {
+      expect(classifyMistake('treble', 'C4', pitchToMidi('A4'))).toBe('other');
+    });
+
+    it('should not explain heard notes as reading mistakes', () => {
+      expect(classifyMistake(null, 'F#4', pitchToMidi('F4'))).toBe('other');
+      expect(classifyMistake(null, 'E4', pitchToMidi('G2'))).toBe('other');
+      expect(classifyMistake(null, 'C5', pitchToMidi('C4'))).toBe('octave');
+      expect(classifyMistake(null, 'C5', pitchToMidi('C5'))).toBeNull();
+    });
+  });
+
+  describe('summaries', () => {
+    const matrix = played([
+      [note('F#4'), 'F4'],
+      [note('F#4'), 'F4'],
+      [note('F#4'), 'F#4'],
+      [note('E4'), 'F4'],
+      [note('C4'), 'C4'],
+    ]);
+
+    it('should list the most missed notes first', () => {
+      const rows = getConfusionRows(matrix);
+
+      expect(rows.map(({ key }) => key)).toEqual(['treble:F#4', 'treble:E4', 'treble:C4']);
+      expect(rows[0]).toMatchObject({ attempts: 3, mistakes: 2 });
+    });
+
+    it('should count the mistakes of each kind', () => {
+      expect(countMistakes(matrix)).toEqual({
+        missedAccidental: 2,
+        wrongAccidental: 0,
+        lineSpace: 1,
+        otherClef: 0,
+        octave: 0,
+        other: 0,
+      });
+    });
+
+    it('should count the keys played by mistake', () => {
+      expect(getWrongKeyCounts(matrix)).toEqual({ [pitchToMidi('F4')]: 3 });
+    });
+
+    it('should export every pair as CSV', () => {
+      const lines = exportConfusionsCsv(matrix).split('\n');
+
+      expect(lines[0]).toBe('clef,expected,played,count,mistake');
+      expect(lines).toContain('treble,F#4,F4,2,missedAccidental');
+      expect(lines).toContain('treble,F#4,F#4,1,correct');
+      expect(lines).toHaveLength(5);
+    });
+
+    it('should mark heard notes in the CSV', () => {
+      const heard = recordConfusion({}, note('F#4'), pitchToMidi('F4'), 'heard');
+
+      expect(exportConfusionsCsv(heard).split('\n')[1]).toBe('heard,F#4,F4,1,other');
+    });
+  });
+
+  describe('game', () => {
+    const settings: GameSettings = {
+      ...DEFAULT_SETTINGS,
+      mode: 'reading',
+      difficulty: 'beginner',
+      clef: 'treble',
+      sequenceLength: 4,
+      keySignature: 'C',
+    };
+
+    it('should record what was played instead of the expected note', () => {
+      let snapshot = startGame(settings, 0, 3);
+      const expected = snapshot.sequence[0];
+
+      snapshot = handleInput(snapshot, expected.midi + 1, settings, 0, 500);
+
+      expect(snapshot.confusions).toEqual({
+        [`treble:${expected.pitch}`]: { [expected.midi + 1]: 1 },
+      });
+    });
+
+    it('should record a heard note without its clef', () => {
+      const hearing = { ...settings, mode: 'hearing' as const };
+      let snapshot = startGame(hearing, 0, 3);
+      const expected = snapshot.sequence[0];
+
+      snapshot = handleInput(snapshot, expected.midi + 1, hearing, 0, 500);
+
+      expect(snapshot.confusions).toEqual({
+        [`heard:${expected.pitch}`]: { [expected.midi + 1]: 1 },
+      });
+    });
+  });
+});
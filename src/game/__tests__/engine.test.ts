@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { gameReducer, replayGame, GameAction, GameState, INITIAL_GAME_STATE } from '../engine';
+import { LEAD_IN_BEATS, getBeatMs } from '../timing';
+import { DEFAULT_SETTINGS, GameSettings } from '../types';
+
+const settings: GameSettings = {
+  ...DEFAULT_SETTINGS,
+  mode: 'reading',
+  difficulty: 'beginner',
+  clef: 'treble',
+  lives: 3,
+  sequenceLength: 5,
+};
+
+function run(actions: GameAction[]): GameState {
+  return actions.reduce(gameReducer, INITIAL_GAME_STATE);
+}
+
+describe('Game Engine', () => {
+  it('should start a game at the time of the start action', () => {
+    const state = run([{ type: 'start', at: 1000, settings, seed: 1 }]);
+
+    expect(state.snapshot?.startedAt).toBe(1000);
+    expect(state.snapshot?.seed).toBe(1);
+    expect(state.snapshot?.expectingNoteSince).toBe(1000);
+    expect(state.snapshot?.sequence).toHaveLength(5);
+    expect(state.settings).toBe(settings);
+    expect(state.log).toHaveLength(1);
+  });
+
+  it('should ignore actions before a game starts', () => {
+    const state = run([{ type: 'noteOn', at: 1000, midi: 60 }]);
+
+    expect(state).toBe(INITIAL_GAME_STATE);
+  });
+
+  it('should measure response times from the action times', () => {
+    const started = run([{ type: 'start', at: 1000, settings, seed: 1 }]);
+    const midi = started.snapshot!.sequence[0].midi;
+    const state = gameReducer(started, { type: 'noteOn', at: 2500, midi });
+
+    expect(state.snapshot?.correct).toBe(1);
+    expect(state.snapshot?.avgMsPerNote).toBe(1500);
+    expect(state.snapshot?.expectingNoteSince).toBe(2500);
+  });
+
+  it('should not log actions that change nothing', () => {
+    const state = run([
+      { type: 'start', at: 0, settings, seed: 1 },
+      { type: 'pause', at: 100 },
+      { type: 'noteOn', at: 200, midi: 60 },
+      { type: 'pause', at: 300 },
+      { type: 'clearFlash', at: 400 },
+    ]);
+
+    expect(state.log.map((action) => action.type)).toEqual(['start', 'pause']);
+    expect(state.snapshot?.attempts).toBe(0);
+    expect(state.snapshot?.pausedAt).toBe(100);
+  });
+
+  it('should move the beat by the length of a pause in timed modes', () => {
+    const timed: GameSettings = { ...settings, mode: 'timed', tempoBpm: 60 };
+    const state = run([
+      { type: 'start', at: 0, settings: timed, seed: 1 },
+      { type: 'pause', at: 500 },
+      { type: 'resume', at: 3500 },
+    ]);
+
+    expect(state.snapshot?.beatZeroAt).toBe(LEAD_IN_BEATS * getBeatMs(60) + 3000);
+    expect(state.snapshot?.isPaused).toBe(false);
+  });
+
+  it('should miss notes that pass the playhead on a tick', () => {
+    const timed: GameSettings = { ...settings, mode: 'timed', tempoBpm: 60 };
+    const firstNoteAt = LEAD_IN_BEATS * getBeatMs(60);
+    const state = run([
+      { type: 'start', at: 0, settings: timed, seed: 1 },
+      { type: 'tick', at: firstNoteAt + 1000 },
+    ]);
+
+    expect(state.snapshot?.timingResults.missed).toBe(1);
+    expect(state.snapshot?.lives).toBe(2);
+  });
+
+  it('should keep the log of a game after quitting it', () => {
+    const state = run([
+      { type: 'start', at: 0, settings, seed: 1 },
+      { type: 'quit', at: 100 },
+    ]);
+
+    expect(state.snapshot).toBeNull();
+    expect(state.log.map((action) => action.type)).toEqual(['start', 'quit']);
+  });
+
+  it('should start a new log with every game', () => {
+    const state = run([
+      { type: 'start', at: 0, settings, seed: 1 },
+      { type: 'noteOn', at: 100, midi: 60 },
+      { type: 'start', at: 200, settings, seed: 1 },
+    ]);
+
+    expect(state.log).toEqual([{ type: 'start', at: 200, settings, seed: 1 }]);
+  });
+
+  it('should replay a logged game exactly', () => {
+    let state = gameReducer(INITIAL_GAME_STATE, { type: 'start', at: 0, settings, seed: 1 });
+
+    // Play the first two notes right, then a wrong one, which brings a new sequence
+    const first = state.snapshot!.sequence[0].midi;
+    state = gameReducer(state, { type: 'noteOn', at: 800, midi: first });
+    const second = state.snapshot!.sequence[1].midi;
+    state = gameReducer(state, { type: 'noteOn', at: 1700, midi: second });
+    const wrong = state.snapshot!.sequence[2].midi + 1;
+    state = gameReducer(state, { type: 'noteOn', at: 2100, midi: wrong });
+    state = gameReducer(state, { type: 'clearFlash', at: 2600 });
+
+    const replayed = replayGame(state.log);
+
+    expect(replayed.snapshot).toEqual(state.snapshot);
+    expect(replayed.log).toEqual(state.log);
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addCards,
+  answerFlashcard,
+  buildReviewQueue,
+  createCard,
+  Flashcard,
+  FlashcardDeck,
+  getCardId,
+  getCardNote,
+  getDeckCardIds,
+  getRecallGrade,
+  scheduleCard,
+  startFlashcardSession,
+} from '../flashcards';
+import { DEFAULT_SETTINGS, GameSettings } from '../types';
+import { pitchToMidi } from '../mapping';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 0, 15, 12).getTime(); // midday, local time
+
+const settings: GameSettings = {
+  ...DEFAULT_SETTINGS,
+  difficulty: 'beginner',
+  clef: 'treble',
+  allowDoubleAccidentals: false,
+};
+
+function deckOf(cards: Flashcard[]): FlashcardDeck {
+  return Object.fromEntries(cards.map((card) => [card.id, card]));
+}
+
+describe('Flashcards', () => {
+  describe('getDeckCardIds', () => {
+    it('should make a card of every natural for a naturals-only difficulty', () => {
+      const ids = getDeckCardIds(settings);
+
+      expect(ids).toContain('treble:C4');
+      expect(ids).toContain('treble:C5');
+      expect(ids.every((id) => !id.includes('#') && !/[a-z]b\d/.test(id))).toBe(true);
+    });
+
+    it('should make a card of each spelling when the difficulty has accidentals', () => {
+      const ids = getDeckCardIds({ ...settings, difficulty: 'intermediate' });
+
+      expect(ids).toContain('treble:F#4');
+      expect(ids).toContain('treble:Gb4');
+      expect(ids).not.toContain('treble:E#4');
+      expect(ids).not.toContain('treble:Cb5');
+    });
+
+    it('should add the unusual spellings with double accidentals', () => {
+      const ids = getDeckCardIds({
+        ...settings,
+        difficulty: 'intermediate',
+        allowDoubleAccidentals: true,
+      });
+
+      expect(ids).toContain('treble:E#4');
+      expect(ids).toContain('treble:F##4');
+    });
+
+    it('should make cards for each practised clef', () => {
+      const ids = getDeckCardIds({ ...settings, clef: 'both' });
+
+      expect(ids.some((id) => id.startsWith('treble:'))).toBe(true);
+      expect(ids.some((id) => id.startsWith('bass:'))).toBe(true);
+    });
+  });
+
+  describe('addCards', () => {
+    it('should keep the cards the deck already has', () => {
+      const reviewed = scheduleCard(createCard('treble', 'C4'), 5, NOW);
+      const deck = addCards(deckOf([reviewed]), ['treble:C4', 'treble:D4']);
+
+      expect(deck['treble:C4']).toBe(reviewed);
+      expect(deck['treble:D4']).toEqual(createCard('treble', 'D4'));
+    });
+  });
+
+  describe('getRecallGrade', () => {
+    it('should grade quicker answers higher', () => {
+      expect(getRecallGrade(true, 900)).toBe(5);
+      expect(getRecallGrade(true, 2500)).toBe(4);
+      expect(getRecallGrade(true, 6000)).toBe(3);
+      expect(getRecallGrade(false, 900)).toBe(1);
+    });
+  });
+
+  describe('scheduleCard', () => {
+    it('should space the reviews of a recalled card out', () => {
+      let card = scheduleCard(createCard('bass', 'G2'), 5, NOW);
+      expect(card.intervalDays).toBe(1);
+      expect(card.dueAt).toBe(NOW + DAY_MS);
+      expect(card.introducedAt).toBe(NOW);
+
+      card = scheduleCard(card, 5, NOW + DAY_MS);
+      expect(card.intervalDays).toBe(6);
+
+      card = scheduleCard(card, 5, NOW + 7 * DAY_MS);
+      expect(card.intervalDays).toBe(Math.round(6 * card.ease));
+      expect(card.repetitions).toBe(3);
+      expect(card.introducedAt).toBe(NOW);
+    });
+
+    it('should start a forgotten card over and count the lapse', () => {
+      let card = scheduleCard(createCard('treble', 'A4'), 5, NOW);
+      card = scheduleCard(card, 5, NOW + DAY_MS);
+      card = scheduleCard(card, 1, NOW + 7 * DAY_MS);
+
+      expect(card.repetitions).toBe(0);
+      expect(card.intervalDays).toBe(1);
+      expect(card.lapses).toBe(1);
+    });
+
+    it('should lower the ease of hard cards no further than its floor', () => {
+      let card = createCard('treble', 'A4');
+      for (let i = 0; i < 10; i++) {
+        card = scheduleCard(card, 1, NOW);
+      }
+      expect(card.ease).toBeCloseTo(1.3);
+    });
+  });
+
+  describe('buildReviewQueue', () => {
+    const ids = ['treble:C4', 'treble:D4', 'treble:E4', 'treble:F4'];
+
+    it('should put due cards first, most overdue first, then new cards', () => {
+      const deck = deckOf([
+        createCard('treble', 'C4'),
+        { ...createCard('treble', 'D4'), dueAt: NOW - 1000, introducedAt: NOW - 9 * DAY_MS },
+        { ...createCard('treble', 'E4'), dueAt: NOW - DAY_MS, introducedAt: NOW - 9 * DAY_MS },
+        { ...createCard('treble', 'F4'), dueAt: NOW + 3 * DAY_MS, introducedAt: NOW - 9 * DAY_MS },
+      ]);
+
+      expect(buildReviewQueue(deck, ids, NOW)).toEqual(['treble:E4', 'treble:D4', 'treble:C4']);
+    });
+
+    it('should hold new cards to the daily limit, counting those started today', () => {
+      const deck = deckOf([
+        { ...createCard('treble', 'C4'), dueAt: NOW + DAY_MS, introducedAt: NOW - 1000 },
+        createCard('treble', 'D4'),
+        createCard('treble', 'E4'),
+        createCard('treble', 'F4'),
+      ]);
+
+      expect(buildReviewQueue(deck, ids, NOW, 3)).toEqual(['treble:D4', 'treble:E4']);
+      expect(buildReviewQueue(deck, ids, NOW + DAY_MS, 3)).toEqual([
+        'treble:C4',
+        'treble:D4',
+        'treble:E4',
+        'treble:F4',
+      ]);
+    });
+  });
+
+  describe('answerFlashcard', () => {
+    const id = getCardId('treble', 'G4');
+    const deck = deckOf([createCard('treble', 'G4'), createCard('treble', 'A4')]);
+
+    it('should schedule a quickly recalled card and move on', () => {
+      const session = startFlashcardSession([id, 'treble:A4'], NOW);
+      const answered = answerFlashcard(deck, session, pitchToMidi('G4'), NOW + 800);
+
+      expect(answered.session.queue).toEqual(['treble:A4']);
+      expect(answered.session.correct).toBe(1);
+      expect(answered.session.lastReview).toEqual({
+        cardId: id,
+        isCorrect: true,
+        grade: 5,
+        intervalDays: 1,
+      });
+      expect(answered.deck[id].dueAt).toBe(NOW + 800 + DAY_MS);
+    });
+
+    it('should ask a missed card again until it is recalled', () => {
+      let state = { deck, session: startFlashcardSession([id, 'treble:A4'], NOW) };
+      state = answerFlashcard(state.deck, state.session, pitchToMidi('F4'), NOW + 800);
+
+      expect(state.session.flashError).toBe(true);
+      expect(state.session.queue).toEqual(['treble:A4', id]);
+      expect(state.deck[id].repetitions).toBe(0);
+
+      state = answerFlashcard(state.deck, state.session, pitchToMidi('A4'), NOW + 1600);
+      const scheduled = state.deck[id];
+      state = answerFlashcard(state.deck, state.session, pitchToMidi('G4'), NOW + 2400);
+
+      // Only the first answer of the day schedules the card
+      expect(state.deck[id]).toBe(scheduled);
+      expect(state.session.queue).toEqual([]);
+      expect(state.session.reviewed).toBe(3);
+    });
+
+    it('should do nothing once the queue is empty', () => {
+      const session = startFlashcardSession([], NOW);
+      expect(answerFlashcard(deck, session, 60, NOW)).toEqual({ deck, session });
+    });
+  });
+
+  describe('getCardNote', () => {
+    it('should show the card spelled as stored', () => {
+      const note = getCardNote(createCard('alto', 'Db4'));
+
+      expect(note.midi).toBe(pitchToMidi('C#4'));
+      expect(note.clef).toBe('alto');
+      expect(note.accidental).toBe('b');
+    });
+  });
+});
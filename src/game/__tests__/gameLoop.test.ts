@@ -1,19 +1,30 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { startGame, handleInput, pauseGame, resumeGame, getAccuracy } from '../gameLoop';
-import { GameSettings } from '../types';
+import {
+  startGame,
+  handleInput,
+  pauseGame,
+  resumeGame,
+  getAccuracy,
+  expirePendingChord,
+  registerDictationPlayback,
+  getRemainingPlaybacks,
+  tickTimedGame,
+  handleNoteOff,
+} from '../gameLoop';
+import { LEAD_IN_BEATS, getBeatMs } from '../timing';
+import { getTargetMidis } from '../chordGen';
+import { midiToPitch } from '../mapping';
+import { DEFAULT_SETTINGS, GameSettings, GameSnapshot, NoteSpec } from '../types';
 
 describe('Game Loop', () => {
   let settings: GameSettings;
 
   beforeEach(() => {
     settings = {
+      ...DEFAULT_SETTINGS,
       mode: 'reading',
       difficulty: 'beginner',
       clef: 'treble',
-      lives: 3,
-      sequenceLength: 5,
-      allowDoubleAccidentals: false,
-      enableFallbackPiano: false,
     };
   });
 
@@ -36,6 +47,20 @@ describe('Game Loop', () => {
       const snapshot = startGame({ ...settings, lives: 5 });
       expect(snapshot.lives).toBe(5);
     });
+
+    it('should play the same notes from the same seed', () => {
+      let first = startGame(settings, 0, 2024);
+      let second = startGame(settings, 0, 2024);
+
+      expect(first.seed).toBe(2024);
+      expect(second.sequence).toEqual(first.sequence);
+
+      // A mistake brings the same new sequence in both games
+      const wrong = first.sequence[0].midi + 1;
+      first = handleInput(first, wrong, settings, 0, 500);
+      second = handleInput(second, wrong, settings, 0, 900);
+      expect(second.sequence).toEqual(first.sequence);
+    });
   });
 
   describe('handleInput - correct note', () => {
@@ -101,6 +126,28 @@ describe('Game Loop', () => {
     });
   });
 
+  describe('handleInput - latency', () => {
+    it('should take the calibrated latency off the response time', () => {
+      const snapshot = startGame(settings);
+      const shown = { ...snapshot, expectingNoteSince: performance.now() - 500 };
+
+      const result = handleInput(shown, shown.sequence[0].midi, settings, 200);
+
+      expect(result.avgMsPerNote).toBeGreaterThanOrEqual(300);
+      expect(result.avgMsPerNote).toBeLessThan(400);
+    });
+
+    it('should time the next prompt from when it really appears', () => {
+      const snapshot = startGame(settings);
+      const before = performance.now();
+
+      const result = handleInput(snapshot, snapshot.sequence[0].midi, settings, 200);
+
+      expect(result.expectingNoteSince).toBeGreaterThanOrEqual(before);
+      expect(result.expectingNoteSince).toBeLessThanOrEqual(performance.now());
+    });
+  });
+
   describe('handleInput - incorrect note', () => {
     it('should decrement lives on incorrect input', () => {
       let snapshot = startGame(settings);
@@ -195,6 +242,487 @@ describe('Game Loop', () => {
     });
   });
 
+  describe('handleInput - chords', () => {
+    let chordSettings: GameSettings;
+
+    beforeEach(() => {
+      chordSettings = { ...settings, mode: 'chords' };
+    });
+
+    it('should wait until every chord tone is played', () => {
+      let snapshot = startGame(chordSettings);
+      const [first, ...rest] = getTargetMidis(snapshot.sequence[0]);
+
+      snapshot = handleInput(snapshot, first, chordSettings);
+
+      expect(snapshot.pendingNotes).toEqual([first]);
+      expect(snapshot.attempts).toBe(0);
+      expect(snapshot.currentIndex).toBe(0);
+
+      rest.forEach((midi) => {
+        snapshot = handleInput(snapshot, midi, chordSettings);
+      });
+
+      expect(snapshot.currentIndex).toBe(1);
+      expect(snapshot.correct).toBe(1);
+      expect(snapshot.attempts).toBe(1);
+      expect(snapshot.pendingNotes).toEqual([]);
+      expect(snapshot.pendingSince).toBeNull();
+    });
+
+    it('should accept chord tones in any order', () => {
+      let snapshot = startGame(chordSettings);
+      const targets = getTargetMidis(snapshot.sequence[0]);
+
+      [...targets].reverse().forEach((midi) => {
+        snapshot = handleInput(snapshot, midi, chordSettings);
+      });
+
+      expect(snapshot.correct).toBe(1);
+    });
+
+    it('should judge the chord wrong as soon as a foreign note arrives', () => {
+      let snapshot = startGame(chordSettings);
+      const targets = getTargetMidis(snapshot.sequence[0]);
+      const foreign = Math.max(...targets) + 1;
+
+      snapshot = handleInput(snapshot, targets[0], chordSettings);
+      snapshot = handleInput(snapshot, foreign, chordSettings);
+
+      expect(snapshot.lives).toBe(2);
+      expect(snapshot.attempts).toBe(1);
+      expect(snapshot.pendingNotes).toEqual([]);
+    });
+
+    it('should record a wrong note against the nearest tone not yet played', () => {
+      let snapshot = startGame(chordSettings);
+      const { clef, chord } = snapshot.sequence[0];
+      const lowest = chord!.tones[0];
+      const highest = chord!.tones[chord!.tones.length - 1];
+
+      snapshot = handleInput(snapshot, lowest.midi, chordSettings);
+      snapshot = handleInput(snapshot, highest.midi + 1, chordSettings);
+
+      expect(snapshot.confusions).toEqual({
+        [`${clef}:${lowest.pitch}`]: { [lowest.midi]: 1 },
+        [`${clef}:${highest.pitch}`]: { [highest.midi + 1]: 1 },
+      });
+    });
+
+    it('should record one note result per judged chord', () => {
+      let snapshot = startGame(chordSettings, 0);
+      const expected = snapshot.sequence[0];
+
+      getTargetMidis(expected).forEach((midi) => {
+        snapshot = handleInput(snapshot, midi, chordSettings, 0, 800);
+      });
+
+      expect(snapshot.noteResults[`${expected.clef}:${expected.pitch}`]).toEqual({
+        attempts: 1,
+        correct: 1,
+        timedCorrect: 1,
+        totalMs: 800,
+      });
+    });
+
+    it('should ignore repeated note-ons of a pending tone', () => {
+      let snapshot = startGame(chordSettings);
+      const targets = getTargetMidis(snapshot.sequence[0]);
+
+      snapshot = handleInput(snapshot, targets[0], chordSettings);
+      snapshot = handleInput(snapshot, targets[0], chordSettings);
+
+      expect(snapshot.pendingNotes).toEqual([targets[0]]);
+      expect(snapshot.lives).toBe(3);
+    });
+
+    it('should judge an incomplete chord wrong once the window expires', () => {
+      let snapshot = startGame(chordSettings);
+      const targets = getTargetMidis(snapshot.sequence[0]);
+
+      snapshot = handleInput(snapshot, targets[0], chordSettings);
+      const pendingSince = snapshot.pendingSince!;
+
+      // Still inside the window: nothing happens
+      expect(expirePendingChord(snapshot, chordSettings, pendingSince + 100)).toBe(snapshot);
+
+      snapshot = expirePendingChord(snapshot, chordSettings, pendingSince + 300);
+
+      expect(snapshot.lives).toBe(2);
+      expect(snapshot.attempts).toBe(1);
+      expect(snapshot.pendingSince).toBeNull();
+    });
+
+    it('should start a new chord with a note that comes after the window', () => {
+      let snapshot = startGame(chordSettings, 0);
+      const [first] = getTargetMidis(snapshot.sequence[0]);
+      snapshot = handleInput(snapshot, first, chordSettings, 0, 100);
+
+      // The late chord costs a life and brings a new sequence; the note starts its first chord
+      const expired = expirePendingChord(snapshot, chordSettings, 1000);
+      const next = getTargetMidis(expired.sequence[0])[0];
+      snapshot = handleInput(snapshot, next, chordSettings, 0, 1000);
+
+      expect(snapshot.lives).toBe(2);
+      expect(snapshot.attempts).toBe(1);
+      expect(snapshot.sequence).toEqual(expired.sequence);
+      expect(snapshot.pendingNotes).toEqual([next]);
+      expect(snapshot.pendingSince).toBe(1000);
+    });
+
+    it('should drop pending chord tones on pause', () => {
+      let snapshot = startGame(chordSettings);
+      const targets = getTargetMidis(snapshot.sequence[0]);
+
+      snapshot = handleInput(snapshot, targets[0], chordSettings);
+      snapshot = pauseGame(snapshot);
+
+      expect(snapshot.pendingNotes).toEqual([]);
+      expect(snapshot.pendingSince).toBeNull();
+    });
+  });
+
+  describe('handleInput - intervals', () => {
+    let intervalSettings: GameSettings;
+
+    beforeEach(() => {
+      intervalSettings = { ...settings, mode: 'intervals' };
+    });
+
+    it('should judge the answer on its second note', () => {
+      let snapshot = startGame(intervalSettings);
+      const interval = snapshot.sequence[0].interval!;
+
+      snapshot = handleInput(snapshot, interval.answerStartMidi, intervalSettings);
+
+      expect(snapshot.pendingNotes).toEqual([interval.answerStartMidi]);
+      expect(snapshot.attempts).toBe(0);
+
+      snapshot = handleInput(
+        snapshot,
+        interval.answerStartMidi + interval.semitones,
+        intervalSettings
+      );
+
+      expect(snapshot.currentIndex).toBe(1);
+      expect(snapshot.correct).toBe(1);
+      expect(snapshot.pendingNotes).toEqual([]);
+      expect(snapshot.intervalResults[interval.name]).toEqual({ attempts: 1, correct: 1 });
+    });
+
+    it('should reject a wrong starting note straight away', () => {
+      let snapshot = startGame(intervalSettings);
+      const interval = snapshot.sequence[0].interval!;
+
+      snapshot = handleInput(snapshot, interval.answerStartMidi + 1, intervalSettings);
+
+      expect(snapshot.lives).toBe(2);
+      expect(snapshot.intervalResults[interval.name]).toEqual({ attempts: 1, correct: 0 });
+    });
+
+    it('should record a wrong answer against the note it should have reached', () => {
+      let snapshot = startGame(intervalSettings);
+      const interval = snapshot.sequence[0].interval!;
+      const target = interval.answerStartMidi + interval.semitones;
+
+      snapshot = handleInput(snapshot, interval.answerStartMidi, intervalSettings);
+      snapshot = handleInput(snapshot, target + 1, intervalSettings);
+
+      expect(snapshot.confusions).toEqual({
+        [`heard:${midiToPitch(target)}`]: { [target + 1]: 1 },
+      });
+    });
+
+    it('should record one note result per judged answer', () => {
+      let snapshot = startGame(intervalSettings, 0);
+      const expected = snapshot.sequence[0];
+
+      snapshot = handleInput(snapshot, expected.interval!.answerStartMidi + 1, intervalSettings);
+
+      expect(snapshot.noteResults).toEqual({
+        [`${expected.clef}:${expected.pitch}`]: {
+          attempts: 1,
+          correct: 0,
+          timedCorrect: 0,
+          totalMs: 0,
+        },
+      });
+    });
+
+    it('should accept any starting note for transposed answers', () => {
+      const transposed = { ...intervalSettings, transposedAnswer: true };
+      let snapshot = startGame(transposed);
+      const interval = snapshot.sequence[0].interval!;
+      const start = interval.answerStartMidi + 1;
+
+      snapshot = handleInput(snapshot, start, transposed);
+      snapshot = handleInput(snapshot, start + interval.semitones, transposed);
+
+      expect(snapshot.correct).toBe(1);
+    });
+  });
+
+  describe('handleInput - dictation', () => {
+    let dictationSettings: GameSettings;
+
+    beforeEach(() => {
+      dictationSettings = { ...settings, mode: 'dictation' };
+    });
+
+    it('should wait for the whole phrase before judging', () => {
+      let snapshot = startGame(dictationSettings);
+      const [first, second] = snapshot.sequence;
+
+      snapshot = handleInput(snapshot, first.midi, dictationSettings);
+      snapshot = handleInput(snapshot, second.midi, dictationSettings);
+
+      expect(snapshot.pendingNotes).toEqual([first.midi, second.midi]);
+      expect(snapshot.attempts).toBe(0);
+      expect(snapshot.score).toBe(0);
+    });
+
+    it('should score a perfect phrase and start a new one', () => {
+      let snapshot = startGame(dictationSettings);
+      const phrase = snapshot.sequence;
+
+      phrase.forEach((note) => {
+        snapshot = handleInput(snapshot, note.midi, dictationSettings);
+      });
+
+      expect(snapshot.correct).toBe(5);
+      expect(snapshot.attempts).toBe(5);
+      expect(snapshot.score).toBe(50);
+      expect(snapshot.streak).toBe(1);
+      expect(snapshot.lives).toBe(3);
+      expect(snapshot.dictationMarks).toEqual([true, true, true, true, true]);
+      expect(snapshot.sequence).not.toBe(phrase);
+      expect(snapshot.sequenceNumber).toBe(1);
+    });
+
+    it('should give partial credit and take a life for a flawed phrase', () => {
+      let snapshot = startGame(dictationSettings);
+
+      snapshot.sequence.forEach((note, index) => {
+        const midi = index === 2 ? note.midi + 1 : note.midi;
+        snapshot = handleInput(snapshot, midi, dictationSettings);
+      });
+
+      expect(snapshot.correct).toBe(4);
+      expect(snapshot.attempts).toBe(5);
+      expect(snapshot.score).toBe(40);
+      expect(snapshot.streak).toBe(0);
+      expect(snapshot.lives).toBe(2);
+      expect(snapshot.dictationMarks).toEqual([true, true, false, true, true]);
+    });
+
+    it('should limit the number of playbacks', () => {
+      let snapshot = startGame(dictationSettings);
+
+      expect(getRemainingPlaybacks(snapshot, dictationSettings)).toBe(3);
+
+      for (let i = 0; i < 3; i++) {
+        snapshot = registerDictationPlayback(snapshot, dictationSettings);
+      }
+
+      expect(getRemainingPlaybacks(snapshot, dictationSettings)).toBe(0);
+      expect(registerDictationPlayback(snapshot, dictationSettings)).toBe(snapshot);
+    });
+  });
+
+  describe('handleInput - timed', () => {
+    let timedSettings: GameSettings;
+    const beatMs = getBeatMs(72);
+
+    beforeEach(() => {
+      timedSettings = { ...settings, mode: 'timed', tempoBpm: 72, timingWindowMs: 100 };
+    });
+
+    it('should start after a count-in', () => {
+      const snapshot = startGame(timedSettings);
+
+      expect(snapshot.beatZeroAt).toBeCloseTo(snapshot.startedAt + LEAD_IN_BEATS * beatMs);
+    });
+
+    it('should only score notes played on the beat', () => {
+      // Make the first note due right now
+      let snapshot: GameSnapshot = { ...startGame(timedSettings), beatZeroAt: performance.now() };
+
+      snapshot = handleInput(snapshot, snapshot.sequence[0].midi, timedSettings);
+
+      expect(snapshot.timingResults.onTime).toBe(1);
+      expect(snapshot.correct).toBe(1);
+      expect(snapshot.score).toBe(10);
+      expect(snapshot.currentIndex).toBe(1);
+    });
+
+    it('should count early and late notes without scoring them', () => {
+      let early: GameSnapshot = {
+        ...startGame(timedSettings),
+        beatZeroAt: performance.now() + 300,
+      };
+      early = handleInput(early, early.sequence[0].midi, timedSettings);
+
+      let late: GameSnapshot = {
+        ...startGame(timedSettings),
+        beatZeroAt: performance.now() - 300,
+      };
+      late = handleInput(late, late.sequence[0].midi, timedSettings);
+
+      expect(early.timingResults.early).toBe(1);
+      expect(late.timingResults.late).toBe(1);
+      [early, late].forEach((snapshot) => {
+        expect(snapshot.correct).toBe(0);
+        expect(snapshot.attempts).toBe(1);
+        expect(snapshot.lives).toBe(3);
+        expect(snapshot.currentIndex).toBe(1);
+      });
+    });
+
+    it('should count a wrong pitch as a missed note', () => {
+      let snapshot: GameSnapshot = { ...startGame(timedSettings), beatZeroAt: performance.now() };
+
+      snapshot = handleInput(snapshot, snapshot.sequence[0].midi + 1, timedSettings);
+
+      expect(snapshot.timingResults.missed).toBe(1);
+      expect(snapshot.lives).toBe(2);
+      expect(snapshot.noteTimings).toEqual(['missed']);
+    });
+
+    it('should mark notes that passed the playhead as missed', () => {
+      const snapshot = startGame(timedSettings);
+      const beatZeroAt = snapshot.beatZeroAt!;
+
+      // Nothing is missed before the first note's window closes
+      expect(tickTimedGame(snapshot, timedSettings, beatZeroAt + 100)).toBe(snapshot);
+
+      const ticked = tickTimedGame(snapshot, timedSettings, beatZeroAt + 1.6 * beatMs);
+
+      expect(ticked.noteTimings).toEqual(['missed', 'missed']);
+      expect(ticked.currentIndex).toBe(2);
+      expect(ticked.lives).toBe(1);
+    });
+
+    it('should keep the pulse going into the next sequence', () => {
+      const patientSettings = { ...timedSettings, lives: 10 };
+      const snapshot = startGame(patientSettings);
+      const beatZeroAt = snapshot.beatZeroAt!;
+
+      const ticked = tickTimedGame(snapshot, patientSettings, beatZeroAt + 5 * beatMs);
+
+      expect(ticked.sequenceNumber).toBe(1);
+      expect(ticked.noteTimings).toEqual([]);
+      expect(ticked.beatZeroAt).toBeCloseTo(beatZeroAt + 5 * beatMs);
+    });
+
+    it('should judge a late-arriving note by its calibrated latency', () => {
+      const dueNow: GameSnapshot = { ...startGame(timedSettings), beatZeroAt: performance.now() };
+      const arrivedLate = { ...dueNow, beatZeroAt: dueNow.beatZeroAt! - 300 };
+
+      const uncalibrated = handleInput(arrivedLate, arrivedLate.sequence[0].midi, timedSettings);
+      const calibrated = handleInput(arrivedLate, arrivedLate.sequence[0].midi, timedSettings, 300);
+
+      expect(uncalibrated.timingResults.late).toBe(1);
+      expect(calibrated.timingResults.onTime).toBe(1);
+      expect(calibrated.beatZeroAt).toBe(arrivedLate.beatZeroAt);
+    });
+
+    it('should move the beat by the time spent paused', () => {
+      const snapshot = startGame(timedSettings);
+      const paused = pauseGame(snapshot);
+      const resumed = resumeGame(paused);
+
+      expect(resumed.beatZeroAt! - snapshot.beatZeroAt!).toBeCloseTo(
+        resumed.expectingNoteSince - paused.pausedAt!
+      );
+    });
+  });
+
+  describe('handleInput - rhythm', () => {
+    let rhythmSettings: GameSettings;
+    const beatMs = getBeatMs(72);
+
+    const quarter = (midi: number, extra: Partial<NoteSpec> = {}): NoteSpec => ({
+      midi,
+      pitch: 'C4',
+      vexKey: 'c/4',
+      clef: 'treble',
+      duration: 'q',
+      beats: 1,
+      timeSignature: '4/4',
+      ...extra,
+    });
+
+    // A fixed bar with its first note due right now
+    const startBar = (sequence: NoteSpec[]): GameSnapshot => ({
+      ...startGame(rhythmSettings),
+      sequence,
+      currentIndex: 0,
+      noteTimings: [],
+      beatZeroAt: performance.now(),
+    });
+
+    beforeEach(() => {
+      rhythmSettings = { ...settings, mode: 'rhythm', tempoBpm: 72, timingWindowMs: 100 };
+    });
+
+    it('should skip rests after a played note', () => {
+      let snapshot = startBar([quarter(60), quarter(71, { isRest: true }), quarter(62)]);
+
+      snapshot = handleInput(snapshot, 60, rhythmSettings);
+
+      expect(snapshot.currentIndex).toBe(2);
+      expect(snapshot.noteTimings).toEqual(['onTime', null]);
+    });
+
+    it('should judge how long a note was held', () => {
+      const snapshot = handleInput(startBar([quarter(60), quarter(62)]), 60, rhythmSettings);
+      const beatZeroAt = snapshot.beatZeroAt!;
+
+      expect(snapshot.heldNote?.midi).toBe(60);
+
+      const short = handleNoteOff(snapshot, 60, beatZeroAt + 0.3 * beatMs);
+      const held = handleNoteOff(snapshot, 60, beatZeroAt + 0.95 * beatMs);
+
+      expect(short.holdResults).toEqual({ held: 0, short: 1 });
+      expect(short.streak).toBe(0);
+      expect(held.holdResults).toEqual({ held: 1, short: 0 });
+      expect(held.streak).toBe(1);
+    });
+
+    it('should hold tied notes for their combined length', () => {
+      const sequence = [quarter(60, { tiedToNext: true }), quarter(60), quarter(62)];
+      const snapshot = handleInput(startBar(sequence), 60, rhythmSettings);
+      const beatZeroAt = snapshot.beatZeroAt!;
+
+      expect(snapshot.currentIndex).toBe(2);
+      expect(handleNoteOff(snapshot, 60, beatZeroAt + beatMs).holdResults.short).toBe(1);
+      expect(handleNoteOff(snapshot, 60, beatZeroAt + 2 * beatMs).holdResults.held).toBe(1);
+    });
+
+    it('should always give a note to play', () => {
+      // Seed 18 used to roll a single whole-bar rest
+      const snapshot = startGame(rhythmSettings, 0, 18);
+
+      expect(snapshot.currentIndex).toBeLessThan(snapshot.sequence.length);
+      expect(snapshot.sequence[snapshot.currentIndex].isRest).toBeFalsy();
+      expect(() => tickTimedGame(snapshot, rhythmSettings, 60000)).not.toThrow();
+    });
+
+    it('should wait when there is no current note', () => {
+      const snapshot = { ...startBar([quarter(71, { isRest: true })]), currentIndex: 1 };
+      const now = snapshot.beatZeroAt! + 10 * beatMs;
+
+      expect(tickTimedGame(snapshot, rhythmSettings, now)).toBe(snapshot);
+      expect(handleInput(snapshot, 60, rhythmSettings, 0, now)).toEqual(snapshot);
+    });
+
+    it('should ignore releases of other keys', () => {
+      const snapshot = handleInput(startBar([quarter(60), quarter(62)]), 60, rhythmSettings);
+
+      expect(handleNoteOff(snapshot, 61)).toBe(snapshot);
+    });
+  });
+
   describe('getAccuracy', () => {
     it('should calculate accuracy correctly', () => {
       let snapshot = startGame(settings);
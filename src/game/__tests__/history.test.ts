@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ALL_SESSIONS,
+  SessionRecord,
+  addSession,
+  createSessionRecord,
+  filterSessions,
+  getProgressPoints,
+  getWeakestNotes,
+  mergeNoteResults,
+  recordNoteAttempt,
+  summarizeSessions,
+} from '../history';
+import { handleInput, startGame } from '../gameLoop';
+import { DEFAULT_SETTINGS, GameSettings, NoteSpec } from '../types';
+import { pitchToMidi, pitchToVexKey } from '../mapping';
+
+function note(pitch: string, clef: NoteSpec['clef'] = 'treble'): NoteSpec {
+  return { midi: pitchToMidi(pitch), pitch, vexKey: pitchToVexKey(pitch), clef };
+}
+
+function session(endedAt: number, overrides: Partial<SessionRecord> = {}): SessionRecord {
+  return {
+    endedAt,
+    settings: DEFAULT_SETTINGS,
+    seed: 1,
+    durationSeconds: 60,
+    score: 100,
+    attempts: 10,
+    correct: 8,
+    accuracy: 80,
+    bestStreak: 5,
+    avgMsPerNote: 1500,
+    noteResults: {},
+    confusions: {},
+    ...overrides,
+  };
+}
+
+const settings: GameSettings = {
+  ...DEFAULT_SETTINGS,
+  mode: 'reading',
+  difficulty: 'beginner',
+  clef: 'treble',
+  sequenceLength: 4,
+  keySignature: 'C',
+};
+
+describe('Session History', () => {
+  describe('recordNoteAttempt', () => {
+    it('should count answers and time only the correct ones', () => {
+      let results = recordNoteAttempt({}, note('G4'), true, 1200);
+      results = recordNoteAttempt(results, note('G4'), false, 3000);
+      results = recordNoteAttempt(results, note('G4'), true, null);
+
+      expect(results['treble:G4']).toEqual({
+        attempts: 3,
+        correct: 2,
+        timedCorrect: 1,
+        totalMs: 1200,
+      });
+    });
+
+    it('should keep the same pitch on different clefs apart', () => {
+      const results = recordNoteAttempt({}, note('C4', 'bass'), true, 800);
+
+      expect(results['bass:C4'].attempts).toBe(1);
+      expect(results['treble:C4']).toBeUndefined();
+    });
+  });
+
+  describe('mergeNoteResults', () => {
+    it('should add up the results of each note', () => {
+      const first = recordNoteAttempt({}, note('A4'), true, 1000);
+      const second = recordNoteAttempt(
+        recordNoteAttempt({}, note('A4'), false, null),
+        note('B4'),
+        true,
+        500
+      );
+
+      expect(mergeNoteResults([first, second])).toEqual({
+        'treble:A4': { attempts: 2, correct: 1, timedCorrect: 1, totalMs: 1000 },
+        'treble:B4': { attempts: 1, correct: 1, timedCorrect: 1, totalMs: 500 },
+      });
+    });
+  });
+
+  describe('createSessionRecord', () => {
+    it('should keep the results of the game', () => {
+      let snapshot = startGame(settings, 0, 7);
+      snapshot = handleInput(snapshot, snapshot.sequence[0].midi, settings, 0, 900);
+      snapshot = handleInput(snapshot, 1, settings, 0, 2000);
+
+      const record = createSessionRecord(snapshot, settings, 2, 1_700_000_000_000);
+
+      expect(record.seed).toBe(7);
+      expect(record.settings).toBe(settings);
+      expect(record.attempts).toBe(2);
+      expect(record.correct).toBe(1);
+      expect(record.accuracy).toBe(50);
+      expect(record.avgMsPerNote).toBe(900);
+      expect(Object.values(record.noteResults).reduce((sum, r) => sum + r.attempts, 0)).toBe(2);
+    });
+  });
+
+  describe('addSession', () => {
+    it('should drop the oldest sessions past the limit', () => {
+      const history = [session(1), session(2)];
+      expect(addSession(history, session(3), 2).map(({ endedAt }) => endedAt)).toEqual([2, 3]);
+    });
+  });
+
+  describe('filterSessions', () => {
+    const history = [
+      session(3, { settings: { ...DEFAULT_SETTINGS, mode: 'hearing', clef: 'bass' } }),
+      session(1, { settings: { ...DEFAULT_SETTINGS, mode: 'reading', difficulty: 'advanced' } }),
+      session(2, { settings: { ...DEFAULT_SETTINGS, mode: 'reading', clef: 'bass' } }),
+    ];
+
+    it('should keep every session, oldest first, with no filter', () => {
+      expect(filterSessions(history, ALL_SESSIONS).map(({ endedAt }) => endedAt)).toEqual([
+        1, 2, 3,
+      ]);
+    });
+
+    it('should filter by mode, difficulty and clef together', () => {
+      const reading = { ...ALL_SESSIONS, mode: 'reading' as const };
+
+      expect(filterSessions(history, reading).map(({ endedAt }) => endedAt)).toEqual([1, 2]);
+      expect(
+        filterSessions(history, { ...reading, clef: 'bass' }).map(({ endedAt }) => endedAt)
+      ).toEqual([2]);
+      expect(filterSessions(history, { ...reading, difficulty: 'intermediate' })).toEqual([]);
+    });
+  });
+
+  describe('getProgressPoints', () => {
+    it('should leave out the speed of sessions without a correct note', () => {
+      const points = getProgressPoints([session(1), session(2, { correct: 0, accuracy: 0 })]);
+
+      expect(points).toEqual([
+        { endedAt: 1, accuracy: 80, avgMs: 1500 },
+        { endedAt: 2, accuracy: 0, avgMs: null },
+      ]);
+    });
+  });
+
+  describe('summarizeSessions', () => {
+    it('should weigh accuracy by the notes of each session', () => {
+      const summary = summarizeSessions([
+        session(1, { attempts: 30, correct: 30, bestStreak: 12 }),
+        session(2, { attempts: 10, correct: 0, durationSeconds: 30 }),
+      ]);
+
+      expect(summary).toEqual({
+        sessions: 2,
+        practiceSeconds: 90,
+        notes: 40,
+        accuracy: 75,
+        bestStreak: 12,
+      });
+    });
+  });
+
+  describe('getWeakestNotes', () => {
+    it('should list the most missed notes first, once played enough', () => {
+      let results = {};
+      for (let i = 0; i < 4; i++) {
+        results = recordNoteAttempt(results, note('E4'), i === 0, null);
+        results = recordNoteAttempt(results, note('F4'), i < 3, null);
+        results = recordNoteAttempt(results, note('G4'), true, null);
+      }
+      results = recordNoteAttempt(results, note('A4'), false, null);
+
+      const weakest = getWeakestNotes([session(1, { noteResults: results })], 5);
+
+      expect(weakest.map(({ key }) => key)).toEqual(['treble:E4', 'treble:F4']);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  INTERVAL_SEMITONES,
+  generateInterval,
+  getIntervalTarget,
+  judgeIntervalAnswer,
+  recordIntervalResult,
+} from '../intervals';
+import { DEFAULT_SETTINGS, GameSettings, IntervalSpec, DIFFICULTY_CONFIGS } from '../types';
+
+describe('Intervals', () => {
+  const settings: GameSettings = {
+    ...DEFAULT_SETTINGS,
+    mode: 'intervals',
+    difficulty: 'advanced',
+    clef: 'treble',
+    sequenceLength: 10,
+  };
+
+  // Descending major third from E4, answered from G4
+  const majorThirdDown: IntervalSpec = {
+    name: 'M3',
+    semitones: -4,
+    secondMidi: 60,
+    answerStartMidi: 67,
+  };
+
+  describe('generateInterval', () => {
+    it('should keep both notes of the prompt and the answer in range', () => {
+      const config = DIFFICULTY_CONFIGS.advanced;
+
+      for (let i = 0; i < 100; i++) {
+        const note = generateInterval(settings, config);
+        const { semitones, secondMidi, answerStartMidi } = note.interval!;
+
+        expect(config.intervals).toContain(note.interval!.name);
+        expect(Math.abs(semitones)).toBe(INTERVAL_SEMITONES[note.interval!.name]);
+        expect(secondMidi).toBe(note.midi + semitones);
+        [note.midi, secondMidi, answerStartMidi, answerStartMidi + semitones].forEach((midi) => {
+          expect(midi).toBeGreaterThanOrEqual(config.minMidi);
+          expect(midi).toBeLessThanOrEqual(config.maxMidi);
+        });
+      }
+    });
+
+    it('should only ascend when descending intervals are not allowed', () => {
+      for (let i = 0; i < 50; i++) {
+        const note = generateInterval(settings, DIFFICULTY_CONFIGS.beginner);
+        expect(note.interval!.semitones).toBeGreaterThan(0);
+      }
+    });
+
+    it('should always ascend for harmonic playback', () => {
+      const harmonic: GameSettings = { ...settings, intervalPlayback: 'harmonic' };
+
+      for (let i = 0; i < 50; i++) {
+        const note = generateInterval(harmonic, DIFFICULTY_CONFIGS.advanced);
+        expect(note.interval!.semitones).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe('judgeIntervalAnswer', () => {
+    it('should wait for the second note of a melodic answer', () => {
+      expect(judgeIntervalAnswer(majorThirdDown, [67], 'melodic', false)).toBe('pending');
+      expect(judgeIntervalAnswer(majorThirdDown, [67, 63], 'melodic', false)).toBe('correct');
+    });
+
+    it('should require the direction of a melodic interval', () => {
+      expect(judgeIntervalAnswer(majorThirdDown, [67, 71], 'melodic', false)).toBe('incorrect');
+    });
+
+    it('should reject a melodic answer from the wrong starting note', () => {
+      expect(judgeIntervalAnswer(majorThirdDown, [65], 'melodic', false)).toBe('incorrect');
+    });
+
+    it('should accept a transposed answer from any note', () => {
+      expect(judgeIntervalAnswer(majorThirdDown, [50], 'melodic', true)).toBe('pending');
+      expect(judgeIntervalAnswer(majorThirdDown, [50, 46], 'melodic', true)).toBe('correct');
+    });
+
+    it('should accept harmonic answers in either order', () => {
+      const majorThirdUp: IntervalSpec = { ...majorThirdDown, semitones: 4, secondMidi: 68 };
+
+      expect(judgeIntervalAnswer(majorThirdUp, [71, 67], 'harmonic', false)).toBe('correct');
+      expect(judgeIntervalAnswer(majorThirdUp, [67, 71], 'harmonic', false)).toBe('correct');
+      expect(judgeIntervalAnswer(majorThirdUp, [67, 70], 'harmonic', false)).toBe('incorrect');
+    });
+  });
+
+  describe('getIntervalTarget', () => {
+    it('should aim a wrong second note at the end of the interval', () => {
+      expect(getIntervalTarget(majorThirdDown, [67, 71], 'melodic', false).pitch).toBe('D#4');
+      expect(getIntervalTarget(majorThirdDown, [50, 45], 'melodic', true).midi).toBe(46);
+    });
+
+    it('should aim a wrong first note at the nearest note the answer can start from', () => {
+      const majorThirdUp: IntervalSpec = { ...majorThirdDown, semitones: 4, secondMidi: 68 };
+
+      expect(getIntervalTarget(majorThirdDown, [65], 'melodic', false).midi).toBe(67);
+      expect(getIntervalTarget(majorThirdUp, [72], 'harmonic', false).midi).toBe(71);
+    });
+
+    it('should aim a harmonic answer at the partner of its first note', () => {
+      const majorThirdUp: IntervalSpec = { ...majorThirdDown, semitones: 4, secondMidi: 68 };
+
+      expect(getIntervalTarget(majorThirdUp, [71, 66], 'harmonic', false).midi).toBe(67);
+      expect(getIntervalTarget(majorThirdUp, [50, 45], 'harmonic', true).midi).toBe(46);
+    });
+  });
+
+  describe('recordIntervalResult', () => {
+    it('should count attempts and correct answers per interval', () => {
+      let results = recordIntervalResult({}, 'P5', true);
+      results = recordIntervalResult(results, 'P5', false);
+      results = recordIntervalResult(results, 'm3', true);
+
+      expect(results.P5).toEqual({ attempts: 2, correct: 1 });
+      expect(results.m3).toEqual({ attempts: 1, correct: 1 });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  KEY_NAMES,
+  getKeyOffsets,
+  getDiatonicNotes,
+  getDisplayedAccidental,
+  isDiatonic,
+  resolveKey,
+} from '../keys';
+
+describe('Key Signatures', () => {
+  describe('getKeyOffsets', () => {
+    it('should have no accidentals in C major and A minor', () => {
+      expect(getKeyOffsets('C')).toEqual([0, 0, 0, 0, 0, 0, 0]);
+      expect(getKeyOffsets('Am')).toEqual([0, 0, 0, 0, 0, 0, 0]);
+    });
+
+    it('should add sharps in order F C G D A E B', () => {
+      // D major: F# and C#
+      expect(getKeyOffsets('D')).toEqual([1, 0, 0, 1, 0, 0, 0]);
+      expect(getKeyOffsets('C#')).toEqual([1, 1, 1, 1, 1, 1, 1]);
+    });
+
+    it('should add flats in order B E A D G C F', () => {
+      // Eb major and C minor: Bb, Eb, Ab
+      expect(getKeyOffsets('Eb')).toEqual([0, 0, -1, 0, 0, -1, -1]);
+      expect(getKeyOffsets('Cm')).toEqual(getKeyOffsets('Eb'));
+    });
+
+    it('should cover all 15 signatures in major and minor', () => {
+      expect(KEY_NAMES).toHaveLength(30);
+    });
+  });
+
+  describe('getDiatonicNotes', () => {
+    it('should list the G major scale spelled with F#', () => {
+      const notes = getDiatonicNotes('G', 60, 72);
+
+      expect(notes.map((note) => note.pitch)).toEqual([
+        'C4',
+        'D4',
+        'E4',
+        'F#4',
+        'G4',
+        'A4',
+        'B4',
+        'C5',
+      ]);
+    });
+
+    it('should spell notes across octave boundaries', () => {
+      // Cb major: Cb5 sounds as B4 (71)
+      const notes = getDiatonicNotes('Cb', 71, 72);
+
+      expect(notes.map((note) => note.pitch)).toEqual(['Cb5']);
+      expect(notes[0].midi).toBe(71);
+    });
+  });
+
+  describe('getDisplayedAccidental', () => {
+    it('should hide accidentals implied by the key', () => {
+      expect(getDisplayedAccidental(3, 1, 'G')).toBeUndefined(); // F# in G
+      expect(getDisplayedAccidental(6, -1, 'F')).toBeUndefined(); // Bb in F
+    });
+
+    it('should show accidentals that leave the key', () => {
+      expect(getDisplayedAccidental(3, 0, 'G')).toBe('n'); // F natural in G
+      expect(getDisplayedAccidental(3, 1, 'C')).toBe('#'); // F# in C
+      expect(getDisplayedAccidental(3, 2, 'G')).toBe('##'); // F## in G
+    });
+  });
+
+  describe('isDiatonic', () => {
+    it('should check a spelled note against the key', () => {
+      expect(isDiatonic(3, 1, 'D')).toBe(true);
+      expect(isDiatonic(3, 0, 'D')).toBe(false);
+    });
+  });
+
+  describe('resolveKey', () => {
+    it('should keep a fixed key', () => {
+      expect(resolveKey('Bbm')).toBe('Bbm');
+    });
+
+    it('should pick a real key for random', () => {
+      expect(KEY_NAMES).toContain(resolveKey('random'));
+    });
+  });
+});
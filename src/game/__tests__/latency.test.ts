@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateLatencyOffset,
+  getCalibrationBeats,
+  getLatencyOffsetMs,
+  isHeardPrompt,
+  CALIBRATION_INTERVAL_MS,
+  CALIBRATION_LEAD_IN,
+  CALIBRATION_TAPS,
+} from '../latency';
+import { DEFAULT_SETTINGS } from '../types';
+
+describe('Latency Calibration', () => {
+  const beats = getCalibrationBeats(1000);
+
+  describe('getCalibrationBeats', () => {
+    it('should start the tapped beats after the lead-in', () => {
+      expect(beats).toHaveLength(CALIBRATION_TAPS);
+      expect(beats[0]).toBe(1000 + CALIBRATION_LEAD_IN * CALIBRATION_INTERVAL_MS);
+      expect(beats[1] - beats[0]).toBe(CALIBRATION_INTERVAL_MS);
+    });
+  });
+
+  describe('calculateLatencyOffset', () => {
+    it('should take the median distance from taps to their beats', () => {
+      const offsets = [40, 55, 50, 45, 60, 50, 52, 48];
+      const taps = beats.map((beat, index) => beat + offsets[index]);
+
+      expect(calculateLatencyOffset(taps, beats)).toBe(50);
+    });
+
+    it('should ignore taps far from any beat', () => {
+      const taps = [...beats.map((beat) => beat + 30), beats[0] + CALIBRATION_INTERVAL_MS / 2];
+
+      expect(calculateLatencyOffset(taps, beats)).toBe(30);
+    });
+
+    it('should allow taps ahead of the beat', () => {
+      expect(
+        calculateLatencyOffset(
+          beats.map((beat) => beat - 20),
+          beats
+        )
+      ).toBe(-20);
+    });
+
+    it('should give up when too few beats were tapped', () => {
+      expect(calculateLatencyOffset([beats[0] + 30, beats[1] + 30], beats)).toBeNull();
+      expect(calculateLatencyOffset([], beats)).toBeNull();
+    });
+  });
+
+  describe('getLatencyOffsetMs', () => {
+    const calibration = { audioMs: 80, visualMs: 40 };
+
+    it('should use the audio offset for heard prompts', () => {
+      const settings = { ...DEFAULT_SETTINGS, mode: 'hearing' as const };
+
+      expect(isHeardPrompt(settings)).toBe(true);
+      expect(getLatencyOffsetMs(calibration, settings)).toBe(80);
+    });
+
+    it('should use the visual offset for reading from the staff', () => {
+      const settings = { ...DEFAULT_SETTINGS, mode: 'reading' as const };
+
+      expect(getLatencyOffsetMs(calibration, settings)).toBe(40);
+    });
+
+    it('should follow the metronome in timed modes', () => {
+      const withClick = { ...DEFAULT_SETTINGS, mode: 'timed' as const, metronome: true };
+      const silent = { ...withClick, metronome: false };
+
+      expect(getLatencyOffsetMs(calibration, withClick)).toBe(80);
+      expect(getLatencyOffsetMs(calibration, silent)).toBe(40);
+    });
+  });
+});
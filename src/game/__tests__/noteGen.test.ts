@@ -1,19 +1,25 @@
 import { describe, it, expect } from 'vitest';
-import { generateSequence, validateSequence } from '../noteGen';
-import { GameSettings, DIFFICULTY_CONFIGS } from '../types';
-import { isNatural } from '../mapping';
+import {
+  generateNote,
+  generateSequence,
+  validateSequence,
+  placeOnStaff,
+  resolveClefChoice,
+} from '../noteGen';
+import { DEFAULT_SETTINGS, GameSettings, DIFFICULTY_CONFIGS, NoteSpec } from '../types';
+import { isNatural, parsePitch, countLedgerLines } from '../mapping';
+import { getKeyOffsets } from '../keys';
+import { createSeededRandom, createSequenceRandom, parseSeed } from '../random';
 
 describe('Note Generation', () => {
   describe('generateSequence', () => {
     it('should generate correct number of notes', () => {
       const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
         mode: 'reading',
         difficulty: 'beginner',
         clef: 'treble',
-        lives: 3,
         sequenceLength: 8,
-        allowDoubleAccidentals: false,
-        enableFallbackPiano: false,
       };
 
       const sequence = generateSequence(settings);
@@ -22,13 +28,11 @@ describe('Note Generation', () => {
 
     it('should respect difficulty MIDI ranges - beginner', () => {
       const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
         mode: 'reading',
         difficulty: 'beginner',
         clef: 'treble',
-        lives: 3,
         sequenceLength: 10,
-        allowDoubleAccidentals: false,
-        enableFallbackPiano: false,
       };
 
       const sequence = generateSequence(settings);
@@ -42,13 +46,11 @@ describe('Note Generation', () => {
 
     it('should respect difficulty MIDI ranges - intermediate', () => {
       const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
         mode: 'reading',
         difficulty: 'intermediate',
         clef: 'treble',
-        lives: 3,
         sequenceLength: 10,
-        allowDoubleAccidentals: false,
-        enableFallbackPiano: false,
       };
 
       const sequence = generateSequence(settings);
@@ -62,13 +64,11 @@ describe('Note Generation', () => {
 
     it('should only generate natural notes for beginner', () => {
       const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
         mode: 'reading',
         difficulty: 'beginner',
         clef: 'treble',
-        lives: 3,
         sequenceLength: 20,
-        allowDoubleAccidentals: false,
-        enableFallbackPiano: false,
       };
 
       const sequence = generateSequence(settings);
@@ -81,13 +81,11 @@ describe('Note Generation', () => {
 
     it('should respect clef setting - treble', () => {
       const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
         mode: 'reading',
         difficulty: 'beginner',
         clef: 'treble',
-        lives: 3,
         sequenceLength: 10,
-        allowDoubleAccidentals: false,
-        enableFallbackPiano: false,
       };
 
       const sequence = generateSequence(settings);
@@ -99,13 +97,11 @@ describe('Note Generation', () => {
 
     it('should respect clef setting - bass', () => {
       const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
         mode: 'reading',
         difficulty: 'beginner',
         clef: 'bass',
-        lives: 3,
         sequenceLength: 10,
-        allowDoubleAccidentals: false,
-        enableFallbackPiano: false,
       };
 
       const sequence = generateSequence(settings);
@@ -117,13 +113,11 @@ describe('Note Generation', () => {
 
     it('should allow both clefs when set to both', () => {
       const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
         mode: 'reading',
         difficulty: 'beginner',
         clef: 'both',
-        lives: 3,
         sequenceLength: 20,
-        allowDoubleAccidentals: false,
-        enableFallbackPiano: false,
       };
 
       const sequence = generateSequence(settings);
@@ -136,13 +130,11 @@ describe('Note Generation', () => {
 
     it('should not include double accidentals when disabled', () => {
       const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
         mode: 'reading',
         difficulty: 'advanced',
         clef: 'treble',
-        lives: 3,
         sequenceLength: 30,
-        allowDoubleAccidentals: false,
-        enableFallbackPiano: false,
       };
 
       const sequence = generateSequence(settings);
@@ -152,33 +144,363 @@ describe('Note Generation', () => {
         expect(note.accidental).not.toBe('bb');
       });
     });
+
+    it('should only give dictation notes a rhythm when asked to', () => {
+      const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
+        mode: 'dictation',
+        difficulty: 'beginner',
+        clef: 'treble',
+        sequenceLength: 20,
+      };
+
+      generateSequence(settings).forEach((note) => expect(note.beats).toBeUndefined());
+
+      generateSequence({ ...settings, dictationRhythm: true }).forEach((note) => {
+        expect(note.beats).toBeGreaterThan(0);
+      });
+    });
+
+    it('should write rhythm sequences with rests and tied notes', () => {
+      const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
+        mode: 'rhythm',
+        difficulty: 'advanced',
+        clef: 'treble',
+        sequenceLength: 40,
+        timeSignature: '3/4',
+      };
+
+      const sequence = generateSequence(settings);
+
+      sequence.forEach((note, index) => {
+        expect(note.timeSignature).toBe('3/4');
+        expect(note.duration).toBeDefined();
+        if (note.tiedToNext) {
+          expect(note.isRest).toBeFalsy();
+          expect(sequence[index + 1].midi).toBe(note.midi);
+        }
+      });
+      expect(sequence.reduce((total, note) => total + (note.beats ?? 0), 0) % 3).toBe(0);
+    });
+  });
+
+  describe('key signatures', () => {
+    const keySettings: GameSettings = {
+      ...DEFAULT_SETTINGS,
+      mode: 'reading',
+      difficulty: 'beginner',
+      clef: 'treble',
+      sequenceLength: 20,
+      keySignature: 'D',
+    };
+
+    it('should only generate notes of the key for beginner', () => {
+      const sequence = generateSequence(keySettings);
+
+      sequence.forEach((note) => {
+        expect(note.keySignature).toBe('D');
+        expect(note.accidental).toBeUndefined();
+        // F and C are always sharp in D major
+        expect(note.pitch).not.toMatch(/^[FC]-?\d/);
+      });
+      expect(validateSequence(sequence, keySettings)).toBe(true);
+    });
+
+    it('should only show accidentals that leave the key', () => {
+      const settings: GameSettings = {
+        ...keySettings,
+        difficulty: 'advanced',
+        sequenceLength: 40,
+      };
+
+      const sequence = generateSequence(settings);
+
+      sequence.forEach((note) => {
+        const { letterIndex, offset } = parsePitch(note.pitch);
+        const inKey = getKeyOffsets('D')[letterIndex] === offset;
+        expect(note.accidental === undefined).toBe(inKey);
+      });
+    });
+
+    it('should use one key per sequence when random', () => {
+      const sequence = generateSequence({ ...keySettings, keySignature: 'random' });
+      const keys = new Set(sequence.map((note) => note.keySignature));
+
+      expect(keys.size).toBe(1);
+      expect(validateSequence(sequence, { ...keySettings, keySignature: 'random' })).toBe(true);
+    });
+
+    it('should invalidate notes outside the key for beginner', () => {
+      const sequence = [
+        {
+          midi: 65,
+          pitch: 'F4',
+          vexKey: 'F/4',
+          clef: 'treble' as const,
+          accidental: 'n' as const,
+          keySignature: 'D' as const,
+        },
+      ];
+
+      expect(validateSequence(sequence, keySettings)).toBe(false);
+    });
+  });
+
+  describe('ledger lines', () => {
+    const ledgerSettings: GameSettings = {
+      ...DEFAULT_SETTINGS,
+      mode: 'reading',
+      difficulty: 'beginner',
+      clef: 'both',
+      sequenceLength: 40,
+    };
+
+    it('should count ledger lines above and below each staff', () => {
+      expect(countLedgerLines('E4', 'treble')).toBe(0);
+      expect(countLedgerLines('D4', 'treble')).toBe(0);
+      expect(countLedgerLines('C4', 'treble')).toBe(1);
+      expect(countLedgerLines('A3', 'treble')).toBe(2);
+      expect(countLedgerLines('A5', 'treble')).toBe(1);
+      expect(countLedgerLines('C4', 'bass')).toBe(1);
+      expect(countLedgerLines('E2', 'bass')).toBe(1);
+      expect(countLedgerLines('C2', 'bass')).toBe(2);
+    });
+
+    it('should count by spelling, not by sound', () => {
+      // B#3 sounds as C4 but sits a step lower
+      expect(countLedgerLines('B#3', 'treble')).toBe(1);
+      expect(countLedgerLines('B#3', 'bass')).toBe(0);
+    });
+
+    it('should move notes to the other staff when they need too many ledger lines', () => {
+      expect(placeOnStaff('both', 60, ['B#3'], 0)).toBe('bass');
+      expect(placeOnStaff('treble', 60, ['B#3'], 0)).toBeNull();
+      expect(placeOnStaff('treble', 60, ['B#3'], 1)).toBe('treble');
+    });
+
+    it('should respect maxLedgerLines for every difficulty and clef', () => {
+      (['beginner', 'intermediate', 'advanced'] as const).forEach((difficulty) => {
+        (['treble', 'bass', 'both'] as const).forEach((clef) => {
+          const settings = { ...ledgerSettings, difficulty, clef };
+          const sequence = generateSequence(settings);
+          const { maxLedgerLines } = DIFFICULTY_CONFIGS[difficulty];
+
+          sequence.forEach((note) => {
+            expect(countLedgerLines(note.pitch, note.clef)).toBeLessThanOrEqual(maxLedgerLines);
+          });
+          expect(validateSequence(sequence, settings)).toBe(true);
+        });
+      });
+    });
+
+    it('should only pick notes within maxLedgerLines when the range goes past them', () => {
+      const config = { ...DIFFICULTY_CONFIGS.beginner, maxLedgerLines: 0 };
+      const range = { minMidi: 77, maxMidi: 93 }; // F5-A6: only F5 and G5 sit on the staff
+      const random = createSeededRandom(5);
+
+      for (let i = 0; i < 50; i++) {
+        const note = generateNote(ledgerSettings, config, 'C', 'treble', range, random);
+        expect(['F5', 'G5']).toContain(note.pitch);
+      }
+    });
+
+    it('should refuse to generate when no note fits within maxLedgerLines', () => {
+      const config = { ...DIFFICULTY_CONFIGS.beginner, maxLedgerLines: 0 };
+
+      const range = { minMidi: 84, maxMidi: 93 }; // C6-A6, all above the treble staff
+
+      expect(() => generateNote(ledgerSettings, config, 'C', 'treble', range, Math.random)).toThrow(
+        'ledger lines'
+      );
+    });
+
+    it('should respect maxLedgerLines for every chord tone', () => {
+      const settings: GameSettings = { ...ledgerSettings, mode: 'chords', difficulty: 'advanced' };
+      const sequence = generateSequence(settings);
+
+      sequence.forEach((note) => {
+        note.chord!.tones.forEach((tone) => {
+          expect(countLedgerLines(tone.pitch, note.clef)).toBeLessThanOrEqual(3);
+        });
+      });
+      expect(validateSequence(sequence, settings)).toBe(true);
+    });
+
+    it('should invalidate notes over the ledger line limit', () => {
+      const sequence = [
+        {
+          midi: 57, // A3 is in the beginner range but needs 2 ledger lines on treble
+          pitch: 'A3',
+          vexKey: 'A/3',
+          clef: 'treble' as const,
+        },
+      ];
+
+      expect(validateSequence(sequence, { ...ledgerSettings, clef: 'treble' })).toBe(false);
+    });
+  });
+
+  describe('alto, tenor and mixed clefs', () => {
+    const clefSettings: GameSettings = {
+      ...DEFAULT_SETTINGS,
+      mode: 'reading',
+      difficulty: 'intermediate',
+      clef: 'alto',
+      sequenceLength: 30,
+    };
+
+    it('should count ledger lines on C clefs', () => {
+      // Middle C is the middle line of the alto staff and the fourth line of the tenor staff
+      expect(countLedgerLines('C4', 'alto')).toBe(0);
+      expect(countLedgerLines('C4', 'tenor')).toBe(0);
+      expect(countLedgerLines('B4', 'alto')).toBe(1);
+      expect(countLedgerLines('A4', 'tenor')).toBe(1);
+      expect(countLedgerLines('B2', 'tenor')).toBe(1);
+    });
+
+    (['alto', 'tenor'] as const).forEach((clef) => {
+      it(`should generate ${clef} clef notes within the ${clef} range`, () => {
+        const settings = { ...clefSettings, clef };
+        const sequence = generateSequence(settings);
+        const range = DIFFICULTY_CONFIGS.intermediate.clefRanges[clef];
+
+        sequence.forEach((note) => {
+          expect(note.clef).toBe(clef);
+          expect(note.midi).toBeGreaterThanOrEqual(range.minMidi);
+          expect(note.midi).toBeLessThanOrEqual(range.maxMidi);
+        });
+        expect(validateSequence(sequence, settings)).toBe(true);
+      });
+    });
+
+    it('should rotate through the mixed clefs one sequence at a time', () => {
+      const settings: GameSettings = {
+        ...clefSettings,
+        clef: 'mixed',
+        mixedClefs: ['treble', 'alto', 'bass'],
+      };
+
+      expect(resolveClefChoice(settings, 0)).toBe('treble');
+      expect(resolveClefChoice(settings, 1)).toBe('alto');
+      expect(resolveClefChoice(settings, 2)).toBe('bass');
+      expect(resolveClefChoice(settings, 3)).toBe('treble');
+
+      const sequence = generateSequence(settings, 1);
+      sequence.forEach((note) => expect(note.clef).toBe('alto'));
+      expect(validateSequence(sequence, settings)).toBe(true);
+    });
+
+    it('should reject clefs outside the mixed rotation', () => {
+      const sequence = generateSequence({ ...clefSettings, clef: 'tenor' });
+
+      expect(
+        validateSequence(sequence, { ...clefSettings, clef: 'mixed', mixedClefs: ['alto'] })
+      ).toBe(false);
+    });
+  });
+
+  describe('seeded generation', () => {
+    const settings: GameSettings = {
+      ...DEFAULT_SETTINGS,
+      mode: 'reading',
+      difficulty: 'advanced',
+      clef: 'both',
+      sequenceLength: 8,
+      allowDoubleAccidentals: true,
+      keySignature: 'random',
+    };
+
+    it('should give identical sequences for the same seed and settings', () => {
+      const first = generateSequence(settings, 0, createSeededRandom(1234));
+      const second = generateSequence(settings, 0, createSeededRandom(1234));
+
+      expect(second).toEqual(first);
+    });
+
+    it('should give identical sequences in every mode', () => {
+      const modes: GameSettings['mode'][] = ['chords', 'intervals', 'dictation', 'rhythm'];
+
+      modes.forEach((mode) => {
+        const modeSettings = { ...settings, mode };
+        expect(generateSequence(modeSettings, 3, createSequenceRandom(99, 3))).toEqual(
+          generateSequence(modeSettings, 3, createSequenceRandom(99, 3))
+        );
+      });
+    });
+
+    it('should give different sequences for different seeds', () => {
+      const first = generateSequence(settings, 0, createSeededRandom(1));
+      const second = generateSequence(settings, 0, createSeededRandom(2));
+
+      expect(second).not.toEqual(first);
+    });
+
+    it('should give each sequence of a game its own notes', () => {
+      const first = generateSequence(settings, 0, createSequenceRandom(42, 0));
+      const second = generateSequence(settings, 1, createSequenceRandom(42, 1));
+
+      expect(second).not.toEqual(first);
+    });
+
+    it('should draw numbers in [0, 1)', () => {
+      const random = createSeededRandom(0);
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    it('should read seeds typed as numbers or words', () => {
+      expect(parseSeed(' 1234 ')).toBe(1234);
+      expect(parseSeed('friday-contest')).toBe(parseSeed('friday-contest'));
+      expect(parseSeed('friday-contest')).not.toBe(parseSeed('saturday-contest'));
+      expect(parseSeed('')).toBeNull();
+    });
   });
 
   describe('validateSequence', () => {
     it('should validate a correct beginner sequence', () => {
       const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
         mode: 'reading',
         difficulty: 'beginner',
         clef: 'treble',
-        lives: 3,
-        sequenceLength: 5,
-        allowDoubleAccidentals: false,
-        enableFallbackPiano: false,
       };
 
       const sequence = generateSequence(settings);
       expect(validateSequence(sequence, settings)).toBe(true);
     });
 
+    it('should not check the pitch rests are drawn at', () => {
+      const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
+        mode: 'rhythm',
+        difficulty: 'beginner',
+        clef: 'treble',
+        keySignature: 'F',
+      };
+
+      // Rests are drawn at B4, the middle line of the treble staff, which is outside F major
+      const sequence: NoteSpec[] = [
+        { midi: 70, pitch: 'Bb4', vexKey: 'bb/4', clef: 'treble', keySignature: 'F' },
+        { midi: 71, pitch: 'B4', vexKey: 'b/4', clef: 'treble', keySignature: 'F', isRest: true },
+      ];
+      expect(validateSequence(sequence, settings)).toBe(true);
+
+      for (let i = 0; i < 50; i++) {
+        expect(validateSequence(generateSequence(settings, i), settings)).toBe(true);
+      }
+    });
+
     it('should invalidate sequence with out-of-range notes', () => {
       const settings: GameSettings = {
+        ...DEFAULT_SETTINGS,
         mode: 'reading',
         difficulty: 'beginner',
         clef: 'treble',
-        lives: 3,
         sequenceLength: 2,
-        allowDoubleAccidentals: false,
-        enableFallbackPiano: false,
       };
 
       const sequence = [
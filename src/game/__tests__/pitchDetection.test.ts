@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectPitch,
+  frequencyToMidi,
+  getRms,
+  rmsToVelocity,
+  trackPitch,
+  PitchTrackerState,
+  TrackedNoteEvent,
+  INITIAL_TRACKER_STATE,
+} from '../pitchDetection';
+
+const SAMPLE_RATE = 44100;
+const FRAME_SIZE = 2048;
+
+/**
+ * Build a frame of a tone with a few harmonics, like a plucked string
+ */
+function tone(frequency: number, amplitude = 0.5, phase = 0): Float32Array {
+  return Float32Array.from({ length: FRAME_SIZE }, (_, i) => {
+    const t = (i + phase) / SAMPLE_RATE;
+    return (
+      amplitude *
+      (0.6 * Math.sin(2 * Math.PI * frequency * t) +
+        0.3 * Math.sin(2 * Math.PI * 2 * frequency * t) +
+        0.1 * Math.sin(2 * Math.PI * 3 * frequency * t))
+    );
+  });
+}
+
+/**
+ * Build a frame of noise from a fixed seed, so every run hears the same noise
+ */
+function noise(amplitude = 0.5): Float32Array {
+  let seed = 12345;
+  return Float32Array.from({ length: FRAME_SIZE }, () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return amplitude * (seed / 1073741824 - 1);
+  });
+}
+
+/**
+ * Feed frames through the tracker and collect every note event
+ */
+function track(frames: Float32Array[]): { state: PitchTrackerState; events: TrackedNoteEvent[] } {
+  return frames.reduce(
+    (result, frame) => {
+      const step = trackPitch(result.state, getRms(frame), detectPitch(frame, SAMPLE_RATE));
+      return { state: step.state, events: [...result.events, ...step.events] };
+    },
+    { state: INITIAL_TRACKER_STATE, events: [] as TrackedNoteEvent[] }
+  );
+}
+
+describe('Pitch Detection', () => {
+  describe('detectPitch', () => {
+    it('should find the pitch of A4', () => {
+      const detection = detectPitch(tone(440), SAMPLE_RATE);
+
+      expect(detection).not.toBeNull();
+      expect(detection!.frequency).toBeCloseTo(440, 0);
+      expect(detection!.confidence).toBeGreaterThan(0.9);
+    });
+
+    it('should find low and high piano notes', () => {
+      expect(frequencyToMidi(detectPitch(tone(65.41), SAMPLE_RATE)!.frequency)).toBe(36); // C2
+      expect(frequencyToMidi(detectPitch(tone(2093), SAMPLE_RATE)!.frequency)).toBe(96); // C7
+    });
+
+    it('should name notes at the concert pitch of the instrument', () => {
+      const detection = detectPitch(tone(415), SAMPLE_RATE);
+
+      expect(frequencyToMidi(detection!.frequency)).toBe(68);
+      expect(frequencyToMidi(detection!.frequency, 415)).toBe(69);
+    });
+
+    it('should find the fundamental rather than a harmonic', () => {
+      const detection = detectPitch(tone(261.63), SAMPLE_RATE);
+
+      expect(frequencyToMidi(detection!.frequency)).toBe(60);
+    });
+
+    it('should not find a pitch in noise or silence', () => {
+      expect(detectPitch(noise(), SAMPLE_RATE)).toBeNull();
+      expect(detectPitch(new Float32Array(FRAME_SIZE), SAMPLE_RATE)).toBeNull();
+    });
+  });
+
+  describe('rmsToVelocity', () => {
+    it('should play louder frames harder', () => {
+      expect(rmsToVelocity(0.3)).toBeGreaterThan(rmsToVelocity(0.03));
+      expect(rmsToVelocity(1)).toBe(127);
+      expect(rmsToVelocity(0)).toBe(1);
+    });
+  });
+
+  describe('trackPitch', () => {
+    it('should start a note once its pitch holds', () => {
+      const first = track([tone(440)]);
+      expect(first.events).toEqual([]);
+
+      const { events, state } = track([tone(440), tone(440, 0.5, FRAME_SIZE)]);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'noteOn', note: 69 });
+      expect(state.note).toBe(69);
+    });
+
+    it('should end the note when the sound fades out', () => {
+      const { events } = track([tone(440), tone(440), new Float32Array(FRAME_SIZE)]);
+
+      expect(events.map((event) => event.type)).toEqual(['noteOn', 'noteOff']);
+    });
+
+    it('should move to a new pitch without silence between them', () => {
+      const { events } = track([tone(440), tone(440), tone(493.88), tone(493.88)]);
+
+      expect(events).toEqual([
+        expect.objectContaining({ type: 'noteOn', note: 69 }),
+        { type: 'noteOff', note: 69 },
+        expect.objectContaining({ type: 'noteOn', note: 71 }),
+      ]);
+    });
+
+    it('should start the same note again after a new strike', () => {
+      const { events } = track([
+        tone(440, 0.5),
+        tone(440, 0.5),
+        tone(440, 0.1),
+        tone(440, 0.5),
+        tone(440, 0.5),
+      ]);
+
+      expect(events.map((event) => event.type)).toEqual(['noteOn', 'noteOff', 'noteOn']);
+    });
+
+    it('should hold a note through frames without a clear pitch', () => {
+      const { events, state } = track([tone(440), tone(440), noise(0.3), tone(440)]);
+
+      expect(events.map((event) => event.type)).toEqual(['noteOn']);
+      expect(state.note).toBe(69);
+    });
+
+    it('should give louder notes a higher velocity', () => {
+      const [soft] = track([tone(440, 0.05), tone(440, 0.05)]).events;
+      const [loud] = track([tone(440, 0.5), tone(440, 0.5)]).events;
+
+      expect(soft.type).toBe('noteOn');
+      expect(loud.type).toBe('noteOn');
+      expect((loud as { velocity: number }).velocity).toBeGreaterThan(
+        (soft as { velocity: number }).velocity
+      );
+    });
+  });
+});
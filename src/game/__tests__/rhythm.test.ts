@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { DURATION_BEATS, TIME_SIGNATURES, generateRhythm, getBarCount } from '../rhythm';
+import { DIFFICULTY_CONFIGS, TimeSignature } from '../types';
+
+describe('Rhythm Generation', () => {
+  const timeSignatures = Object.keys(TIME_SIGNATURES) as TimeSignature[];
+
+  describe('generateRhythm', () => {
+    timeSignatures.forEach((timeSignature) => {
+      it(`should fill whole bars of ${timeSignature}`, () => {
+        const { barBeats } = TIME_SIGNATURES[timeSignature];
+
+        for (let i = 0; i < 20; i++) {
+          const slots = generateRhythm(timeSignature, 4, DIFFICULTY_CONFIGS.advanced);
+          let beat = 0;
+
+          slots.forEach((slot) => {
+            // A note never runs over a bar line
+            const barEnd = (Math.floor(beat / barBeats) + 1) * barBeats;
+            beat += DURATION_BEATS[slot.duration];
+            expect(beat).toBeLessThanOrEqual(barEnd);
+          });
+          expect(beat).toBe(4 * barBeats);
+        }
+      });
+    });
+
+    it('should only use the lengths the difficulty allows', () => {
+      const config = DIFFICULTY_CONFIGS.beginner;
+
+      for (let i = 0; i < 20; i++) {
+        generateRhythm('4/4', 4, config).forEach((slot) => {
+          expect(config.rhythmDurations).toContain(slot.duration);
+        });
+      }
+    });
+
+    it('should never tie into or out of a rest', () => {
+      for (let i = 0; i < 20; i++) {
+        const slots = generateRhythm('4/4', 4, DIFFICULTY_CONFIGS.advanced);
+
+        slots.forEach((slot, index) => {
+          if (slot.tiedToNext) {
+            expect(slot.isRest).toBe(false);
+            expect(slots[index + 1].isRest).toBe(false);
+          }
+        });
+      }
+    });
+
+    it('should always leave at least one note', () => {
+      const config = { ...DIFFICULTY_CONFIGS.beginner, restProbability: 1 };
+
+      for (let i = 0; i < 20; i++) {
+        const slots = generateRhythm('4/4', 2, config);
+        expect(slots.filter((slot) => !slot.isRest)).toHaveLength(1);
+      }
+    });
+
+    it('should not tie notes in beginner rhythms', () => {
+      for (let i = 0; i < 20; i++) {
+        generateRhythm('3/4', 4, DIFFICULTY_CONFIGS.beginner).forEach((slot) => {
+          expect(slot.tiedToNext).toBe(false);
+        });
+      }
+    });
+  });
+
+  describe('getBarCount', () => {
+    it('should give about one note per felt beat', () => {
+      expect(getBarCount('4/4', 8)).toBe(2);
+      expect(getBarCount('3/4', 9)).toBe(3);
+      expect(getBarCount('6/8', 8)).toBe(4);
+      expect(getBarCount('2/4', 1)).toBe(1);
+    });
+  });
+});
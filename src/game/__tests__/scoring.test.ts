@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   calculateScoreForCorrect,
+  calculateDictationCredit,
   calculateAccuracy,
   updateAvgResponseTime,
   calculateNotesPerMinute,
@@ -39,6 +40,23 @@ describe('Scoring', () => {
     });
   });
 
+  describe('calculateDictationCredit', () => {
+    it('should give credit for each correct position', () => {
+      const credit = calculateDictationCredit([60, 62, 65, 65], [60, 62, 64, 65]);
+
+      expect(credit.marks).toEqual([true, true, false, true]);
+      expect(credit.correctPositions).toBe(3);
+      expect(credit.points).toBe(30);
+    });
+
+    it('should not shift positions after a wrong note', () => {
+      // One note skipped: everything after it is judged against its own position
+      const credit = calculateDictationCredit([60, 64, 65], [60, 62, 64]);
+
+      expect(credit.marks).toEqual([true, false, false]);
+    });
+  });
+
   describe('calculateAccuracy', () => {
     it('should return 100% with zero attempts', () => {
       expect(calculateAccuracy(0, 0)).toBe(100);
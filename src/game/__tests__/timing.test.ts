@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBeatMs,
+  getHeldBeats,
+  getNoteOnsets,
+  getSequenceBeats,
+  isPlayable,
+  judgeHold,
+  judgeTiming,
+} from '../timing';
+import { GameSettings, NoteSpec, DEFAULT_SETTINGS } from '../types';
+
+describe('Timing', () => {
+  const settings: GameSettings = {
+    ...DEFAULT_SETTINGS,
+    mode: 'timed',
+    tempoBpm: 60,
+    timingWindowMs: 100,
+  };
+
+  const note = (beats?: number): NoteSpec => ({
+    midi: 60,
+    pitch: 'C4',
+    vexKey: 'C/4',
+    clef: 'treble',
+    beats,
+  });
+
+  describe('getBeatMs', () => {
+    it('should convert a tempo to a beat length', () => {
+      expect(getBeatMs(60)).toBe(1000);
+      expect(getBeatMs(120)).toBe(500);
+    });
+  });
+
+  describe('getNoteOnsets', () => {
+    it('should place notes one beat apart by default', () => {
+      expect(getNoteOnsets([note(), note(), note()])).toEqual([0, 1, 2]);
+    });
+
+    it('should follow note lengths', () => {
+      const sequence = [note(2), note(0.5), note(0.5), note()];
+
+      expect(getNoteOnsets(sequence)).toEqual([0, 2, 2.5, 3]);
+      expect(getSequenceBeats(sequence)).toBe(4);
+    });
+  });
+
+  describe('judgeTiming', () => {
+    it('should accept notes inside the on-time window', () => {
+      expect(judgeTiming(0, note(), settings)).toBe('onTime');
+      expect(judgeTiming(-100, note(), settings)).toBe('onTime');
+      expect(judgeTiming(100, note(), settings)).toBe('onTime');
+    });
+
+    it('should split the rest of the hit window into early and late', () => {
+      expect(judgeTiming(-300, note(), settings)).toBe('early');
+      expect(judgeTiming(300, note(), settings)).toBe('late');
+    });
+
+    it('should reject notes more than half the note length away', () => {
+      expect(judgeTiming(600, note(), settings)).toBeNull();
+      expect(judgeTiming(300, note(0.5), settings)).toBeNull();
+    });
+  });
+
+  describe('rests and ties', () => {
+    const tied = (beats: number): NoteSpec => ({ ...note(beats), tiedToNext: true });
+    const rest = (beats: number): NoteSpec => ({ ...note(beats), isRest: true });
+
+    it('should skip rests and tie continuations', () => {
+      const sequence = [rest(1), tied(1), note(0.5), note(1)];
+
+      expect(sequence.map((_, index) => isPlayable(sequence, index))).toEqual([
+        false,
+        true,
+        false,
+        true,
+      ]);
+    });
+
+    it('should hold a note through the notes tied onto it', () => {
+      const sequence = [tied(1), tied(2), note(0.5), note(1)];
+
+      expect(getHeldBeats(sequence, 0)).toBe(3.5);
+      expect(getHeldBeats(sequence, 3)).toBe(1);
+    });
+
+    it('should accept releases inside the tolerance', () => {
+      const held = { midi: 60, releaseDueAt: 1000, toleranceMs: 100 };
+
+      expect(judgeHold(held, 950)).toBe('held');
+      expect(judgeHold(held, 1200)).toBe('held');
+      expect(judgeHold(held, 850)).toBe('short');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getScaleCents,
+  getTuning,
+  getTuningFrequency,
+  getTuningOffsets,
+  EQUAL_TUNING,
+  Tuning,
+} from '../tuning';
+import { DEFAULT_SETTINGS } from '../types';
+
+describe('Tuning', () => {
+  const tuned = (overrides: Partial<Tuning>): Tuning => ({ ...EQUAL_TUNING, ...overrides });
+
+  describe('getTuningFrequency', () => {
+    it('should play equal temperament at A440 by default', () => {
+      const tuning = getTuning(DEFAULT_SETTINGS);
+
+      expect(getTuningFrequency(69, tuning)).toBeCloseTo(440, 6);
+      expect(getTuningFrequency(81, tuning)).toBeCloseTo(880, 6);
+      expect(getTuningFrequency(60, tuning)).toBeCloseTo(261.626, 3);
+    });
+
+    it('should tune A4 to the concert pitch', () => {
+      const tuning = tuned({ concertPitch: 415 });
+
+      expect(getTuningFrequency(69, tuning)).toBeCloseTo(415, 6);
+      expect(getTuningFrequency(57, tuning)).toBeCloseTo(207.5, 6);
+    });
+
+    it('should keep A4 at the concert pitch in every system', () => {
+      for (const system of ['just', 'pythagorean', 'meantone'] as const) {
+        expect(getTuningFrequency(69, tuned({ system, concertPitch: 415 }))).toBeCloseTo(415, 6);
+      }
+    });
+
+    it('should play pure thirds and fifths in just intonation', () => {
+      const tuning = tuned({ system: 'just' });
+      const c4 = getTuningFrequency(60, tuning);
+
+      expect(getTuningFrequency(64, tuning) / c4).toBeCloseTo(5 / 4, 6);
+      expect(getTuningFrequency(67, tuning) / c4).toBeCloseTo(3 / 2, 6);
+      expect(getTuningFrequency(72, tuning) / c4).toBeCloseTo(2, 6);
+    });
+
+    it('should build the just scale on the chosen root', () => {
+      const tuning = tuned({ system: 'just', root: 7 }); // G
+      const g4 = getTuningFrequency(67, tuning);
+
+      expect(getTuningFrequency(71, tuning) / g4).toBeCloseTo(5 / 4, 6);
+      expect(getTuningFrequency(74, tuning) / g4).toBeCloseTo(3 / 2, 6);
+    });
+
+    it('should apply custom offsets by pitch class', () => {
+      const customCents = [0, 0, 0, 0, -14, 0, 0, 0, 0, 0, 0, 0];
+      const tuning = tuned({ system: 'custom', customCents });
+
+      expect(getTuningFrequency(64, tuning)).toBeCloseTo(
+        getTuningFrequency(64, EQUAL_TUNING) * Math.pow(2, -14 / 1200),
+        6
+      );
+      expect(getTuningFrequency(62, tuning)).toBeCloseTo(getTuningFrequency(62, EQUAL_TUNING), 6);
+    });
+  });
+
+  describe('getScaleCents', () => {
+    it('should stack pure fifths in Pythagorean tuning', () => {
+      const cents = getScaleCents('pythagorean');
+
+      expect(cents[7]).toBeCloseTo(701.955, 3);
+      expect(cents[4]).toBeCloseTo(407.82, 2); // 81/64
+      expect(cents[6]).toBeCloseTo(611.73, 2); // 729/512
+    });
+
+    it('should make major thirds pure in quarter-comma meantone', () => {
+      const cents = getScaleCents('meantone');
+
+      expect(cents[4]).toBeCloseTo(386.314, 3);
+      expect(cents[7]).toBeCloseTo(696.578, 3);
+    });
+
+    it('should give every semitone a step', () => {
+      for (const system of ['equal', 'just', 'pythagorean', 'meantone'] as const) {
+        const cents = getScaleCents(system);
+        expect(cents).toHaveLength(12);
+        cents.slice(1).forEach((step, index) => expect(step).toBeGreaterThan(cents[index]));
+      }
+    });
+  });
+
+  describe('getTuningOffsets', () => {
+    it('should not move any note in equal temperament', () => {
+      expect(getTuningOffsets(EQUAL_TUNING).every((offset) => Math.abs(offset) < 1e-9)).toBe(true);
+    });
+  });
+});
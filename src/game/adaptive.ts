@@ -0,0 +1,201 @@
+// Adaptive practice: a model of how well each note is read, used to favour weak notes
+// and to move on to wider ranges and more accidentals once the current ones are mastered
+
+import { DifficultyConfig, GameMode, MidiRange, NoteSpec, Random, StaffClef } from './types';
+import { isNatural, parsePitch, pitchToMidi } from './mapping';
+
+export interface NoteStat {
+  attempts: number;
+  accuracy: number; // recent share of correct answers (0-1)
+  avgMs: number | null; // recent response time of correct answers, when one was timed
+}
+
+// Stats by clef and spelled pitch, e.g. "bass:F#3"
+export type SkillModel = Record<string, NoteStat>;
+
+export const EMPTY_SKILL_MODEL: SkillModel = {};
+
+// Weight of the newest answer in the running averages: recent answers count most
+const RECENCY_WEIGHT = 0.3;
+
+// Selection weights: unseen notes are worth trying, missed and slow ones are worth repeating
+const UNSEEN_WEIGHT = 2;
+const MISS_WEIGHT = 4;
+const TARGET_RESPONSE_MS = 1500;
+const MAX_SLOWNESS_WEIGHT = 2;
+
+// How many notes are drawn for each one played; more draws lean harder on weak notes
+export const ADAPTIVE_DRAWS = 6;
+
+// A note is mastered after a few answers that are mostly right and quick enough, and
+// the material is mastered once most staff positions in its range are
+const MASTERY_ATTEMPTS = 3;
+const MASTERY_ACCURACY = 0.85;
+const MASTERY_RESPONSE_MS = 2000;
+const MASTERY_COVERAGE = 0.75;
+
+// Each level past the difficulty adds a whole step at both ends of the range, a ledger line
+// and a little more chance of accidentals
+export const MAX_ADAPTIVE_LEVEL = 4;
+const LEVEL_SEMITONES = 2;
+const LEVEL_ACCIDENTAL_PROBABILITY = 0.05;
+const MAX_ACCIDENTAL_PROBABILITY = 0.5;
+const MAX_LEDGER_LINES = 5;
+const LOWEST_PIANO_MIDI = 21; // A0
+const HIGHEST_PIANO_MIDI = 108; // C8
+
+/**
+ * Check whether a mode has notes read from the staff one at a time, which the model tracks
+ */
+export function isReadingMode(mode: GameMode): boolean {
+  return mode === 'reading' || mode === 'timed' || mode === 'rhythm';
+}
+
+function getStatKey(clef: StaffClef, pitch: string): string {
+  return `${clef}:${pitch}`;
+}
+
+/**
+ * Get the stats of a note on a clef, or undefined when it was never played
+ */
+export function getNoteStat(
+  model: SkillModel,
+  clef: StaffClef,
+  pitch: string
+): NoteStat | undefined {
+  return model[getStatKey(clef, pitch)];
+}
+
+/**
+ * Record the answer to a note
+ * @param responseMs - Time to answer, or null when the answer was not timed (timed modes)
+ */
+export function recordNoteResult(
+  model: SkillModel,
+  note: NoteSpec,
+  isCorrect: boolean,
+  responseMs: number | null
+): SkillModel {
+  const key = getStatKey(note.clef, note.pitch);
+  const stat = model[key];
+  const result = isCorrect ? 1 : 0;
+  const timed = isCorrect && responseMs !== null ? responseMs : null;
+
+  const next: NoteStat = stat
+    ? {
+        attempts: stat.attempts + 1,
+        accuracy: stat.accuracy + (result - stat.accuracy) * RECENCY_WEIGHT,
+        avgMs:
+          timed === null
+            ? stat.avgMs
+            : stat.avgMs === null
+              ? timed
+              : stat.avgMs + (timed - stat.avgMs) * RECENCY_WEIGHT,
+      }
+    : { attempts: 1, accuracy: result, avgMs: timed };
+
+  return { ...model, [key]: next };
+}
+
+/**
+ * Get how strongly a note should be favoured: the more it is missed or the slower
+ * it is read, the higher its weight
+ */
+export function getNoteWeight(model: SkillModel, clef: StaffClef, pitch: string): number {
+  const stat = getNoteStat(model, clef, pitch);
+  if (!stat) return UNSEEN_WEIGHT;
+
+  const slowness =
+    stat.avgMs === null
+      ? 0
+      : Math.min(MAX_SLOWNESS_WEIGHT, Math.max(0, stat.avgMs / TARGET_RESPONSE_MS - 1));
+  return 1 + (1 - stat.accuracy) * MISS_WEIGHT + slowness;
+}
+
+/**
+ * Pick one of several drawn notes, in proportion to their weights
+ */
+export function pickWeakNote(notes: NoteSpec[], model: SkillModel, random: Random): NoteSpec {
+  const weights = notes.map((note) => getNoteWeight(model, note.clef, note.pitch));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let target = random() * total;
+  for (let i = 0; i < notes.length; i++) {
+    target -= weights[i];
+    if (target < 0) return notes[i];
+  }
+  return notes[notes.length - 1];
+}
+
+/**
+ * Check whether a note has been answered well enough to move on from
+ */
+export function isNoteMastered(stat: NoteStat): boolean {
+  return (
+    stat.attempts >= MASTERY_ATTEMPTS &&
+    stat.accuracy >= MASTERY_ACCURACY &&
+    (stat.avgMs === null || stat.avgMs <= MASTERY_RESPONSE_MS)
+  );
+}
+
+/**
+ * Check whether the notes of a range are mastered on the given clefs
+ * Every note played there must be mastered, covering most staff positions of the range
+ */
+export function isRangeMastered(model: SkillModel, clefs: StaffClef[], range: MidiRange): boolean {
+  const stats = Object.entries(model).flatMap(([key, stat]) => {
+    const [clef, pitch] = key.split(':');
+    if (!clefs.includes(clef as StaffClef)) return [];
+    const { letterIndex, octave } = parsePitch(pitch);
+    const naturalPosition = letterIndex + octave * 7;
+    return [{ stat, naturalPosition, midi: pitchToMidi(pitch) }];
+  });
+  const inRange = stats.filter(({ midi }) => midi >= range.minMidi && midi <= range.maxMidi);
+  if (inRange.some(({ stat }) => !isNoteMastered(stat))) return false;
+
+  let positions = 0;
+  for (let midi = range.minMidi; midi <= range.maxMidi; midi++) {
+    if (isNatural(midi)) positions++;
+  }
+  const mastered = new Set(inRange.map(({ naturalPosition }) => naturalPosition));
+  return positions > 0 && mastered.size >= positions * MASTERY_COVERAGE;
+}
+
+/**
+ * Widen a range by a number of semitones at each end, within the piano
+ */
+function widenRange({ minMidi, maxMidi }: MidiRange, semitones: number): MidiRange {
+  return {
+    minMidi: Math.max(LOWEST_PIANO_MIDI, minMidi - semitones),
+    maxMidi: Math.min(HIGHEST_PIANO_MIDI, maxMidi + semitones),
+  };
+}
+
+/**
+ * Get a difficulty moved up by a number of mastered levels
+ * A difficulty without accidentals keeps them out; it only grows in range
+ */
+export function getAdaptiveConfig(config: DifficultyConfig, level: number): DifficultyConfig {
+  if (level <= 0) return config;
+
+  const semitones = level * LEVEL_SEMITONES;
+  const grand = widenRange(config, semitones);
+  return {
+    ...config,
+    minMidi: grand.minMidi,
+    maxMidi: grand.maxMidi,
+    clefRanges: {
+      treble: widenRange(config.clefRanges.treble, semitones),
+      bass: widenRange(config.clefRanges.bass, semitones),
+      alto: widenRange(config.clefRanges.alto, semitones),
+      tenor: widenRange(config.clefRanges.tenor, semitones),
+    },
+    maxLedgerLines: Math.min(MAX_LEDGER_LINES, config.maxLedgerLines + level),
+    accidentalProbability: config.allowNaturalsOnly
+      ? config.accidentalProbability
+      : Math.min(
+          MAX_ACCIDENTAL_PROBABILITY,
+          config.accidentalProbability + level * LEVEL_ACCIDENTAL_PROBABILITY
+        ),
+  };
+}
@@ -0,0 +1,208 @@
+// Chord generation for the chord recognition mode
+
+import {
+  GameSettings,
+  NoteSpec,
+  ChordQuality,
+  ChordSpec,
+  ChordTone,
+  DifficultyConfig,
+  MidiRange,
+  Random,
+} from './types';
+import { naturalMidi, spellMidi, pitchToVexKey } from './mapping';
+import { KeyName, getDiatonicNotes, getDisplayedAccidental, getKeyOffsets } from './keys';
+
+interface ChordFormula {
+  intervals: number[]; // semitones above the root, one per stacked third
+  suffix: string; // appended to the root name in the chord symbol
+}
+
+export const CHORD_FORMULAS: Record<ChordQuality, ChordFormula> = {
+  major: { intervals: [0, 4, 7], suffix: '' },
+  minor: { intervals: [0, 3, 7], suffix: 'm' },
+  diminished: { intervals: [0, 3, 6], suffix: 'dim' },
+  augmented: { intervals: [0, 4, 8], suffix: 'aug' },
+  dominant7: { intervals: [0, 4, 7, 10], suffix: '7' },
+  major7: { intervals: [0, 4, 7, 11], suffix: 'maj7' },
+  minor7: { intervals: [0, 3, 7, 10], suffix: 'm7' },
+  halfDiminished7: { intervals: [0, 3, 6, 10], suffix: 'm7b5' },
+  diminished7: { intervals: [0, 3, 6, 9], suffix: 'dim7' },
+};
+
+const MAX_CHORD_ATTEMPTS = 100;
+const FALLBACK_OCTAVES = [4, 3, 5, 2];
+
+/**
+ * Generate a single chord based on settings
+ * The returned NoteSpec describes the lowest tone, with the full chord attached
+ */
+export function generateChord(
+  settings: GameSettings,
+  config: DifficultyConfig,
+  key: KeyName,
+  range: MidiRange,
+  placeOnStaff: (midi: number, pitches: string[]) => NoteSpec['clef'] | null,
+  random: Random = Math.random
+): NoteSpec {
+  for (let attempt = 0; attempt < MAX_CHORD_ATTEMPTS; attempt++) {
+    const chord = tryGenerateChord(settings, config, key, range, random);
+    if (!chord) continue;
+
+    // Place the chord on the staff that suits its middle tone, if it fits there
+    const middle = chord.tones[Math.floor(chord.tones.length / 2)];
+    const clef = placeOnStaff(
+      middle.midi,
+      chord.tones.map((tone) => tone.pitch)
+    );
+    if (clef) {
+      return chordToNoteSpec(chord, key, clef);
+    }
+  }
+
+  // Fall back to a root-position C major triad on the chosen staff, preferring
+  // the octaves inside the range (some C triad fits every clef and difficulty)
+  const fallbacks = FALLBACK_OCTAVES.map((octave) => buildChord(0, 0, octave, 'major', 0, key)!);
+  const inRange = (chord: ChordSpec) =>
+    chord.tones.every((tone) => tone.midi >= range.minMidi && tone.midi <= range.maxMidi);
+  for (const fallback of [...fallbacks.filter(inRange), ...fallbacks]) {
+    const clef = placeOnStaff(
+      fallback.tones[1].midi,
+      fallback.tones.map((tone) => tone.pitch)
+    );
+    if (clef) {
+      return chordToNoteSpec(fallback, key, clef);
+    }
+  }
+  throw new Error('No chord fits on the chosen staff');
+}
+
+/**
+ * Try to build a random chord that satisfies the difficulty constraints
+ */
+function tryGenerateChord(
+  settings: GameSettings,
+  config: DifficultyConfig,
+  key: KeyName,
+  { minMidi, maxMidi }: MidiRange,
+  random: Random
+): ChordSpec | null {
+  const { allowNaturalsOnly, accidentalProbability, chordQualities } = config;
+
+  const quality = chordQualities[Math.floor(random() * chordQualities.length)];
+  const toneCount = CHORD_FORMULAS[quality].intervals.length;
+  const inversion = config.allowInversions ? Math.floor(random() * toneCount) : 0;
+
+  // Pick the root from the key's scale, optionally altered
+  const scale = getDiatonicNotes(key, minMidi, maxMidi);
+  const { letterIndex, octave } = scale[Math.floor(random() * scale.length)];
+
+  let rootOffset = getKeyOffsets(key)[letterIndex];
+  if (!allowNaturalsOnly && random() < accidentalProbability) {
+    rootOffset += random() < 0.5 ? 1 : -1;
+  }
+
+  const chord = buildChord(letterIndex, rootOffset, octave, quality, inversion, key);
+  if (!chord) return null;
+
+  for (const tone of chord.tones) {
+    if (tone.midi < minMidi || tone.midi > maxMidi) return null;
+    // Naturals-only difficulties stay inside the key signature
+    if (allowNaturalsOnly && tone.accidental) return null;
+    if (
+      !settings.allowDoubleAccidentals &&
+      (tone.accidental === '##' || tone.accidental === 'bb')
+    ) {
+      return null;
+    }
+  }
+
+  return chord;
+}
+
+/**
+ * Build a chord by stacking thirds on a root letter, spelling every tone
+ * on its own letter so that e.g. E major gets G# rather than Ab
+ * Tone accidentals are the ones printed against the given key signature
+ */
+export function buildChord(
+  rootLetterIndex: number,
+  rootOffset: number,
+  rootOctave: number,
+  quality: ChordQuality,
+  inversion: number,
+  key: KeyName = 'C'
+): ChordSpec | null {
+  const formula = CHORD_FORMULAS[quality];
+  const rootMidi = naturalMidi(rootLetterIndex, rootOctave) + rootOffset;
+  const root = spellMidi(rootMidi, rootLetterIndex, rootOctave);
+  if (!root) return null;
+
+  const tones: ChordTone[] = [];
+  for (let i = 0; i < formula.intervals.length; i++) {
+    const letterStep = rootLetterIndex + i * 2;
+    // Inverted tones are raised an octave above the rest of the chord
+    const octaveShift = i < inversion ? 1 : 0;
+    const octave = rootOctave + Math.floor(letterStep / 7) + octaveShift;
+    const midi = rootMidi + formula.intervals[i] + octaveShift * 12;
+
+    const letterIndex = letterStep % 7;
+    const spelled = spellMidi(midi, letterIndex, octave);
+    if (!spelled) return null;
+
+    tones.push({
+      midi,
+      pitch: spelled.pitch,
+      vexKey: pitchToVexKey(spelled.pitch),
+      accidental: getDisplayedAccidental(letterIndex, midi - naturalMidi(letterIndex, octave), key),
+    });
+  }
+
+  tones.sort((a, b) => a.midi - b.midi);
+
+  const symbol = `${root.pitch.replace(/-?\d+$/, '')}${formula.suffix}`;
+
+  return { symbol, quality, inversion, tones };
+}
+
+function chordToNoteSpec(chord: ChordSpec, key: KeyName, clef: NoteSpec['clef']): NoteSpec {
+  const lowest = chord.tones[0];
+
+  return {
+    midi: lowest.midi,
+    pitch: lowest.pitch,
+    vexKey: lowest.vexKey,
+    clef,
+    accidental: lowest.accidental,
+    keySignature: key,
+    chord,
+  };
+}
+
+/**
+ * Get the MIDI notes of a chord target, or the single note for plain notes
+ */
+export function getTargetMidis(note: NoteSpec): number[] {
+  return note.chord ? note.chord.tones.map((tone) => tone.midi) : [note.midi];
+}
+
+/**
+ * Get the chord tone a played note was meant to be, as a single note: the nearest tone
+ * that is not among the notes already played
+ */
+export function getMeantChordTone(note: NoteSpec, playedMidi: number, played: number[]): NoteSpec {
+  const tones = note.chord!.tones;
+  const open = tones.filter((tone) => !played.includes(tone.midi));
+  const meant = (open.length > 0 ? open : tones).reduce((nearest, tone) =>
+    Math.abs(tone.midi - playedMidi) < Math.abs(nearest.midi - playedMidi) ? tone : nearest
+  );
+
+  return {
+    midi: meant.midi,
+    pitch: meant.pitch,
+    vexKey: meant.vexKey,
+    clef: note.clef,
+    accidental: meant.accidental,
+    keySignature: note.keySignature,
+  };
+}
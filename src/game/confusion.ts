@@ -0,0 +1,197 @@
+// Confusions: which note was played for each expected one, to find patterns in reading mistakes
+
+import { GameMode, NoteSpec, StaffClef } from './types';
+import {
+  getDiatonicStep,
+  midiToPitch,
+  naturalMidi,
+  parsePitch,
+  pitchToMidi,
+  readOnClef,
+} from './mapping';
+
+// How many times each MIDI note was played, by expected clef and spelled pitch ("bass:F#3")
+// Notes that were only heard have no clef and are kept apart ("heard:F#3")
+// Correct answers are counted too, on the diagonal
+export type ConfusionMatrix = Record<string, Record<number, number>>;
+
+// Whether the expected note was read on a staff or only heard
+export type NoteSource = 'read' | 'heard';
+
+export type MistakeKind =
+  | 'missedAccidental' // played the natural of a sharp or flat note
+  | 'wrongAccidental' // right line or space, another accidental
+  | 'lineSpace' // one line or space off
+  | 'otherClef' // read as if on another clef
+  | 'octave' // right note name, wrong octave
+  | 'other';
+
+export const MISTAKE_LABELS: Record<MistakeKind, string> = {
+  missedAccidental: 'Missed the accidental',
+  wrongAccidental: 'Wrong accidental',
+  lineSpace: 'Off by a line or space',
+  otherClef: 'Read in another clef',
+  octave: 'Wrong octave',
+  other: 'Other',
+};
+
+export interface ConfusionRow {
+  key: string; // expected clef, or heard, and pitch
+  clef: StaffClef | null; // null for heard notes
+  pitch: string;
+  attempts: number;
+  mistakes: number;
+  played: Record<number, number>; // counts by played MIDI note, correct one included
+}
+
+const STAFF_CLEFS: StaffClef[] = ['treble', 'bass', 'alto', 'tenor'];
+const HEARD_MODES: GameMode[] = ['hearing', 'intervals', 'dictation'];
+
+function splitKey(key: string): { clef: StaffClef | null; pitch: string } {
+  const [clef, pitch] = key.split(':');
+  return { clef: clef === 'heard' ? null : (clef as StaffClef), pitch };
+}
+
+/**
+ * Get whether the notes of a mode are read or heard
+ */
+export function getNoteSource(mode: GameMode): NoteSource {
+  return HEARD_MODES.includes(mode) ? 'heard' : 'read';
+}
+
+/**
+ * Record the note played for an expected one
+ */
+export function recordConfusion(
+  matrix: ConfusionMatrix,
+  expected: NoteSpec,
+  playedMidi: number,
+  source: NoteSource
+): ConfusionMatrix {
+  const key = `${source === 'heard' ? 'heard' : expected.clef}:${expected.pitch}`;
+  const row = matrix[key] ?? {};
+  return { ...matrix, [key]: { ...row, [playedMidi]: (row[playedMidi] ?? 0) + 1 } };
+}
+
+/**
+ * Add up several matrices, such as those of past sessions
+ */
+export function mergeConfusions(matrices: ConfusionMatrix[]): ConfusionMatrix {
+  const merged: ConfusionMatrix = {};
+  matrices.forEach((matrix) => {
+    Object.entries(matrix).forEach(([key, row]) => {
+      const total = { ...merged[key] };
+      Object.entries(row).forEach(([midi, count]) => {
+        total[Number(midi)] = (total[Number(midi)] ?? 0) + count;
+      });
+      merged[key] = total;
+    });
+  });
+  return merged;
+}
+
+/**
+ * Work out what kind of mistake a played note was, or null when it was right
+ * Heard notes (no clef) were never on a staff, so only the octave can explain them
+ */
+export function classifyMistake(
+  clef: StaffClef | null,
+  pitch: string,
+  playedMidi: number
+): MistakeKind | null {
+  const expectedMidi = pitchToMidi(pitch);
+  if (playedMidi === expectedMidi) return null;
+  if (clef === null) return (playedMidi - expectedMidi) % 12 === 0 ? 'octave' : 'other';
+
+  const { letterIndex, offset, octave } = parsePitch(pitch);
+  const natural = naturalMidi(letterIndex, octave);
+  if (offset !== 0 && playedMidi === natural) return 'missedAccidental';
+
+  // The note a line or space away, with the same accidental or none
+  const step = getDiatonicStep(pitch);
+  const isNeighbour = [step - 1, step + 1].some((moved) => {
+    const movedNatural = naturalMidi(((moved % 7) + 7) % 7, Math.floor(moved / 7));
+    return playedMidi === movedNatural || playedMidi === movedNatural + offset;
+  });
+  if (isNeighbour) return 'lineSpace';
+
+  // Anything else this close was read on the right line or space
+  if (Math.abs(playedMidi - natural) <= 2) return 'wrongAccidental';
+
+  const isOtherClef = STAFF_CLEFS.some(
+    (other) => other !== clef && pitchToMidi(readOnClef(pitch, clef, other)) === playedMidi
+  );
+  if (isOtherClef) return 'otherClef';
+
+  if ((playedMidi - expectedMidi) % 12 === 0) return 'octave';
+  return 'other';
+}
+
+/**
+ * Get the rows of a matrix, most mistakes first
+ */
+export function getConfusionRows(matrix: ConfusionMatrix): ConfusionRow[] {
+  return Object.entries(matrix)
+    .map(([key, played]) => {
+      const { clef, pitch } = splitKey(key);
+      const expectedMidi = pitchToMidi(pitch);
+      const counts = Object.entries(played);
+      const attempts = counts.reduce((sum, [, count]) => sum + count, 0);
+      const correct = played[expectedMidi] ?? 0;
+      return { key, clef, pitch, attempts, mistakes: attempts - correct, played };
+    })
+    .sort((a, b) => b.mistakes - a.mistakes || a.key.localeCompare(b.key));
+}
+
+/**
+ * Count the mistakes of each kind
+ */
+export function countMistakes(matrix: ConfusionMatrix): Record<MistakeKind, number> {
+  const counts: Record<MistakeKind, number> = {
+    missedAccidental: 0,
+    wrongAccidental: 0,
+    lineSpace: 0,
+    otherClef: 0,
+    octave: 0,
+    other: 0,
+  };
+
+  Object.entries(matrix).forEach(([key, row]) => {
+    const { clef, pitch } = splitKey(key);
+    Object.entries(row).forEach(([midi, count]) => {
+      const kind = classifyMistake(clef, pitch, Number(midi));
+      if (kind) counts[kind] += count;
+    });
+  });
+  return counts;
+}
+
+/**
+ * Count how often each key was played by mistake, for a heatmap on the keyboard
+ */
+export function getWrongKeyCounts(matrix: ConfusionMatrix): Record<number, number> {
+  const counts: Record<number, number> = {};
+  Object.entries(matrix).forEach(([key, row]) => {
+    const expectedMidi = pitchToMidi(splitKey(key).pitch);
+    Object.entries(row).forEach(([midi, count]) => {
+      if (Number(midi) === expectedMidi) return;
+      counts[Number(midi)] = (counts[Number(midi)] ?? 0) + count;
+    });
+  });
+  return counts;
+}
+
+/**
+ * Write every (expected, played) pair as CSV, one line per pair with its count
+ */
+export function exportConfusionsCsv(matrix: ConfusionMatrix): string {
+  const lines = ['clef,expected,played,count,mistake'];
+  getConfusionRows(matrix).forEach(({ clef, pitch, played }) => {
+    Object.entries(played).forEach(([midi, count]) => {
+      const kind = classifyMistake(clef, pitch, Number(midi));
+      const row = [clef ?? 'heard', pitch, midiToPitch(Number(midi)), count, kind ?? 'correct'];
+      lines.push(row.join(','));
+    });
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,107 @@
+// Game engine: one pure reducer over timestamped actions, so a game can be logged and replayed
+
+import { DEFAULT_SETTINGS, GameSettings, GameSnapshot } from './types';
+import { SkillModel } from './adaptive';
+import {
+  clearFlashError,
+  expirePendingChord,
+  handleInput,
+  handleNoteOff,
+  isGameActive,
+  pauseGame,
+  registerDictationPlayback,
+  resumeGame,
+  startGame,
+  tickTimedGame,
+} from './gameLoop';
+
+// Every action carries the time it happened (ms, on the clock of getCurrentTime)
+export type GameAction =
+  | { type: 'start'; at: number; settings: GameSettings; seed: number; skill?: SkillModel }
+  | { type: 'noteOn'; at: number; midi: number; latencyMs?: number }
+  | { type: 'noteOff'; at: number; midi: number }
+  | { type: 'pause'; at: number }
+  | { type: 'resume'; at: number }
+  | { type: 'tick'; at: number } // a timer fired: expire chords and miss passed notes
+  | { type: 'replayPhrase'; at: number } // a dictation phrase was played back
+  | { type: 'clearFlash'; at: number }
+  | { type: 'quit'; at: number };
+
+export interface GameState {
+  settings: GameSettings; // settings the game was started with
+  snapshot: GameSnapshot | null; // null before the first game and after quitting
+  log: GameAction[]; // actions of the last game that changed it, starting with its start
+}
+
+export const INITIAL_GAME_STATE: GameState = {
+  settings: DEFAULT_SETTINGS,
+  snapshot: null,
+  log: [],
+};
+
+/**
+ * Apply an action to a running game
+ * Returns the snapshot unchanged when the action does nothing, such as a note while paused
+ */
+function applyAction(
+  snapshot: GameSnapshot,
+  settings: GameSettings,
+  action: GameAction
+): GameSnapshot {
+  switch (action.type) {
+    case 'noteOn':
+      return isGameActive(snapshot)
+        ? handleInput(snapshot, action.midi, settings, action.latencyMs ?? 0, action.at)
+        : snapshot;
+    case 'noteOff':
+      return handleNoteOff(snapshot, action.midi, action.at);
+    case 'pause':
+      return isGameActive(snapshot) ? pauseGame(snapshot, action.at) : snapshot;
+    case 'resume':
+      return snapshot.isPaused && !snapshot.isGameOver ? resumeGame(snapshot, action.at) : snapshot;
+    case 'tick': {
+      const expired = expirePendingChord(snapshot, settings, action.at);
+      return tickTimedGame(expired, settings, action.at);
+    }
+    case 'replayPhrase':
+      return registerDictationPlayback(snapshot, settings);
+    case 'clearFlash':
+      return snapshot.flashError ? clearFlashError(snapshot) : snapshot;
+    default:
+      return snapshot;
+  }
+}
+
+/**
+ * Advance the game by one action
+ * Reads no clock and no global random source: time comes from the actions and the notes
+ * from the seed and skill model of the start action, so the same actions always give the
+ * same game
+ */
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  if (action.type === 'start') {
+    return {
+      settings: action.settings,
+      snapshot: startGame(action.settings, action.at, action.seed, action.skill),
+      log: [action],
+    };
+  }
+
+  if (!state.snapshot) return state;
+
+  if (action.type === 'quit') {
+    return { ...state, snapshot: null, log: [...state.log, action] };
+  }
+
+  const snapshot = applyAction(state.snapshot, state.settings, action);
+  if (snapshot === state.snapshot) return state;
+
+  return { ...state, snapshot, log: [...state.log, action] };
+}
+
+/**
+ * Play a logged game again from its actions, starting with its start action
+ */
+export function replayGame(actions: GameAction[]): GameState {
+  return actions.reduce(gameReducer, INITIAL_GAME_STATE);
+}
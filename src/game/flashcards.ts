@@ -0,0 +1,284 @@
+// Flashcards: every note a card, reviewed on an SM-2 spaced-repetition schedule
+// Times here are wall clock milliseconds (Date.now), as reviews are days apart
+
+import { DIFFICULTY_CONFIGS, GameSettings, NoteSpec, StaffClef } from './types';
+import {
+  countLedgerLines,
+  getAccidental,
+  isNatural,
+  midiToPitch,
+  parsePitch,
+  pitchToMidi,
+  pitchToVexKey,
+  spellMidi,
+} from './mapping';
+
+export interface Flashcard {
+  id: string; // clef and spelled pitch, e.g. "bass:F#3"
+  clef: StaffClef;
+  pitch: string;
+  repetitions: number; // reviews recalled in a row
+  intervalDays: number; // days until the next review
+  ease: number; // SM-2 easiness factor: how fast the interval grows
+  lapses: number; // times the card was forgotten after being learned
+  dueAt: number | null; // when the next review is due; null until first reviewed
+  introducedAt: number | null; // when the card was first reviewed
+}
+
+// Cards by id
+export type FlashcardDeck = Record<string, Flashcard>;
+
+// SM-2 recall grade: 0-2 forgotten, 3 recalled with difficulty, 5 recalled at once
+export type RecallGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface FlashcardReview {
+  cardId: string;
+  isCorrect: boolean;
+  grade: RecallGrade;
+  intervalDays: number; // days until the card comes back
+}
+
+export interface FlashcardSession {
+  queue: string[]; // ids of the cards left today; the first one is shown
+  shownAt: number; // when the current card was shown
+  graded: string[]; // ids of cards already scheduled today; repeats do not count again
+  reviewed: number; // answers given, repeats included
+  correct: number;
+  flashError: boolean;
+  lastReview: FlashcardReview | null;
+}
+
+export const NEW_CARDS_PER_DAY = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Response times of a correct answer for each recall grade
+const INSTANT_RECALL_MS = 1500;
+const HESITANT_RECALL_MS = 3000;
+
+// SM-2 repeats cards within the day until they are recalled at least this well
+const PASSING_GRADE = 4;
+
+/**
+ * Get the id of the card for a note on a clef
+ */
+export function getCardId(clef: StaffClef, pitch: string): string {
+  return `${clef}:${pitch}`;
+}
+
+/**
+ * Create a card that was never reviewed
+ */
+export function createCard(clef: StaffClef, pitch: string): Flashcard {
+  return {
+    id: getCardId(clef, pitch),
+    clef,
+    pitch,
+    repetitions: 0,
+    intervalDays: 0,
+    ease: INITIAL_EASE,
+    lapses: 0,
+    dueAt: null,
+    introducedAt: null,
+  };
+}
+
+/**
+ * Get the clefs the settings practise
+ */
+function getPractisedClefs(settings: GameSettings): StaffClef[] {
+  if (settings.clef === 'both') return ['treble', 'bass'];
+  if (settings.clef === 'mixed') return settings.mixedClefs;
+  return [settings.clef];
+}
+
+/**
+ * Get the ids of the cards for the notes of the settings' difficulty and clefs
+ * Every staff position in a clef's range is a card, with its sharp and flat spellings
+ * when the difficulty has accidentals; E#, B#, Cb, Fb and double accidentals only come
+ * with double accidentals
+ */
+export function getDeckCardIds(settings: GameSettings): string[] {
+  const config = DIFFICULTY_CONFIGS[settings.difficulty];
+  const offsets = config.allowNaturalsOnly
+    ? [0]
+    : settings.allowDoubleAccidentals
+      ? [-2, -1, 0, 1, 2]
+      : [-1, 0, 1];
+
+  return getPractisedClefs(settings).flatMap((clef) => {
+    const { minMidi, maxMidi } = config.clefRanges[clef];
+    const ids: string[] = [];
+
+    for (let natural = minMidi; natural <= maxMidi; natural++) {
+      if (!isNatural(natural)) continue;
+      const { letterIndex, octave } = parsePitch(midiToPitch(natural));
+
+      offsets.forEach((offset) => {
+        const midi = natural + offset;
+        if (midi < minMidi || midi > maxMidi) return;
+        if (!settings.allowDoubleAccidentals && offset !== 0 && isNatural(midi)) return;
+
+        const pitch = spellMidi(midi, letterIndex, octave)!.pitch;
+        if (countLedgerLines(pitch, clef) > config.maxLedgerLines) return;
+        ids.push(getCardId(clef, pitch));
+      });
+    }
+
+    return ids;
+  });
+}
+
+/**
+ * Add cards for any of the given ids the deck does not have yet
+ */
+export function addCards(deck: FlashcardDeck, ids: string[]): FlashcardDeck {
+  const missing = ids.filter((id) => !deck[id]);
+  if (missing.length === 0) return deck;
+
+  const added = { ...deck };
+  missing.forEach((id) => {
+    const [clef, pitch] = id.split(':');
+    added[id] = createCard(clef as StaffClef, pitch);
+  });
+  return added;
+}
+
+/**
+ * Grade how well a card was recalled from the answer and how long it took
+ */
+export function getRecallGrade(isCorrect: boolean, responseMs: number): RecallGrade {
+  if (!isCorrect) return 1;
+  if (responseMs <= INSTANT_RECALL_MS) return 5;
+  if (responseMs <= HESITANT_RECALL_MS) return 4;
+  return 3;
+}
+
+/**
+ * Schedule the next review of a card after grading it (SM-2)
+ * A forgotten card starts over a day later; a recalled one comes back after
+ * 1 day, then 6 days, then its last interval times its ease
+ */
+export function scheduleCard(card: Flashcard, grade: RecallGrade, now: number): Flashcard {
+  const isRecalled = grade >= 3;
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+
+  let intervalDays = 1;
+  if (isRecalled && card.repetitions === 1) intervalDays = 6;
+  if (isRecalled && card.repetitions > 1) intervalDays = Math.round(card.intervalDays * ease);
+
+  return {
+    ...card,
+    repetitions: isRecalled ? card.repetitions + 1 : 0,
+    intervalDays,
+    ease,
+    lapses: !isRecalled && card.repetitions > 0 ? card.lapses + 1 : card.lapses,
+    dueAt: now + intervalDays * DAY_MS,
+    introducedAt: card.introducedAt ?? now,
+  };
+}
+
+/**
+ * Get the first moment of the day after the one a time falls in, in local time
+ */
+export function getEndOfDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(24, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Build the review queue of the day from a deck: the cards due by the end of today,
+ * most overdue first, then new cards up to the daily limit
+ * @param ids - Cards of the material being practised
+ */
+export function buildReviewQueue(
+  deck: FlashcardDeck,
+  ids: string[],
+  now: number,
+  newCardsPerDay: number = NEW_CARDS_PER_DAY
+): string[] {
+  const endOfDay = getEndOfDay(now);
+  const startOfDay = endOfDay - DAY_MS;
+  const cards = ids.map((id) => deck[id]).filter((card): card is Flashcard => !!card);
+
+  const due = cards
+    .filter((card) => card.dueAt !== null && card.dueAt < endOfDay)
+    .sort((a, b) => a.dueAt! - b.dueAt!);
+
+  // New cards already started today count against today's limit
+  const introducedToday = Object.values(deck).filter(
+    (card) => card.introducedAt !== null && card.introducedAt >= startOfDay
+  ).length;
+  const fresh = cards
+    .filter((card) => card.dueAt === null)
+    .slice(0, Math.max(0, newCardsPerDay - introducedToday));
+
+  return [...due, ...fresh].map((card) => card.id);
+}
+
+/**
+ * Start the reviews of the day
+ */
+export function startFlashcardSession(queue: string[], now: number): FlashcardSession {
+  return {
+    queue,
+    shownAt: now,
+    graded: [],
+    reviewed: 0,
+    correct: 0,
+    flashError: false,
+    lastReview: null,
+  };
+}
+
+/**
+ * Get the note to show for a card
+ */
+export function getCardNote(card: Flashcard): NoteSpec {
+  return {
+    midi: pitchToMidi(card.pitch),
+    pitch: card.pitch,
+    vexKey: pitchToVexKey(card.pitch),
+    clef: card.clef,
+    accidental: getAccidental(card.pitch),
+    keySignature: 'C',
+  };
+}
+
+/**
+ * Answer the current card with a played note
+ * The first answer of the day schedules the card; a card not recalled well enough goes
+ * to the back of the queue and is asked again until it is
+ */
+export function answerFlashcard(
+  deck: FlashcardDeck,
+  session: FlashcardSession,
+  midiNote: number,
+  now: number
+): { deck: FlashcardDeck; session: FlashcardSession } {
+  const cardId = session.queue[0];
+  const card = cardId ? deck[cardId] : undefined;
+  if (!card) return { deck, session };
+
+  const isCorrect = midiNote === pitchToMidi(card.pitch);
+  const grade = getRecallGrade(isCorrect, Math.max(0, now - session.shownAt));
+  const isFirstAnswer = !session.graded.includes(cardId);
+  const scheduled = isFirstAnswer ? scheduleCard(card, grade, now) : card;
+
+  const rest = session.queue.slice(1);
+  return {
+    deck: isFirstAnswer ? { ...deck, [cardId]: scheduled } : deck,
+    session: {
+      queue: grade < PASSING_GRADE ? [...rest, cardId] : rest,
+      shownAt: now,
+      graded: isFirstAnswer ? [...session.graded, cardId] : session.graded,
+      reviewed: session.reviewed + 1,
+      correct: session.correct + (isCorrect ? 1 : 0),
+      flashError: !isCorrect,
+      lastReview: { cardId, isCorrect, grade, intervalDays: scheduled.intervalDays },
+    },
+  };
+}
@@ -1,22 +1,46 @@
 // Core game loop and state management
 
-import { GameSettings, GameSnapshot } from './types';
-import { generateSequence, regenerateSequence } from './noteGen';
+import { GameSettings, GameSnapshot, NoteSpec, TimingJudgement } from './types';
+import { generateSequence } from './noteGen';
+import { createSeed, createSequenceRandom } from './random';
+import { EMPTY_SKILL_MODEL, SkillModel, isReadingMode, recordNoteResult } from './adaptive';
+import { recordNoteAttempt } from './history';
+import { ConfusionMatrix, getNoteSource, recordConfusion } from './confusion';
+import { getMeantChordTone, getTargetMidis } from './chordGen';
+import { getIntervalTarget, judgeIntervalAnswer, recordIntervalResult } from './intervals';
 import {
   calculateScoreForCorrect,
+  calculateDictationCredit,
   calculateAccuracy,
   updateAvgResponseTime,
 } from './scoring';
+import {
+  LEAD_IN_BEATS,
+  createHeldNote,
+  getBeatMs,
+  getHitWindowMs,
+  getNoteTime,
+  getSequenceBeats,
+  isPlayable,
+  isTimedMode,
+  judgeHold,
+  judgeTiming,
+} from './timing';
 import { getCurrentTime } from '../utils/time';
 
 /**
  * Initialize a new game
+ * The same seed and settings always give the same notes; the clock defaults to the real one
  */
-export function startGame(settings: GameSettings): GameSnapshot {
-  const sequence = generateSequence(settings);
-  const now = getCurrentTime();
+export function startGame(
+  settings: GameSettings,
+  now: number = getCurrentTime(),
+  seed: number = createSeed(),
+  skill: SkillModel = EMPTY_SKILL_MODEL
+): GameSnapshot {
+  const sequence = generateGameSequence(settings, seed, 0, skill);
 
-  return {
+  const snapshot: GameSnapshot = {
     sequence,
     currentIndex: 0,
     score: 0,
@@ -32,33 +56,582 @@ export function startGame(settings: GameSettings): GameSnapshot {
     isGameOver: false,
     lastWasCorrect: null,
     flashError: false,
+    pendingNotes: [],
+    pendingSince: null,
+    sequenceNumber: 0,
+    seed,
+    skill,
+    noteResults: {},
+    confusions: {},
+    intervalResults: {},
+    playbacksUsed: 0,
+    dictationMarks: null,
+    // Timed play starts after a count-in
+    beatZeroAt: isTimedMode(settings.mode)
+      ? now + LEAD_IN_BEATS * getBeatMs(settings.tempoBpm)
+      : null,
+    pausedAt: null,
+    noteTimings: [],
+    timingResults: { early: 0, onTime: 0, late: 0, missed: 0 },
+    heldNote: null,
+    holdResults: { held: 0, short: 0 },
   };
+
+  return snapshot.beatZeroAt !== null ? skipUnplayable(snapshot) : snapshot;
+}
+
+/**
+ * Generate the nth sequence of a game from its seed, for the player's current skill
+ */
+function generateGameSequence(
+  settings: GameSettings,
+  seed: number,
+  sequenceNumber: number,
+  skill: SkillModel
+): NoteSpec[] {
+  const random = createSequenceRandom(seed, sequenceNumber);
+  return generateSequence(settings, sequenceNumber, random, skill);
 }
 
 /**
  * Handle MIDI input during gameplay
+ * latencyMs is the calibrated delay of the input: the press is measured against
+ * prompt times moved that much later, as that is when the player could react to them
  */
 export function handleInput(
   snapshot: GameSnapshot,
   midiNote: number,
-  settings: GameSettings
+  settings: GameSettings,
+  latencyMs: number = 0,
+  now: number = getCurrentTime()
 ): GameSnapshot {
   if (snapshot.isPaused || snapshot.isGameOver) {
     return snapshot;
   }
 
+  const measured: GameSnapshot = {
+    ...snapshot,
+    expectingNoteSince: snapshot.expectingNoteSince + latencyMs,
+    beatZeroAt: snapshot.beatZeroAt === null ? null : snapshot.beatZeroAt + latencyMs,
+  };
+  const result = dispatchInput(measured, midiNote, settings, now);
+
+  // Move the clocks back; a new prompt starts now, which needs no correction
+  return {
+    ...result,
+    expectingNoteSince:
+      result.expectingNoteSince === measured.expectingNoteSince
+        ? snapshot.expectingNoteSince
+        : result.expectingNoteSince,
+    beatZeroAt: result.beatZeroAt === null ? null : result.beatZeroAt - latencyMs,
+  };
+}
+
+/**
+ * Route an input to the handler of the mode or of the current note
+ */
+function dispatchInput(
+  snapshot: GameSnapshot,
+  midiNote: number,
+  settings: GameSettings,
+  now: number
+): GameSnapshot {
   const expectedNote = snapshot.sequence[snapshot.currentIndex];
-  const now = getCurrentTime();
+
+  if (settings.mode === 'dictation') {
+    return handleDictationInput(snapshot, midiNote, settings, now);
+  }
+
+  if (isTimedMode(settings.mode)) {
+    return handleTimedInput(snapshot, midiNote, settings, now);
+  }
+
+  if (expectedNote.chord) {
+    return handleChordInput(snapshot, midiNote, settings, now);
+  }
+
+  if (expectedNote.interval) {
+    return handleIntervalInput(snapshot, midiNote, settings, now);
+  }
+
   const isCorrect = midiNote === expectedNote.midi;
+  const responseMs = Math.max(0, now - snapshot.expectingNoteSince);
 
-  // Increment attempts
-  const newSnapshot = { ...snapshot, attempts: snapshot.attempts + 1 };
+  // Increment attempts, and learn how well read notes are known
+  const newSnapshot = {
+    ...snapshot,
+    attempts: snapshot.attempts + 1,
+    skill: isReadingMode(settings.mode)
+      ? recordNoteResult(snapshot.skill, expectedNote, isCorrect, responseMs)
+      : snapshot.skill,
+    noteResults: recordNoteAttempt(snapshot.noteResults, expectedNote, isCorrect, responseMs),
+    confusions: recordConfusion(
+      snapshot.confusions,
+      expectedNote,
+      midiNote,
+      getNoteSource(settings.mode)
+    ),
+  };
 
   if (isCorrect) {
     return handleCorrectInput(newSnapshot, now, settings);
   } else {
-    return handleIncorrectInput(newSnapshot, settings);
+    return handleIncorrectInput(newSnapshot, settings, now);
+  }
+}
+
+/**
+ * Collect a note-on towards the current chord
+ * The chord is judged once every tone is held, or as soon as a wrong note
+ * arrives or the note-ons spread wider than the configured window
+ */
+function handleChordInput(
+  snapshot: GameSnapshot,
+  midiNote: number,
+  settings: GameSettings,
+  now: number
+): GameSnapshot {
+  const expectedNote = snapshot.sequence[snapshot.currentIndex];
+  const targets = getTargetMidis(expectedNote);
+  const responseMs = Math.max(0, now - snapshot.expectingNoteSince);
+
+  // Too slow to count as one chord: judge what was collected so far, then start
+  // the next attempt with this note
+  if (snapshot.pendingSince !== null && now - snapshot.pendingSince > settings.chordWindowMs) {
+    const expired = expirePendingChord(snapshot, settings, now);
+    return expired.isGameOver ? expired : handleChordInput(expired, midiNote, settings, now);
+  }
+
+  if (!targets.includes(midiNote)) {
+    return handleIncorrectInput(
+      {
+        ...snapshot,
+        attempts: snapshot.attempts + 1,
+        pendingNotes: [],
+        pendingSince: null,
+        noteResults: recordNoteAttempt(snapshot.noteResults, expectedNote, false, responseMs),
+        confusions: recordChordConfusions(snapshot.confusions, expectedNote, [
+          ...snapshot.pendingNotes,
+          midiNote,
+        ]),
+      },
+      settings,
+      now
+    );
+  }
+
+  if (snapshot.pendingNotes.includes(midiNote)) {
+    return snapshot;
+  }
+
+  const pendingNotes = [...snapshot.pendingNotes, midiNote];
+  const pendingSince = snapshot.pendingSince ?? now;
+
+  if (pendingNotes.length < targets.length) {
+    return { ...snapshot, pendingNotes, pendingSince };
+  }
+
+  return handleCorrectInput(
+    {
+      ...snapshot,
+      attempts: snapshot.attempts + 1,
+      pendingNotes: [],
+      pendingSince: null,
+      noteResults: recordNoteAttempt(snapshot.noteResults, expectedNote, true, responseMs),
+      confusions: recordChordConfusions(snapshot.confusions, expectedNote, pendingNotes),
+    },
+    now,
+    settings
+  );
+}
+
+/**
+ * Record each note played for a judged chord against the tone it was meant to be
+ */
+function recordChordConfusions(
+  confusions: ConfusionMatrix,
+  chord: NoteSpec,
+  played: number[]
+): ConfusionMatrix {
+  return played.reduce((recorded, midi, index) => {
+    const meant = getMeantChordTone(chord, midi, played.slice(0, index));
+    return recordConfusion(recorded, meant, midi, 'read');
+  }, confusions);
+}
+
+/**
+ * Collect the notes of an interval answer
+ * The answer is judged on its second note, or on the first one when it
+ * cannot start the expected interval
+ */
+function handleIntervalInput(
+  snapshot: GameSnapshot,
+  midiNote: number,
+  settings: GameSettings,
+  now: number
+): GameSnapshot {
+  const expectedNote = snapshot.sequence[snapshot.currentIndex];
+  const interval = expectedNote.interval!;
+  const pendingNotes = [...snapshot.pendingNotes, midiNote];
+  const judgement = judgeIntervalAnswer(
+    interval,
+    pendingNotes,
+    settings.intervalPlayback,
+    settings.transposedAnswer
+  );
+
+  if (judgement === 'pending') {
+    return { ...snapshot, pendingNotes };
+  }
+
+  // The answer is judged on its last note, so that is the one recorded
+  const target = getIntervalTarget(
+    interval,
+    pendingNotes,
+    settings.intervalPlayback,
+    settings.transposedAnswer
+  );
+
+  const isCorrect = judgement === 'correct';
+  const responseMs = Math.max(0, now - snapshot.expectingNoteSince);
+  const judged = {
+    ...snapshot,
+    attempts: snapshot.attempts + 1,
+    pendingNotes: [],
+    intervalResults: recordIntervalResult(snapshot.intervalResults, interval.name, isCorrect),
+    noteResults: recordNoteAttempt(snapshot.noteResults, expectedNote, isCorrect, responseMs),
+    confusions: recordConfusion(snapshot.confusions, target, midiNote, 'heard'),
+  };
+
+  return isCorrect
+    ? handleCorrectInput(judged, now, settings)
+    : handleIncorrectInput(judged, settings, now);
+}
+
+/**
+ * Collect the notes of a played-back dictation phrase
+ * The phrase is judged once it has as many notes as the sequence, with
+ * partial credit for every correct position; anything short of a perfect
+ * phrase costs a life
+ */
+function handleDictationInput(
+  snapshot: GameSnapshot,
+  midiNote: number,
+  settings: GameSettings,
+  now: number
+): GameSnapshot {
+  const pendingNotes = [...snapshot.pendingNotes, midiNote];
+  const { sequence } = snapshot;
+
+  if (pendingNotes.length < sequence.length) {
+    return { ...snapshot, pendingNotes };
+  }
+
+  const credit = calculateDictationCredit(
+    pendingNotes,
+    sequence.map((note) => note.midi)
+  );
+  const isPerfect = credit.correctPositions === sequence.length;
+  const newLives = isPerfect ? snapshot.lives : snapshot.lives - 1;
+  const newStreak = isPerfect ? snapshot.streak + 1 : 0;
+
+  // Response time is spread over the notes of the phrase
+  const msPerNote = (now - snapshot.expectingNoteSince) / sequence.length;
+  const newAvgMs =
+    credit.correctPositions > 0
+      ? updateAvgResponseTime(snapshot.avgMsPerNote, msPerNote, snapshot.correct + 1)
+      : snapshot.avgMsPerNote;
+
+  const judged: GameSnapshot = {
+    ...snapshot,
+    score: snapshot.score + credit.points,
+    streak: newStreak,
+    bestStreak: Math.max(snapshot.bestStreak, newStreak),
+    attempts: snapshot.attempts + sequence.length,
+    correct: snapshot.correct + credit.correctPositions,
+    lives: Math.max(0, newLives),
+    avgMsPerNote: newAvgMs,
+    pendingNotes: [],
+    dictationMarks: credit.marks,
+    noteResults: sequence.reduce(
+      (results, note, index) => recordNoteAttempt(results, note, credit.marks[index], null),
+      snapshot.noteResults
+    ),
+    confusions: sequence.reduce(
+      (confusions, note, index) => recordConfusion(confusions, note, pendingNotes[index], 'heard'),
+      snapshot.confusions
+    ),
+    lastWasCorrect: isPerfect,
+    flashError: !isPerfect,
+  };
+
+  if (newLives <= 0) {
+    return { ...judged, isGameOver: true };
+  }
+
+  // Every judged phrase is followed by a new one
+  const sequenceNumber = snapshot.sequenceNumber + 1;
+  return {
+    ...judged,
+    sequence: generateGameSequence(settings, snapshot.seed, sequenceNumber, snapshot.skill),
+    sequenceNumber,
+    currentIndex: 0,
+    playbacksUsed: 0,
+    expectingNoteSince: now,
+  };
+}
+
+/**
+ * Judge a note-on against the beat of the current note
+ * A wrong pitch, or a note too far from the beat, counts as a miss
+ */
+function handleTimedInput(
+  snapshot: GameSnapshot,
+  midiNote: number,
+  settings: GameSettings,
+  now: number
+): GameSnapshot {
+  // Settle notes that went past the playhead before this input
+  const ticked = tickTimedGame(snapshot, settings, now);
+  if (ticked.isGameOver || ticked.currentIndex >= ticked.sequence.length) {
+    return ticked;
+  }
+
+  const expectedNote = ticked.sequence[ticked.currentIndex];
+  const offsetMs = now - getNoteTime(ticked, settings, ticked.currentIndex);
+  const judgement =
+    midiNote === expectedNote.midi ? judgeTiming(offsetMs, expectedNote, settings) : null;
+  const heard = {
+    ...ticked,
+    confusions: recordConfusion(ticked.confusions, expectedNote, midiNote, 'read'),
+  };
+
+  if (judgement === null) {
+    return recordTimedNote(heard, 'missed', settings, now);
+  }
+
+  // In rhythm mode the note is also judged on how long it is held
+  let played = heard;
+  if (settings.mode === 'rhythm') {
+    played = heard.heldNote ? releaseHeldNote(heard, now) : heard;
+    played = { ...played, heldNote: createHeldNote(played, settings, played.currentIndex) };
+  }
+
+  return recordTimedNote(played, judgement, settings, now);
+}
+
+/**
+ * Handle a note-off: judges the held length of the last hit note in rhythm mode
+ */
+export function handleNoteOff(
+  snapshot: GameSnapshot,
+  midiNote: number,
+  now: number = getCurrentTime()
+): GameSnapshot {
+  if (snapshot.isPaused || snapshot.isGameOver || snapshot.heldNote?.midi !== midiNote) {
+    return snapshot;
+  }
+
+  return releaseHeldNote(snapshot, now);
+}
+
+/**
+ * Judge the held note as released now; a short note breaks the streak
+ */
+function releaseHeldNote(snapshot: GameSnapshot, now: number): GameSnapshot {
+  const judgement = judgeHold(snapshot.heldNote!, now);
+
+  return {
+    ...snapshot,
+    heldNote: null,
+    holdResults: {
+      ...snapshot.holdResults,
+      [judgement]: snapshot.holdResults[judgement] + 1,
+    },
+    streak: judgement === 'held' ? snapshot.streak : 0,
+    lastWasCorrect: judgement === 'held' ? snapshot.lastWasCorrect : false,
+  };
+}
+
+/**
+ * Move past rests and tied notes, which are not played
+ */
+function skipUnplayable(snapshot: GameSnapshot): GameSnapshot {
+  let { currentIndex } = snapshot;
+  const noteTimings = [...snapshot.noteTimings];
+
+  while (currentIndex < snapshot.sequence.length && !isPlayable(snapshot.sequence, currentIndex)) {
+    noteTimings.push(null);
+    currentIndex++;
+  }
+
+  return currentIndex === snapshot.currentIndex
+    ? snapshot
+    : { ...snapshot, currentIndex, noteTimings };
+}
+
+/**
+ * Mark every note whose hit window has passed as missed
+ * (called by the UI on a timer, and by handleInput before judging)
+ */
+export function tickTimedGame(
+  snapshot: GameSnapshot,
+  settings: GameSettings,
+  now: number = getCurrentTime()
+): GameSnapshot {
+  let current = snapshot;
+
+  while (
+    current.beatZeroAt !== null &&
+    !current.isPaused &&
+    !current.isGameOver &&
+    current.currentIndex < current.sequence.length &&
+    now >
+      getNoteTime(current, settings, current.currentIndex) +
+        getHitWindowMs(current.sequence[current.currentIndex], settings)
+  ) {
+    current = recordTimedNote(current, 'missed', settings, now);
+  }
+
+  return current;
+}
+
+/**
+ * Record the judgement of the current note and move on to the next one
+ * Only on-time notes score; early and late notes break the streak, and
+ * missed notes also cost a life
+ */
+function recordTimedNote(
+  snapshot: GameSnapshot,
+  judgement: TimingJudgement,
+  settings: GameSettings,
+  now: number
+): GameSnapshot {
+  const isOnTime = judgement === 'onTime';
+  const isMissed = judgement === 'missed';
+
+  // The pitch was read right if it was played at all; timing is judged on its own
+  const expectedNote = snapshot.sequence[snapshot.currentIndex];
+  let judged: GameSnapshot = {
+    ...snapshot,
+    attempts: snapshot.attempts + 1,
+    skill: recordNoteResult(snapshot.skill, expectedNote, !isMissed, null),
+    noteResults: recordNoteAttempt(snapshot.noteResults, expectedNote, !isMissed, null),
+    noteTimings: [...snapshot.noteTimings, judgement],
+    timingResults: {
+      ...snapshot.timingResults,
+      [judgement]: snapshot.timingResults[judgement] + 1,
+    },
+    lastWasCorrect: isOnTime,
+    flashError: isMissed,
+  };
+
+  if (isOnTime) {
+    const scoreUpdate = calculateScoreForCorrect(snapshot.score, snapshot.streak);
+    const newCorrect = snapshot.correct + 1;
+    judged = {
+      ...judged,
+      score: scoreUpdate.score,
+      streak: scoreUpdate.streak,
+      bestStreak: Math.max(snapshot.bestStreak, scoreUpdate.streak),
+      correct: newCorrect,
+      avgMsPerNote: updateAvgResponseTime(
+        snapshot.avgMsPerNote,
+        now - snapshot.expectingNoteSince,
+        newCorrect
+      ),
+    };
+  } else {
+    judged = { ...judged, streak: 0 };
   }
+
+  if (isMissed) {
+    const newLives = snapshot.lives - 1;
+    if (newLives <= 0) {
+      return { ...judged, lives: 0, isGameOver: true };
+    }
+    judged = { ...judged, lives: newLives };
+  }
+
+  const advanced = skipUnplayable({
+    ...judged,
+    currentIndex: snapshot.currentIndex + 1,
+    expectingNoteSince: now,
+  });
+  if (advanced.currentIndex < snapshot.sequence.length) {
+    return advanced;
+  }
+
+  // The next sequence follows straight after the last note, keeping the pulse
+  const sequenceNumber = snapshot.sequenceNumber + 1;
+  const beatZeroAt =
+    (snapshot.beatZeroAt ?? now) +
+    getSequenceBeats(snapshot.sequence) * getBeatMs(settings.tempoBpm);
+
+  return skipUnplayable({
+    ...advanced,
+    sequence: generateGameSequence(settings, snapshot.seed, sequenceNumber, judged.skill),
+    sequenceNumber,
+    currentIndex: 0,
+    beatZeroAt,
+    noteTimings: [],
+  });
+}
+
+/**
+ * Get how many more times the current dictation phrase may be played
+ * (the first listen is always allowed, on top of the configured replays)
+ */
+export function getRemainingPlaybacks(snapshot: GameSnapshot, settings: GameSettings): number {
+  return Math.max(0, 1 + settings.dictationReplays - snapshot.playbacksUsed);
+}
+
+/**
+ * Count one playback of the current dictation phrase
+ * Returns the snapshot unchanged when no playbacks are left
+ */
+export function registerDictationPlayback(
+  snapshot: GameSnapshot,
+  settings: GameSettings
+): GameSnapshot {
+  if (snapshot.isPaused || snapshot.isGameOver) {
+    return snapshot;
+  }
+  if (getRemainingPlaybacks(snapshot, settings) === 0) {
+    return snapshot;
+  }
+
+  return { ...snapshot, playbacksUsed: snapshot.playbacksUsed + 1 };
+}
+
+/**
+ * Judge an incomplete chord once its collection window has elapsed
+ * (called by the UI on a timer, and by handleInput for late note-ons)
+ */
+export function expirePendingChord(
+  snapshot: GameSnapshot,
+  settings: GameSettings,
+  now: number = getCurrentTime()
+): GameSnapshot {
+  if (snapshot.pendingSince === null || snapshot.isPaused || snapshot.isGameOver) {
+    return snapshot;
+  }
+  if (now - snapshot.pendingSince < settings.chordWindowMs) {
+    return snapshot;
+  }
+
+  const expectedNote = snapshot.sequence[snapshot.currentIndex];
+  return handleIncorrectInput(
+    {
+      ...snapshot,
+      attempts: snapshot.attempts + 1,
+      pendingNotes: [],
+      pendingSince: null,
+      noteResults: recordNoteAttempt(snapshot.noteResults, expectedNote, false, null),
+    },
+    settings,
+    now
+  );
 }
 
 /**
@@ -69,8 +642,8 @@ function handleCorrectInput(
   now: number,
   settings: GameSettings
 ): GameSnapshot {
-  // Calculate response time for this note
-  const responseTime = now - snapshot.expectingNoteSince;
+  // Calculate response time for this note (a calibrated press may beat the prompt)
+  const responseTime = Math.max(0, now - snapshot.expectingNoteSince);
 
   // Update score and streak
   const scoreUpdate = calculateScoreForCorrect(snapshot.score, snapshot.streak);
@@ -88,10 +661,17 @@ function handleCorrectInput(
   // Check if sequence is complete
   if (newIndex >= snapshot.sequence.length) {
     // Generate new sequence (endless mode)
-    const newSequence = regenerateSequence(settings);
+    const sequenceNumber = snapshot.sequenceNumber + 1;
+    const newSequence = generateGameSequence(
+      settings,
+      snapshot.seed,
+      sequenceNumber,
+      snapshot.skill
+    );
     return {
       ...snapshot,
       sequence: newSequence,
+      sequenceNumber,
       currentIndex: 0,
       score: scoreUpdate.score,
       streak: scoreUpdate.streak,
@@ -123,7 +703,8 @@ function handleCorrectInput(
  */
 function handleIncorrectInput(
   snapshot: GameSnapshot,
-  settings: GameSettings
+  settings: GameSettings,
+  now: number
 ): GameSnapshot {
   const newLives = snapshot.lives - 1;
   const isGameOver = newLives <= 0;
@@ -140,12 +721,18 @@ function handleIncorrectInput(
   }
 
   // Reset sequence to beginning, generate new sequence
-  const newSequence = regenerateSequence(settings);
-  const now = getCurrentTime();
+  const sequenceNumber = snapshot.sequenceNumber + 1;
+  const newSequence = generateGameSequence(
+    settings,
+    snapshot.seed,
+    sequenceNumber,
+    snapshot.skill
+  );
 
   return {
     ...snapshot,
     sequence: newSequence,
+    sequenceNumber,
     currentIndex: 0, // Reset to beginning
     lives: newLives,
     streak: 0, // Reset streak
@@ -158,22 +745,31 @@ function handleIncorrectInput(
 /**
  * Pause the game
  */
-export function pauseGame(snapshot: GameSnapshot): GameSnapshot {
+export function pauseGame(snapshot: GameSnapshot, now: number = getCurrentTime()): GameSnapshot {
   return {
     ...snapshot,
     isPaused: true,
+    pausedAt: now,
+    heldNote: null, // Keys are let go during a pause
+    pendingNotes: [], // A half-played chord, interval or phrase does not survive a pause
+    pendingSince: null,
   };
 }
 
 /**
  * Resume the game
  */
-export function resumeGame(snapshot: GameSnapshot): GameSnapshot {
-  const now = getCurrentTime();
+export function resumeGame(snapshot: GameSnapshot, now: number = getCurrentTime()): GameSnapshot {
   return {
     ...snapshot,
     isPaused: false,
     expectingNoteSince: now, // Reset timer for current note
+    // Timed play picks up exactly where it stopped
+    beatZeroAt:
+      snapshot.beatZeroAt !== null && snapshot.pausedAt !== null
+        ? snapshot.beatZeroAt + (now - snapshot.pausedAt)
+        : snapshot.beatZeroAt,
+    pausedAt: null,
   };
 }
 
@@ -0,0 +1,202 @@
+// Session history: what each finished game looked like, kept to chart progress over time
+// Session times here are wall clock milliseconds (Date.now), as sessions are days apart
+
+import { ClefChoice, Difficulty, GameMode, GameSettings, GameSnapshot, NoteSpec } from './types';
+import { calculateAccuracy } from './scoring';
+import { ConfusionMatrix } from './confusion';
+
+export interface NoteResult {
+  attempts: number;
+  correct: number;
+  timedCorrect: number; // correct answers whose response time was measured
+  totalMs: number; // summed response time of those answers
+}
+
+// Results by clef and spelled pitch, e.g. "bass:F#3"
+export type NoteResults = Record<string, NoteResult>;
+
+export interface SessionRecord {
+  endedAt: number;
+  settings: GameSettings;
+  seed: number; // plays the same notes again
+  durationSeconds: number;
+  score: number;
+  attempts: number;
+  correct: number;
+  accuracy: number; // percent
+  bestStreak: number;
+  avgMsPerNote: number;
+  noteResults: NoteResults;
+  confusions: ConfusionMatrix;
+}
+
+export interface HistoryFilter {
+  mode: GameMode | 'all';
+  difficulty: Difficulty | 'all';
+  clef: ClefChoice | 'all';
+}
+
+export const ALL_SESSIONS: HistoryFilter = { mode: 'all', difficulty: 'all', clef: 'all' };
+
+// One point of a progress chart
+export interface ProgressPoint {
+  endedAt: number;
+  accuracy: number; // percent
+  avgMs: number | null; // null when no note was answered correctly
+}
+
+export interface HistorySummary {
+  sessions: number;
+  practiceSeconds: number;
+  notes: number;
+  accuracy: number; // percent, over every note of the sessions
+  bestStreak: number;
+}
+
+// Oldest sessions are dropped past this many, keeping storage small
+export const MAX_SESSIONS = 500;
+
+// Notes answered fewer times than this say too little to call them weak
+const MIN_WEAK_NOTE_ATTEMPTS = 3;
+
+function getResultKey(note: NoteSpec): string {
+  return `${note.clef}:${note.pitch}`;
+}
+
+/**
+ * Record an answer to a note
+ * @param responseMs - Time to answer, or null when the answer was not timed
+ */
+export function recordNoteAttempt(
+  results: NoteResults,
+  note: NoteSpec,
+  isCorrect: boolean,
+  responseMs: number | null
+): NoteResults {
+  const key = getResultKey(note);
+  const result = results[key] ?? { attempts: 0, correct: 0, timedCorrect: 0, totalMs: 0 };
+  const isTimed = isCorrect && responseMs !== null;
+
+  return {
+    ...results,
+    [key]: {
+      attempts: result.attempts + 1,
+      correct: result.correct + (isCorrect ? 1 : 0),
+      timedCorrect: result.timedCorrect + (isTimed ? 1 : 0),
+      totalMs: result.totalMs + (isTimed ? responseMs : 0),
+    },
+  };
+}
+
+/**
+ * Add up the results of several sessions note by note
+ */
+export function mergeNoteResults(results: NoteResults[]): NoteResults {
+  const merged: NoteResults = {};
+  results.forEach((session) => {
+    Object.entries(session).forEach(([key, result]) => {
+      const total = merged[key] ?? { attempts: 0, correct: 0, timedCorrect: 0, totalMs: 0 };
+      merged[key] = {
+        attempts: total.attempts + result.attempts,
+        correct: total.correct + result.correct,
+        timedCorrect: total.timedCorrect + result.timedCorrect,
+        totalMs: total.totalMs + result.totalMs,
+      };
+    });
+  });
+  return merged;
+}
+
+/**
+ * Describe a finished game for the history
+ */
+export function createSessionRecord(
+  snapshot: GameSnapshot,
+  settings: GameSettings,
+  durationSeconds: number,
+  endedAt: number
+): SessionRecord {
+  return {
+    endedAt,
+    settings,
+    seed: snapshot.seed,
+    durationSeconds,
+    score: snapshot.score,
+    attempts: snapshot.attempts,
+    correct: snapshot.correct,
+    accuracy: calculateAccuracy(snapshot.correct, snapshot.attempts),
+    bestStreak: snapshot.bestStreak,
+    avgMsPerNote: snapshot.avgMsPerNote,
+    noteResults: snapshot.noteResults,
+    confusions: snapshot.confusions,
+  };
+}
+
+/**
+ * Add a session to the history, dropping the oldest ones past the limit
+ */
+export function addSession(
+  history: SessionRecord[],
+  record: SessionRecord,
+  maxSessions: number = MAX_SESSIONS
+): SessionRecord[] {
+  return [...history, record].slice(-maxSessions);
+}
+
+/**
+ * Get the sessions played with the filtered mode, difficulty and clef, oldest first
+ */
+export function filterSessions(history: SessionRecord[], filter: HistoryFilter): SessionRecord[] {
+  return history
+    .filter(
+      ({ settings }) =>
+        (filter.mode === 'all' || settings.mode === filter.mode) &&
+        (filter.difficulty === 'all' || settings.difficulty === filter.difficulty) &&
+        (filter.clef === 'all' || settings.clef === filter.clef)
+    )
+    .sort((a, b) => a.endedAt - b.endedAt);
+}
+
+/**
+ * Get the accuracy and speed of each session, for charting
+ */
+export function getProgressPoints(sessions: SessionRecord[]): ProgressPoint[] {
+  return sessions.map((session) => ({
+    endedAt: session.endedAt,
+    accuracy: session.accuracy,
+    avgMs: session.correct > 0 ? session.avgMsPerNote : null,
+  }));
+}
+
+/**
+ * Sum up a set of sessions
+ */
+export function summarizeSessions(sessions: SessionRecord[]): HistorySummary {
+  const notes = sessions.reduce((sum, session) => sum + session.attempts, 0);
+  const correct = sessions.reduce((sum, session) => sum + session.correct, 0);
+
+  return {
+    sessions: sessions.length,
+    practiceSeconds: sessions.reduce((sum, session) => sum + session.durationSeconds, 0),
+    notes,
+    accuracy: calculateAccuracy(correct, notes),
+    bestStreak: sessions.reduce((best, session) => Math.max(best, session.bestStreak), 0),
+  };
+}
+
+/**
+ * Get the notes missed most often over a set of sessions, worst first
+ */
+export function getWeakestNotes(
+  sessions: SessionRecord[],
+  count: number
+): { key: string; result: NoteResult }[] {
+  const totals = mergeNoteResults(sessions.map((session) => session.noteResults));
+
+  return Object.entries(totals)
+    .filter(([, result]) => result.attempts >= MIN_WEAK_NOTE_ATTEMPTS)
+    .map(([key, result]) => ({ key, result }))
+    .filter(({ result }) => result.correct < result.attempts)
+    .sort((a, b) => a.result.correct / a.result.attempts - b.result.correct / b.result.attempts)
+    .slice(0, count);
+}
@@ -0,0 +1,176 @@
+// Interval generation and judging for the interval ear-training mode
+
+import {
+  GameSettings,
+  NoteSpec,
+  DifficultyConfig,
+  IntervalName,
+  IntervalPlayback,
+  IntervalSpec,
+  IntervalResult,
+  Random,
+} from './types';
+import { getRandomMidi, midiToPitch, pitchToVexKey, suggestClef } from './mapping';
+
+export const INTERVAL_SEMITONES: Record<IntervalName, number> = {
+  m2: 1,
+  M2: 2,
+  m3: 3,
+  M3: 4,
+  P4: 5,
+  TT: 6,
+  P5: 7,
+  m6: 8,
+  M6: 9,
+  m7: 10,
+  M7: 11,
+  P8: 12,
+  m9: 13,
+  M9: 14,
+  m10: 15,
+  M10: 16,
+  P11: 17,
+  A11: 18,
+  P12: 19,
+  m13: 20,
+  M13: 21,
+  m14: 22,
+  M14: 23,
+  P15: 24,
+};
+
+export type IntervalJudgement = 'pending' | 'correct' | 'incorrect';
+
+/**
+ * Generate a single interval prompt based on settings
+ * The returned NoteSpec describes the reference note, with the interval attached
+ */
+export function generateInterval(
+  settings: GameSettings,
+  config: DifficultyConfig,
+  random: Random = Math.random
+): NoteSpec {
+  const { minMidi, maxMidi, intervals, allowDescendingIntervals } = config;
+
+  const name = intervals[Math.floor(random() * intervals.length)];
+  const size = INTERVAL_SEMITONES[name];
+
+  // Harmonic intervals have no direction, so they are always stacked upwards
+  const descending =
+    settings.intervalPlayback === 'melodic' && allowDescendingIntervals && random() < 0.5;
+  const semitones = descending ? -size : size;
+
+  // Keep both notes of the prompt and of the answer inside the range
+  const lowest = descending ? minMidi + size : minMidi;
+  const highest = descending ? maxMidi : maxMidi - size;
+
+  const referenceMidi = getRandomMidi(lowest, highest, random);
+
+  // Answer from a different note than the prompt, so it cannot be copied
+  let answerStartMidi = getRandomMidi(lowest, highest, random);
+  for (let attempt = 0; attempt < 10 && answerStartMidi === referenceMidi; attempt++) {
+    answerStartMidi = getRandomMidi(lowest, highest, random);
+  }
+
+  const pitch = midiToPitch(referenceMidi);
+
+  return {
+    midi: referenceMidi,
+    pitch,
+    vexKey: pitchToVexKey(pitch),
+    clef: suggestClef(referenceMidi),
+    interval: {
+      name,
+      semitones,
+      secondMidi: referenceMidi + semitones,
+      answerStartMidi,
+    },
+  };
+}
+
+/**
+ * Judge the notes played so far as an answer to an interval prompt
+ * Melodic answers must keep the direction; harmonic answers may be played in any order
+ * Without a transposed answer, the answer has to start on answerStartMidi
+ */
+export function judgeIntervalAnswer(
+  interval: IntervalSpec,
+  played: number[],
+  playback: IntervalPlayback,
+  transposedAnswer: boolean
+): IntervalJudgement {
+  const size = Math.abs(interval.semitones);
+  const start = interval.answerStartMidi;
+
+  if (played.length === 1) {
+    if (transposedAnswer) return 'pending';
+
+    const validFirstNotes = playback === 'melodic' ? [start] : [start, start + size];
+    return validFirstNotes.includes(played[0]) ? 'pending' : 'incorrect';
+  }
+
+  const [first, second] = played;
+
+  if (playback === 'melodic') {
+    const rightInterval = second - first === interval.semitones;
+    return rightInterval && (transposedAnswer || first === start) ? 'correct' : 'incorrect';
+  }
+
+  const low = Math.min(first, second);
+  const high = Math.max(first, second);
+  const rightInterval = high - low === size;
+  return rightInterval && (transposedAnswer || low === start) ? 'correct' : 'incorrect';
+}
+
+/**
+ * Get the note the last played note of a judged answer should have been
+ * A first note that cannot start the interval was meant to be the nearest note that can
+ */
+export function getIntervalTarget(
+  interval: IntervalSpec,
+  played: number[],
+  playback: IntervalPlayback,
+  transposedAnswer: boolean
+): NoteSpec {
+  const size = Math.abs(interval.semitones);
+  const start = interval.answerStartMidi;
+  const [first, last] = [played[0], played[played.length - 1]];
+  const nearest = (candidates: number[]) =>
+    candidates.reduce((best, midi) =>
+      Math.abs(midi - last) < Math.abs(best - last) ? midi : best
+    );
+
+  let targetMidi: number;
+  if (played.length === 1) {
+    targetMidi = nearest(playback === 'melodic' ? [start] : [start, start + size]);
+  } else if (playback === 'melodic') {
+    targetMidi = first + interval.semitones;
+  } else if (transposedAnswer) {
+    // Harmonic answers may be played from the top
+    targetMidi = nearest([first + size, first - size]);
+  } else {
+    targetMidi = first === start ? start + size : start;
+  }
+
+  const pitch = midiToPitch(targetMidi);
+  return { midi: targetMidi, pitch, vexKey: pitchToVexKey(pitch), clef: suggestClef(targetMidi) };
+}
+
+/**
+ * Record one judged answer in the per-interval results
+ */
+export function recordIntervalResult(
+  results: Partial<Record<IntervalName, IntervalResult>>,
+  name: IntervalName,
+  isCorrect: boolean
+): Partial<Record<IntervalName, IntervalResult>> {
+  const current = results[name] ?? { attempts: 0, correct: 0 };
+
+  return {
+    ...results,
+    [name]: {
+      attempts: current.attempts + 1,
+      correct: current.correct + (isCorrect ? 1 : 0),
+    },
+  };
+}
@@ -0,0 +1,111 @@
+// Key signatures and diatonic spelling
+
+import { LETTERS, naturalMidi, spellMidi } from './mapping';
+import { Random } from './types';
+
+// prettier-ignore
+export type KeyName =
+  | 'C' | 'G' | 'D' | 'A' | 'E' | 'B' | 'F#' | 'C#'
+  | 'F' | 'Bb' | 'Eb' | 'Ab' | 'Db' | 'Gb' | 'Cb'
+  | 'Am' | 'Em' | 'Bm' | 'F#m' | 'C#m' | 'G#m' | 'D#m' | 'A#m'
+  | 'Dm' | 'Gm' | 'Cm' | 'Fm' | 'Bbm' | 'Ebm' | 'Abm';
+
+export type KeySignatureChoice = KeyName | 'random';
+
+/**
+ * Number of sharps (positive) or flats (negative) in each key signature
+ * Names follow VexFlow's key signature spec so they can be drawn directly
+ */
+// prettier-ignore
+export const KEY_SIGNATURES: Record<KeyName, number> = {
+  C: 0, G: 1, D: 2, A: 3, E: 4, B: 5, 'F#': 6, 'C#': 7,
+  F: -1, Bb: -2, Eb: -3, Ab: -4, Db: -5, Gb: -6, Cb: -7,
+  Am: 0, Em: 1, Bm: 2, 'F#m': 3, 'C#m': 4, 'G#m': 5, 'D#m': 6, 'A#m': 7,
+  Dm: -1, Gm: -2, Cm: -3, Fm: -4, Bbm: -5, Ebm: -6, Abm: -7,
+};
+
+export const KEY_NAMES = Object.keys(KEY_SIGNATURES) as KeyName[];
+
+// Letter indices (0 = C) in the order sharps and flats are added to a signature
+const SHARP_ORDER = [3, 0, 4, 1, 5, 2, 6]; // F C G D A E B
+const FLAT_ORDER = [6, 2, 5, 1, 4, 0, 3]; // B E A D G C F
+
+const DISPLAY_ACCIDENTALS: Record<number, '#' | 'b' | '##' | 'bb' | 'n'> = {
+  [-2]: 'bb',
+  [-1]: 'b',
+  0: 'n',
+  1: '#',
+  2: '##',
+};
+
+/**
+ * Get the semitone offset the key signature applies to each letter (index 0 = C)
+ */
+export function getKeyOffsets(key: KeyName): number[] {
+  const count = KEY_SIGNATURES[key];
+  const offsets = [0, 0, 0, 0, 0, 0, 0];
+  const order = count > 0 ? SHARP_ORDER : FLAT_ORDER;
+  for (let i = 0; i < Math.abs(count); i++) {
+    offsets[order[i]] = Math.sign(count);
+  }
+  return offsets;
+}
+
+/**
+ * Resolve the key for a new sequence ('random' picks one of the 30 keys)
+ */
+export function resolveKey(choice: KeySignatureChoice, random: Random = Math.random): KeyName {
+  if (choice !== 'random') return choice;
+  return KEY_NAMES[Math.floor(random() * KEY_NAMES.length)];
+}
+
+/**
+ * Get the accidental that has to be printed for a note in a key
+ * Returns undefined when the key signature already implies it
+ */
+export function getDisplayedAccidental(
+  letterIndex: number,
+  offset: number,
+  key: KeyName
+): '#' | 'b' | '##' | 'bb' | 'n' | undefined {
+  if (isDiatonic(letterIndex, offset, key)) return undefined;
+  return DISPLAY_ACCIDENTALS[offset];
+}
+
+export interface DiatonicNote {
+  midi: number;
+  pitch: string;
+  letterIndex: number;
+  octave: number;
+}
+
+/**
+ * List every note of the key's scale within a MIDI range, spelled in the key
+ */
+export function getDiatonicNotes(key: KeyName, minMidi: number, maxMidi: number): DiatonicNote[] {
+  const offsets = getKeyOffsets(key);
+  const notes: DiatonicNote[] = [];
+
+  // Start an octave low so that e.g. B#2 or Cb4 at the range edges are found
+  const firstOctave = Math.floor(minMidi / 12) - 2;
+  const lastOctave = Math.floor(maxMidi / 12);
+
+  for (let octave = firstOctave; octave <= lastOctave; octave++) {
+    for (let letterIndex = 0; letterIndex < LETTERS.length; letterIndex++) {
+      const midi = naturalMidi(letterIndex, octave) + offsets[letterIndex];
+      if (midi < minMidi || midi > maxMidi) continue;
+
+      const spelled = spellMidi(midi, letterIndex, octave)!;
+      notes.push({ midi, pitch: spelled.pitch, letterIndex, octave });
+    }
+  }
+
+  return notes;
+}
+
+/**
+ * Check whether a spelled pitch belongs to the key's scale
+ */
+export function isDiatonic(letterIndex: number, offset: number, key: KeyName): boolean {
+  return getKeyOffsets(key)[letterIndex] === offset;
+}
@@ -0,0 +1,71 @@
+// Latency calibration: how late key presses arrive after a prompt is heard or seen
+
+import { GameSettings } from './types';
+import { isTimedMode } from './timing';
+
+export interface LatencyCalibration {
+  audioMs: number; // taps behind scheduled clicks: audio output plus input delay
+  visualMs: number; // taps behind scheduled flashes: display lag plus input delay
+}
+
+export const NO_LATENCY: LatencyCalibration = { audioMs: 0, visualMs: 0 };
+
+// Calibration pulse: a few count-in beats, then the beats that are tapped along to
+export const CALIBRATION_INTERVAL_MS = 750;
+export const CALIBRATION_LEAD_IN = 2;
+export const CALIBRATION_TAPS = 8;
+
+/**
+ * Check whether a mode's prompts are heard rather than read from the staff
+ * Timed modes play along to the metronome when it is on
+ */
+export function isHeardPrompt(settings: GameSettings): boolean {
+  if (isTimedMode(settings.mode)) return settings.metronome;
+  return (
+    settings.mode === 'hearing' || settings.mode === 'intervals' || settings.mode === 'dictation'
+  );
+}
+
+/**
+ * Get how much earlier an input really happened than it arrived, for the mode's prompts
+ */
+export function getLatencyOffsetMs(
+  calibration: LatencyCalibration,
+  settings: GameSettings
+): number {
+  return isHeardPrompt(settings) ? calibration.audioMs : calibration.visualMs;
+}
+
+/**
+ * Get the timestamps of the calibration beats that are tapped along to
+ */
+export function getCalibrationBeats(startAt: number): number[] {
+  return Array.from(
+    { length: CALIBRATION_TAPS },
+    (_, index) => startAt + (CALIBRATION_LEAD_IN + index) * CALIBRATION_INTERVAL_MS
+  );
+}
+
+/**
+ * Work out the latency from taps along to beats: the median distance from each tap
+ * to its nearest beat. Taps more than half a beat away are ignored
+ * Returns null when fewer than half of the beats were tapped
+ */
+export function calculateLatencyOffset(taps: number[], beats: number[]): number | null {
+  const offsets = taps
+    .map((tap) => {
+      const nearest = beats.reduce((best, beat) =>
+        Math.abs(tap - beat) < Math.abs(tap - best) ? beat : best
+      );
+      return tap - nearest;
+    })
+    .filter((offset) => Math.abs(offset) < CALIBRATION_INTERVAL_MS / 2)
+    .sort((a, b) => a - b);
+
+  if (offsets.length < beats.length / 2) return null;
+
+  const middle = Math.floor(offsets.length / 2);
+  const median =
+    offsets.length % 2 === 0 ? (offsets[middle - 1] + offsets[middle]) / 2 : offsets[middle];
+  return Math.round(median);
+}
@@ -1,11 +1,23 @@
 // MIDI number to pitch name mapping and VexFlow key conversion
 
+import { Random, StaffClef } from './types';
+
 const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 const NOTE_NAMES_FLAT = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
 
 // Natural notes only (for beginner mode)
 const NATURAL_NOTES = [0, 2, 4, 5, 7, 9, 11]; // C, D, E, F, G, A, B
 
+export const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+const ACCIDENTAL_BY_OFFSET: Record<number, '#' | 'b' | '##' | 'bb' | undefined> = {
+  [-2]: 'bb',
+  [-1]: 'b',
+  0: undefined,
+  1: '#',
+  2: '##',
+};
+
 /**
  * Convert MIDI number to pitch name (e.g., 60 -> "C4")
  */
@@ -51,6 +63,23 @@ export function pitchToVexKey(pitch: string): string {
   return `${note}${accidental}/${octave}`;
 }
 
+/**
+ * Split a pitch into letter index (0 = C), accidental offset in semitones and octave
+ */
+export function parsePitch(pitch: string): { letterIndex: number; offset: number; octave: number } {
+  const match = pitch.match(/^([A-G])(#{1,2}|b{1,2})?(-?\d+)$/);
+  if (!match) throw new Error(`Invalid pitch: ${pitch}`);
+
+  const [, note, accidental = '', octave] = match;
+  const offset = accidental.startsWith('#') ? accidental.length : -accidental.length;
+
+  return {
+    letterIndex: LETTERS.indexOf(note),
+    offset,
+    octave: parseInt(octave),
+  };
+}
+
 /**
  * Get accidental symbol from pitch
  */
@@ -73,21 +102,29 @@ export function isNatural(midi: number): boolean {
 /**
  * Get a random natural MIDI note within a range
  */
-export function getRandomNaturalMidi(minMidi: number, maxMidi: number): number {
+export function getRandomNaturalMidi(
+  minMidi: number,
+  maxMidi: number,
+  random: Random = Math.random
+): number {
   const naturals: number[] = [];
   for (let midi = minMidi; midi <= maxMidi; midi++) {
     if (isNatural(midi)) {
       naturals.push(midi);
     }
   }
-  return naturals[Math.floor(Math.random() * naturals.length)];
+  return naturals[Math.floor(random() * naturals.length)];
 }
 
 /**
  * Get a random MIDI note (including accidentals) within a range
  */
-export function getRandomMidi(minMidi: number, maxMidi: number): number {
-  return Math.floor(Math.random() * (maxMidi - minMidi + 1)) + minMidi;
+export function getRandomMidi(
+  minMidi: number,
+  maxMidi: number,
+  random: Random = Math.random
+): number {
+  return Math.floor(random() * (maxMidi - minMidi + 1)) + minMidi;
 }
 
 /**
@@ -114,6 +151,81 @@ export function applyAccidental(
   };
 }
 
+/**
+ * Get the MIDI number of a natural note from its letter index (0 = C) and octave
+ */
+export function naturalMidi(letterIndex: number, octave: number): number {
+  return (octave + 1) * 12 + NATURAL_NOTES[letterIndex];
+}
+
+/**
+ * Spell a MIDI note on a given letter (e.g., 66 on F -> "F#4", 66 on G -> "Gb4")
+ * Returns null when the letter is more than a double accidental away
+ */
+export function spellMidi(
+  midi: number,
+  letterIndex: number,
+  octave: number
+): { pitch: string; accidental?: '#' | 'b' | '##' | 'bb' } | null {
+  const offset = midi - naturalMidi(letterIndex, octave);
+  if (offset < -2 || offset > 2) return null;
+
+  const accidental = ACCIDENTAL_BY_OFFSET[offset];
+  return {
+    pitch: `${LETTERS[letterIndex]}${accidental ?? ''}${octave}`,
+    accidental,
+  };
+}
+
+// Diatonic steps (letter index + 7 * octave) of the bottom and top staff lines
+const STAFF_LINES: Record<StaffClef, { bottom: number; top: number }> = {
+  treble: { bottom: 30, top: 38 }, // E4 to F5
+  bass: { bottom: 18, top: 26 }, // G2 to A3
+  alto: { bottom: 24, top: 32 }, // F3 to G4
+  tenor: { bottom: 22, top: 30 }, // D3 to E4
+};
+
+/**
+ * Get the diatonic step of a pitch, counting letters from C0 (e.g., "C4" -> 28)
+ * Accidentals do not move a note on the staff, so "C#4" and "Cb4" share a step
+ */
+export function getDiatonicStep(pitch: string): number {
+  const { letterIndex, octave } = parsePitch(pitch);
+  return octave * 7 + letterIndex;
+}
+
+/**
+ * Count the ledger lines needed to draw a pitch on a clef's staff
+ */
+export function countLedgerLines(pitch: string, clef: StaffClef): number {
+  const step = getDiatonicStep(pitch);
+  const { bottom, top } = STAFF_LINES[clef];
+
+  if (step < bottom) return Math.floor((bottom - step) / 2);
+  if (step > top) return Math.floor((step - top) / 2);
+  return 0;
+}
+
+/**
+ * Get how many diatonic steps a pitch sits above the bottom line of a clef's staff
+ * (0 = bottom line, 1 = first space, 8 = top line; negative below the staff)
+ */
+export function getStaffStep(pitch: string, clef: StaffClef): number {
+  return getDiatonicStep(pitch) - STAFF_LINES[clef].bottom;
+}
+
+/**
+ * Get the pitch drawn at the same place on another clef, keeping its accidental
+ * (e.g., "E4" on the treble staff reads as "G2" on the bass staff)
+ */
+export function readOnClef(pitch: string, fromClef: StaffClef, toClef: StaffClef): string {
+  const { offset } = parsePitch(pitch);
+  const step = getStaffStep(pitch, fromClef) + STAFF_LINES[toClef].bottom;
+  const letterIndex = ((step % 7) + 7) % 7;
+  const octave = Math.floor(step / 7);
+  return spellMidi(naturalMidi(letterIndex, octave) + offset, letterIndex, octave)!.pitch;
+}
+
 /**
  * Determine appropriate clef for a MIDI note
  * Middle C (60) and above typically use treble clef
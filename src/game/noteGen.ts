@@ -6,91 +6,241 @@ import {
   DIFFICULTY_CONFIGS,
   ClefChoice,
   DifficultyConfig,
+  MidiRange,
+  StaffClef,
+  Random,
 } from './types';
 import {
-  getRandomNaturalMidi,
-  isNatural,
-  midiToPitch,
+  countLedgerLines,
+  naturalMidi,
+  parsePitch,
   pitchToVexKey,
-  applyAccidental,
+  spellMidi,
   suggestClef,
 } from './mapping';
+import {
+  KeyName,
+  getDiatonicNotes,
+  getDisplayedAccidental,
+  getKeyOffsets,
+  isDiatonic,
+  resolveKey,
+} from './keys';
+import { generateChord, getTargetMidis } from './chordGen';
+import { generateInterval } from './intervals';
+import { DURATION_BEATS, generateRhythm, getBarCount } from './rhythm';
+import {
+  ADAPTIVE_DRAWS,
+  EMPTY_SKILL_MODEL,
+  MAX_ADAPTIVE_LEVEL,
+  SkillModel,
+  getAdaptiveConfig,
+  isRangeMastered,
+  isReadingMode,
+  pickWeakNote,
+} from './adaptive';
+
+// Clef choice for a single sequence, once 'mixed' has picked its clef
+type SequenceClefChoice = Exclude<ClefChoice, 'mixed'>;
+
+// Note lengths (in beats) used for dictation phrases played with a rhythm
+const DICTATION_BEATS = [0.5, 1, 1, 1.5, 2];
+
+// Pitch a rest is drawn at (the middle line) on each clef
+const REST_PITCHES: Record<StaffClef, string> = {
+  treble: 'B4',
+  bass: 'D3',
+  alto: 'C4',
+  tenor: 'A3',
+};
 
 /**
  * Generate a sequence of notes based on game settings
+ * sequenceNumber counts earlier sequences, so 'mixed' can rotate clefs
  */
-export function generateSequence(settings: GameSettings): NoteSpec[] {
-  const config = DIFFICULTY_CONFIGS[settings.difficulty];
+export function generateSequence(
+  settings: GameSettings,
+  sequenceNumber = 0,
+  random: Random = Math.random,
+  skill: SkillModel = EMPTY_SKILL_MODEL
+): NoteSpec[] {
   const sequence: NoteSpec[] = [];
 
+  // One key and one clef choice per sequence, so 'random' and 'mixed' change between sequences
+  const key = resolveKey(settings.keySignature, random);
+  const clefChoice = resolveClefChoice(settings, sequenceNumber);
+
+  // Adaptive practice moves past the difficulty as its material is mastered
+  const isAdaptive = settings.adaptive && isReadingMode(settings.mode);
+  const baseConfig = DIFFICULTY_CONFIGS[settings.difficulty];
+  const config = isAdaptive
+    ? getAdaptiveConfig(baseConfig, getAdaptiveLevel(skill, baseConfig, clefChoice))
+    : baseConfig;
+  const range = getClefRange(config, clefChoice);
+  const drawNote = () =>
+    isAdaptive
+      ? pickWeakNote(
+          Array.from({ length: ADAPTIVE_DRAWS }, () =>
+            generateNote(settings, config, key, clefChoice, range, random)
+          ),
+          skill,
+          random
+        )
+      : generateNote(settings, config, key, clefChoice, range, random);
+
+  if (settings.mode === 'rhythm') {
+    return generateRhythmSequence(settings, config, key, clefChoice, range, random, drawNote);
+  }
+
   for (let i = 0; i < settings.sequenceLength; i++) {
-    const note = generateNote(settings, config);
+    let note: NoteSpec;
+    if (settings.mode === 'chords') {
+      note = generateChord(
+        settings,
+        config,
+        key,
+        range,
+        (midi, pitches) => placeOnStaff(clefChoice, midi, pitches, config.maxLedgerLines),
+        random
+      );
+    } else if (settings.mode === 'intervals') {
+      note = generateInterval(settings, config, random);
+    } else {
+      note = drawNote();
+    }
+
+    if (settings.mode === 'dictation' && settings.dictationRhythm) {
+      note.beats = DICTATION_BEATS[Math.floor(random() * DICTATION_BEATS.length)];
+    }
+
     sequence.push(note);
   }
 
   return sequence;
 }
 
+/**
+ * Generate whole bars of notes, rests and ties in the chosen time signature
+ * Tied notes repeat the pitch of the note they continue
+ */
+function generateRhythmSequence(
+  settings: GameSettings,
+  config: DifficultyConfig,
+  key: KeyName,
+  clefChoice: SequenceClefChoice,
+  range: MidiRange,
+  random: Random,
+  drawNote: () => NoteSpec
+): NoteSpec[] {
+  const { timeSignature } = settings;
+  const bars = getBarCount(timeSignature, settings.sequenceLength);
+  const slots = generateRhythm(timeSignature, bars, config, random);
+  const sequence: NoteSpec[] = [];
+
+  slots.forEach((slot, index) => {
+    const previous = sequence[index - 1];
+    const rhythm = {
+      duration: slot.duration,
+      beats: DURATION_BEATS[slot.duration],
+      tiedToNext: slot.tiedToNext || undefined,
+      timeSignature,
+    };
+
+    if (slot.isRest) {
+      // Rests sit on the staff of the note before them
+      const clef = previous?.clef ?? determineClef(clefChoice, range.minMidi);
+      const pitch = REST_PITCHES[clef];
+      const { letterIndex, octave } = parsePitch(pitch);
+      sequence.push({
+        midi: naturalMidi(letterIndex, octave),
+        pitch,
+        vexKey: pitchToVexKey(pitch),
+        clef,
+        keySignature: key,
+        isRest: true,
+        ...rhythm,
+      });
+    } else if (previous?.tiedToNext) {
+      // A tied note never needs its accidental again
+      sequence.push({ ...previous, accidental: undefined, ...rhythm });
+    } else {
+      sequence.push({ ...drawNote(), ...rhythm });
+    }
+  });
+
+  return sequence;
+}
+
 /**
  * Generate a single note based on settings
+ * Notes come from the key's scale; accidentals alter a scale note away from the key
+ * Throws when no scale note in the range fits within the ledger line limit
  */
-function generateNote(
+export function generateNote(
   settings: GameSettings,
-  config: DifficultyConfig
+  config: DifficultyConfig,
+  key: KeyName,
+  clefChoice: SequenceClefChoice,
+  { minMidi, maxMidi }: MidiRange,
+  random: Random
 ): NoteSpec {
-  const { minMidi, maxMidi, allowNaturalsOnly, accidentalProbability, doubleAccidentalProbability } = config;
+  const {
+    allowNaturalsOnly,
+    accidentalProbability,
+    doubleAccidentalProbability,
+    maxLedgerLines,
+  } = config;
+
+  // Start with a note of the key's scale that fits on an allowed staff
+  // (accidentals keep the letter, so they never change the ledger line count)
+  const scale = getDiatonicNotes(key, minMidi, maxMidi);
+  const placeable = scale.filter(
+    (note) => placeOnStaff(clefChoice, note.midi, [note.pitch], maxLedgerLines) !== null
+  );
+  if (placeable.length === 0) {
+    throw new Error(
+      `No note between MIDI ${minMidi} and ${maxMidi} fits within ${maxLedgerLines} ledger lines`
+    );
+  }
+  const base = placeable[Math.floor(random() * placeable.length)];
 
-  let midi: number;
-  let pitch: string;
+  let midi = base.midi;
+  let pitch = base.pitch;
   let accidental: '#' | 'b' | '##' | 'bb' | 'n' | undefined;
 
-  // Generate base note
-  if (allowNaturalsOnly) {
-    midi = getRandomNaturalMidi(minMidi, maxMidi);
-    pitch = midiToPitch(midi);
-    accidental = undefined;
-  } else {
-    // Decide if this note should have an accidental
-    const shouldHaveAccidental = Math.random() < accidentalProbability;
-    
-    if (!shouldHaveAccidental) {
-      // Natural note
-      midi = getRandomNaturalMidi(minMidi, maxMidi);
-      pitch = midiToPitch(midi);
-      accidental = undefined;
-    } else {
-      // Note with accidental
-      const shouldBeDouble =
-        settings.allowDoubleAccidentals &&
-        Math.random() < doubleAccidentalProbability / accidentalProbability;
-
-      // Start with a natural note
-      const baseMidi = getRandomNaturalMidi(minMidi, maxMidi);
-      
-      // Choose accidental type
-      const accidentalTypes: Array<'#' | 'b' | '##' | 'bb'> = shouldBeDouble
-        ? ['##', 'bb']
-        : ['#', 'b'];
-      const chosenAccidental = accidentalTypes[Math.floor(Math.random() * accidentalTypes.length)];
-
-      const result = applyAccidental(baseMidi, chosenAccidental);
-      
-      // Make sure the resulting MIDI is in range
-      if (result.midi < minMidi || result.midi > maxMidi) {
-        // Fall back to natural
-        midi = baseMidi;
-        pitch = midiToPitch(midi);
-        accidental = undefined;
-      } else {
-        midi = result.midi;
-        pitch = result.pitch;
-        accidental = chosenAccidental;
-      }
+  // Decide if this note should leave the key
+  if (!allowNaturalsOnly && random() < accidentalProbability) {
+    const shouldBeDouble =
+      settings.allowDoubleAccidentals &&
+      random() < doubleAccidentalProbability / accidentalProbability;
+
+    // Choose the new offset for the letter: a semitone either side of the key,
+    // never past a single sharp or flat unless a double was requested
+    const keyOffset = getKeyOffsets(key)[base.letterIndex];
+    const offsets = shouldBeDouble
+      ? [-2, 2]
+      : [keyOffset - 1, keyOffset + 1].filter((offset) => Math.abs(offset) <= 1);
+    const chosenOffset = offsets[Math.floor(random() * offsets.length)];
+
+    const alteredMidi = naturalMidi(base.letterIndex, base.octave) + chosenOffset;
+
+    // Make sure the resulting MIDI is in range and still fits on a staff,
+    // otherwise keep the scale note
+    const alteredPitch = spellMidi(alteredMidi, base.letterIndex, base.octave)!.pitch;
+    if (
+      alteredMidi >= minMidi &&
+      alteredMidi <= maxMidi &&
+      placeOnStaff(clefChoice, alteredMidi, [alteredPitch], maxLedgerLines) !== null
+    ) {
+      midi = alteredMidi;
+      pitch = alteredPitch;
+      accidental = getDisplayedAccidental(base.letterIndex, chosenOffset, key);
     }
   }
 
   // Determine clef
-  const clef = determineClef(settings.clef, midi);
+  const clef =
+    placeOnStaff(clefChoice, midi, [pitch], maxLedgerLines) ?? determineClef(clefChoice, midi);
 
   // Generate VexFlow key
   const vexKey = pitchToVexKey(pitch);
@@ -101,25 +251,95 @@ function generateNote(
     vexKey,
     clef,
     accidental,
+    keySignature: key,
   };
 }
 
+/**
+ * Get how many levels past the difficulty the player has mastered on a clef choice
+ */
+function getAdaptiveLevel(
+  skill: SkillModel,
+  config: DifficultyConfig,
+  clefChoice: SequenceClefChoice
+): number {
+  const clefs: StaffClef[] = clefChoice === 'both' ? ['treble', 'bass'] : [clefChoice];
+  let level = 0;
+  while (
+    level < MAX_ADAPTIVE_LEVEL &&
+    isRangeMastered(skill, clefs, getClefRange(getAdaptiveConfig(config, level), clefChoice))
+  ) {
+    level++;
+  }
+  return level;
+}
+
 /**
  * Determine which clef to use for a note
  */
-function determineClef(clefChoice: ClefChoice, midi: number): 'treble' | 'bass' {
-  if (clefChoice === 'treble') return 'treble';
-  if (clefChoice === 'bass') return 'bass';
-  
+function determineClef(clefChoice: SequenceClefChoice, midi: number): StaffClef {
+  if (clefChoice !== 'both') return clefChoice;
+
   // For 'both', use suggested clef based on pitch
   return suggestClef(midi);
 }
 
+/**
+ * Pick the clef choice for a sequence: 'mixed' rotates through the chosen clefs
+ */
+export function resolveClefChoice(
+  settings: GameSettings,
+  sequenceNumber: number
+): SequenceClefChoice {
+  if (settings.clef !== 'mixed') return settings.clef;
+
+  const clefs: StaffClef[] = settings.mixedClefs.length > 0 ? settings.mixedClefs : ['treble'];
+  return clefs[sequenceNumber % clefs.length];
+}
+
+/**
+ * Get the note range for a clef choice: the grand staff uses the difficulty's
+ * full range, a single clef uses its own range
+ */
+export function getClefRange(config: DifficultyConfig, clefChoice: SequenceClefChoice): MidiRange {
+  if (clefChoice === 'both') {
+    return { minMidi: config.minMidi, maxMidi: config.maxMidi };
+  }
+  return config.clefRanges[clefChoice];
+}
+
+/**
+ * Choose the clef for a note or chord, keeping every pitch within the ledger line limit
+ * With 'both', a note that needs too many ledger lines is moved to the other staff
+ * Returns null when no allowed staff can show it
+ */
+export function placeOnStaff(
+  clefChoice: SequenceClefChoice,
+  midi: number,
+  pitches: string[],
+  maxLedgerLines: number
+): StaffClef | null {
+  const preferred = determineClef(clefChoice, midi);
+  const clefs: StaffClef[] =
+    clefChoice === 'both' ? [preferred, preferred === 'treble' ? 'bass' : 'treble'] : [preferred];
+
+  return (
+    clefs.find((clef) =>
+      pitches.every((pitch) => countLedgerLines(pitch, clef) <= maxLedgerLines)
+    ) ?? null
+  );
+}
+
 /**
  * Regenerate the sequence (for endless mode)
  */
-export function regenerateSequence(settings: GameSettings): NoteSpec[] {
-  return generateSequence(settings);
+export function regenerateSequence(
+  settings: GameSettings,
+  sequenceNumber: number,
+  random: Random = Math.random,
+  skill: SkillModel = EMPTY_SKILL_MODEL
+): NoteSpec[] {
+  return generateSequence(settings, sequenceNumber, random, skill);
 }
 
 /**
@@ -133,23 +353,65 @@ export function validateSequence(
   const config = DIFFICULTY_CONFIGS[settings.difficulty];
 
   for (const note of sequence) {
-    // Check MIDI range
-    if (note.midi < config.minMidi || note.midi > config.maxMidi) {
+    // A rest's pitch only places it on the staff
+    if (note.isRest) continue;
+
+    // Check MIDI range for every sounding note (grand staff or the note's own clef)
+    const range = settings.clef === 'both' ? config : config.clefRanges[note.clef];
+    for (const midi of getTargetMidis(note)) {
+      if (midi < range.minMidi || midi > range.maxMidi) {
+        return false;
+      }
+    }
+
+    const pitches = note.chord ? note.chord.tones.map((tone) => tone.pitch) : [note.pitch];
+
+    // Check ledger line limit on the staff the note is drawn on
+    if (pitches.some((pitch) => countLedgerLines(pitch, note.clef) > config.maxLedgerLines)) {
       return false;
     }
 
-    // Check naturals-only constraint
-    if (config.allowNaturalsOnly && !isNatural(note.midi)) {
+    // Check naturals-only constraint (no notes outside the key signature)
+    const key = note.keySignature ?? 'C';
+    if (
+      config.allowNaturalsOnly &&
+      pitches.some((pitch) => {
+        const { letterIndex, offset } = parsePitch(pitch);
+        return !isDiatonic(letterIndex, offset, key);
+      })
+    ) {
       return false;
     }
 
+    // Check chord constraints
+    if (settings.mode === 'chords') {
+      if (!note.chord || !config.chordQualities.includes(note.chord.quality)) {
+        return false;
+      }
+      if (!config.allowInversions && note.chord.inversion !== 0) {
+        return false;
+      }
+    }
+
     // Check clef constraint
-    if (settings.clef !== 'both' && note.clef !== settings.clef) {
+    const allowedClefs: StaffClef[] =
+      settings.clef === 'both'
+        ? ['treble', 'bass']
+        : settings.clef === 'mixed'
+          ? settings.mixedClefs
+          : [settings.clef];
+    if (!allowedClefs.includes(note.clef)) {
       return false;
     }
 
     // Check double accidentals constraint
-    if (!settings.allowDoubleAccidentals && (note.accidental === '##' || note.accidental === 'bb')) {
+    const accidentals = note.chord
+      ? note.chord.tones.map((tone) => tone.accidental)
+      : [note.accidental];
+    if (
+      !settings.allowDoubleAccidentals &&
+      accidentals.some((accidental) => accidental === '##' || accidental === 'bb')
+    ) {
       return false;
     }
   }
@@ -0,0 +1,190 @@
+// Monophonic pitch detection (YIN) and note tracking for microphone input
+
+// YIN's threshold on the normalized difference: lower is stricter
+const YIN_THRESHOLD = 0.15;
+
+// Lowest and highest pitches worth looking for: a piano's range
+const MIN_FREQUENCY = 27.5; // A0
+const MAX_FREQUENCY = 4186; // C8
+
+// Loudness range mapped onto velocity (dBFS)
+const QUIET_DB = -50;
+const LOUD_DB = -10;
+
+export interface PitchDetection {
+  frequency: number; // Hz
+  confidence: number; // 0-1: how periodic the frame is
+}
+
+export interface PitchTrackerOptions {
+  minConfidence: number; // detections below this are ignored
+  minRms: number; // frames quieter than this are silence
+  onsetRatio: number; // rise in loudness from one frame to the next that counts as a new strike
+  stableFrames: number; // frames a pitch must hold before it becomes a note
+  concertPitch: number; // frequency of A4 in Hz the instrument is tuned to
+}
+
+export const DEFAULT_TRACKER_OPTIONS: PitchTrackerOptions = {
+  minConfidence: 0.85,
+  minRms: 0.01,
+  onsetRatio: 1.6,
+  stableFrames: 2,
+  concertPitch: 440,
+};
+
+export interface PitchTrackerState {
+  note: number | null; // note sounding now
+  candidate: number | null; // pitch waiting to hold for long enough
+  candidateFrames: number;
+  candidateRms: number; // loudest frame of the candidate, for its velocity
+  onset: boolean; // a strike was heard, so even the sounding note starts again
+  previousRms: number;
+}
+
+export const INITIAL_TRACKER_STATE: PitchTrackerState = {
+  note: null,
+  candidate: null,
+  candidateFrames: 0,
+  candidateRms: 0,
+  onset: false,
+  previousRms: 0,
+};
+
+export type TrackedNoteEvent =
+  | { type: 'noteOn'; note: number; velocity: number }
+  | { type: 'noteOff'; note: number };
+
+/**
+ * Get the root mean square level of a frame of samples
+ */
+export function getRms(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * Convert a frequency in Hz to the nearest MIDI note number
+ * @param concertPitch - Frequency of A4 the instrument is tuned to (default: 440)
+ */
+export function frequencyToMidi(frequency: number, concertPitch: number = 440): number {
+  return Math.round(69 + 12 * Math.log2(frequency / concertPitch));
+}
+
+/**
+ * Map a frame's loudness onto a MIDI velocity (1-127)
+ */
+export function rmsToVelocity(rms: number): number {
+  const db = 20 * Math.log10(Math.max(rms, 1e-6));
+  const level = Math.max(0, Math.min(1, (db - QUIET_DB) / (LOUD_DB - QUIET_DB)));
+  return Math.round(1 + level * 126);
+}
+
+/**
+ * Detect the pitch of a frame of samples with the YIN algorithm
+ * The frame must hold at least two periods of the lowest pitch to find it
+ * Returns null when the frame has no clear pitch
+ */
+export function detectPitch(samples: Float32Array, sampleRate: number): PitchDetection | null {
+  const maxLag = Math.min(Math.floor(samples.length / 2), Math.ceil(sampleRate / MIN_FREQUENCY));
+  const minLag = Math.max(2, Math.floor(sampleRate / MAX_FREQUENCY));
+  if (maxLag <= minLag) return null;
+
+  // Difference function, normalized by its running mean
+  const normalized = new Float32Array(maxLag + 1);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let difference = 0;
+    for (let i = 0; i < maxLag; i++) {
+      const delta = samples[i] - samples[i + lag];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    normalized[lag] = runningSum === 0 ? 1 : (difference * lag) / runningSum;
+  }
+
+  // First dip under the threshold, followed down to its bottom
+  let lag = minLag;
+  while (lag < maxLag && normalized[lag] >= YIN_THRESHOLD) lag++;
+  if (lag === maxLag) return null;
+  while (lag + 1 < maxLag && normalized[lag + 1] < normalized[lag]) lag++;
+
+  // Parabolic interpolation between neighbouring lags for a finer period
+  const before = normalized[lag - 1];
+  const at = normalized[lag];
+  const after = normalized[lag + 1];
+  const curvature = before + after - 2 * at;
+  const period = curvature > 0 ? lag + (before - after) / (2 * curvature) : lag;
+
+  return {
+    frequency: sampleRate / period,
+    confidence: Math.max(0, Math.min(1, 1 - at)),
+  };
+}
+
+/**
+ * Advance the note tracker by one frame
+ * A note starts once its pitch holds for a few frames, again after a new strike, and
+ * ends when the sound fades into silence or another note takes over
+ */
+export function trackPitch(
+  state: PitchTrackerState,
+  rms: number,
+  detection: PitchDetection | null,
+  options: PitchTrackerOptions = DEFAULT_TRACKER_OPTIONS
+): { state: PitchTrackerState; events: TrackedNoteEvent[] } {
+  const events: TrackedNoteEvent[] = [];
+
+  if (rms < options.minRms) {
+    if (state.note !== null) events.push({ type: 'noteOff', note: state.note });
+    return { state: { ...INITIAL_TRACKER_STATE, previousRms: rms }, events };
+  }
+
+  const isOnset =
+    rms >= options.minRms * options.onsetRatio && rms >= state.previousRms * options.onsetRatio;
+  let next: PitchTrackerState = isOnset
+    ? { ...state, candidate: null, candidateFrames: 0, candidateRms: 0, onset: true }
+    : { ...state };
+  next.previousRms = rms;
+
+  // Unclear frames, such as the noise of a hammer, neither start nor end a note
+  if (!detection || detection.confidence < options.minConfidence) {
+    return { state: next, events };
+  }
+
+  const pitch = frequencyToMidi(detection.frequency, options.concertPitch);
+  if (pitch === next.note && !next.onset) {
+    return { state: { ...next, candidate: null, candidateFrames: 0, candidateRms: 0 }, events };
+  }
+
+  next =
+    pitch === next.candidate
+      ? {
+          ...next,
+          candidateFrames: next.candidateFrames + 1,
+          candidateRms: Math.max(next.candidateRms, rms),
+        }
+      : { ...next, candidate: pitch, candidateFrames: 1, candidateRms: rms };
+
+  if (next.candidateFrames < options.stableFrames) {
+    return { state: next, events };
+  }
+
+  if (next.note !== null) events.push({ type: 'noteOff', note: next.note });
+  events.push({ type: 'noteOn', note: pitch, velocity: rmsToVelocity(next.candidateRms) });
+
+  return {
+    state: {
+      ...next,
+      note: pitch,
+      candidate: null,
+      candidateFrames: 0,
+      candidateRms: 0,
+      onset: false,
+    },
+    events,
+  };
+}
@@ -0,0 +1,54 @@
+// Seeded random numbers, so a game can be played again or shared from its seed
+
+import { Random } from './types';
+
+const UINT32_RANGE = 4294967296;
+
+/**
+ * Create a random source from a 32-bit seed (mulberry32)
+ * The same seed always gives the same numbers
+ */
+export function createSeededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+  };
+}
+
+/**
+ * Create the random source of one sequence of a game
+ * Each sequence gets its own stream, so it does not depend on how many numbers the
+ * sequences before it used
+ */
+export function createSequenceRandom(seed: number, sequenceNumber: number): Random {
+  return createSeededRandom(seed ^ Math.imul(sequenceNumber + 1, 0x9e3779b9));
+}
+
+/**
+ * Pick a new seed for a game
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * UINT32_RANGE);
+}
+
+/**
+ * Read a seed typed by the player: a number as shown after a game, or any word,
+ * so a group can agree on something like "friday-contest"
+ * Returns null for an empty entry
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) % UINT32_RANGE;
+
+  // FNV-1a hash of the text
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash = Math.imul(hash ^ trimmed.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,107 @@
+// Rhythm generation: note lengths that fill whole bars in a time signature
+
+import { DifficultyConfig, NoteDuration, Random, TimeSignature } from './types';
+
+// Length of each written duration in quarter-note beats
+export const DURATION_BEATS: Record<NoteDuration, number> = {
+  w: 4,
+  hd: 3,
+  h: 2,
+  qd: 1.5,
+  q: 1,
+  '8': 0.5,
+};
+
+export interface TimeSignatureInfo {
+  barBeats: number; // bar length in quarter-note beats
+  beatUnit: number; // felt beat in quarter-note beats (a dotted quarter in 6/8)
+  beamGroup: [number, number]; // eighth notes are beamed in groups of this fraction
+}
+
+export const TIME_SIGNATURES: Record<TimeSignature, TimeSignatureInfo> = {
+  '2/4': { barBeats: 2, beatUnit: 1, beamGroup: [2, 8] },
+  '3/4': { barBeats: 3, beatUnit: 1, beamGroup: [2, 8] },
+  '4/4': { barBeats: 4, beatUnit: 1, beamGroup: [2, 8] },
+  '6/8': { barBeats: 3, beatUnit: 1.5, beamGroup: [3, 8] },
+};
+
+// Rhythm cells a bar is built from; a cell never crosses the felt beat,
+// so eighths always come in beamable groups
+const SIMPLE_CELLS: NoteDuration[][] = [['w'], ['hd'], ['h'], ['qd', '8'], ['q'], ['8', '8']];
+const COMPOUND_CELLS: NoteDuration[][] = [['hd'], ['qd'], ['q', '8'], ['8', 'q'], ['8', '8', '8']];
+
+export interface RhythmSlot {
+  duration: NoteDuration;
+  isRest: boolean;
+  tiedToNext: boolean;
+}
+
+/**
+ * Generate the rhythm of a number of whole bars
+ * Rests and ties are sprinkled in according to the difficulty, leaving at least one note
+ */
+export function generateRhythm(
+  timeSignature: TimeSignature,
+  bars: number,
+  config: DifficultyConfig,
+  random: Random = Math.random
+): RhythmSlot[] {
+  const { barBeats, beatUnit } = TIME_SIGNATURES[timeSignature];
+  const cells = beatUnit === 1 ? SIMPLE_CELLS : COMPOUND_CELLS;
+  const slots: RhythmSlot[] = [];
+
+  for (let bar = 0; bar < bars; bar++) {
+    let remaining = barBeats;
+
+    while (remaining > 0) {
+      const fitting = cells.filter(
+        (cell) =>
+          getCellBeats(cell) <= remaining &&
+          cell.every((duration) => config.rhythmDurations.includes(duration))
+      );
+
+      // One felt beat always fits, whatever the difficulty allows
+      const cell: NoteDuration[] =
+        fitting.length > 0
+          ? fitting[Math.floor(random() * fitting.length)]
+          : [beatUnit === 1 ? 'q' : 'qd'];
+
+      for (const duration of cell) {
+        slots.push({
+          duration,
+          isRest: random() < config.restProbability,
+          tiedToNext: false,
+        });
+      }
+      remaining -= getCellBeats(cell);
+    }
+  }
+
+  // Something must be played: a sequence of rests would leave nothing to judge
+  if (slots.every((slot) => slot.isRest)) {
+    slots[Math.floor(random() * slots.length)].isRest = false;
+  }
+
+  // Tie a note into the following one; the tied note keeps sounding instead of being played
+  for (let i = 0; i < slots.length - 1; i++) {
+    const canTie = !slots[i].isRest && !slots[i + 1].isRest;
+    if (canTie && random() < config.tieProbability) {
+      slots[i].tiedToNext = true;
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Get the number of bars that holds about as many notes as a sequence length
+ */
+export function getBarCount(timeSignature: TimeSignature, sequenceLength: number): number {
+  const { barBeats, beatUnit } = TIME_SIGNATURES[timeSignature];
+  const beatsPerBar = barBeats / beatUnit;
+  return Math.max(1, Math.round(sequenceLength / beatsPerBar));
+}
+
+function getCellBeats(cell: NoteDuration[]): number {
+  return cell.reduce((total, duration) => total + DURATION_BEATS[duration], 0);
+}
@@ -28,6 +28,27 @@ export function calculateScoreForCorrect(currentScore: number, currentStreak: nu
   };
 }
 
+export interface DictationCredit {
+  marks: boolean[]; // whether each position was played correctly
+  correctPositions: number;
+  points: number;
+}
+
+/**
+ * Calculate partial credit for a played-back dictation phrase
+ * Each position is compared on its own, so one wrong note does not spoil the rest
+ */
+export function calculateDictationCredit(played: number[], expected: number[]): DictationCredit {
+  const marks = expected.map((midi, index) => played[index] === midi);
+  const correctPositions = marks.filter(Boolean).length;
+
+  return {
+    marks,
+    correctPositions,
+    points: correctPositions * BASE_POINTS,
+  };
+}
+
 /**
  * Calculate accuracy percentage
  */
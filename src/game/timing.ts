@@ -0,0 +1,123 @@
+// Beat clock and timing judgement for tempo-driven play
+
+import {
+  GameMode,
+  GameSettings,
+  GameSnapshot,
+  HeldNote,
+  HoldJudgement,
+  NoteSpec,
+  TimingJudgement,
+} from './types';
+
+// Beats of metronome count-in before the first note of a game
+export const LEAD_IN_BEATS = 4;
+
+/**
+ * Check whether a mode plays against the beat clock
+ */
+export function isTimedMode(mode: GameMode): boolean {
+  return mode === 'timed' || mode === 'rhythm';
+}
+
+/**
+ * Check whether a note of the sequence has to be played: rests are not,
+ * and neither is a note that continues a tie
+ */
+export function isPlayable(sequence: NoteSpec[], index: number): boolean {
+  return !sequence[index].isRest && !sequence[index - 1]?.tiedToNext;
+}
+
+/**
+ * Get the length of one beat in milliseconds
+ */
+export function getBeatMs(tempoBpm: number): number {
+  return 60000 / tempoBpm;
+}
+
+/**
+ * Get the onset of every note of a sequence, in beats from the first note
+ */
+export function getNoteOnsets(sequence: NoteSpec[]): number[] {
+  const onsets: number[] = [];
+  let beat = 0;
+  for (const note of sequence) {
+    onsets.push(beat);
+    beat += note.beats ?? 1;
+  }
+  return onsets;
+}
+
+/**
+ * Get the total length of a sequence in beats
+ */
+export function getSequenceBeats(sequence: NoteSpec[]): number {
+  return sequence.reduce((total, note) => total + (note.beats ?? 1), 0);
+}
+
+/**
+ * Get the ms timestamp a note of the current sequence is due
+ */
+export function getNoteTime(snapshot: GameSnapshot, settings: GameSettings, index: number): number {
+  const onset = getNoteOnsets(snapshot.sequence)[index];
+  return (snapshot.beatZeroAt ?? snapshot.startedAt) + onset * getBeatMs(settings.tempoBpm);
+}
+
+/**
+ * Get how far from its beat a note may still be played at all
+ * Half the note's length, so that neighbouring notes never compete for an input
+ */
+export function getHitWindowMs(note: NoteSpec, settings: GameSettings): number {
+  const halfNoteMs = ((note.beats ?? 1) * getBeatMs(settings.tempoBpm)) / 2;
+  return Math.max(settings.timingWindowMs, halfNoteMs);
+}
+
+/**
+ * Judge a note played offsetMs after its beat (negative when early)
+ * Returns null when it is too far from the beat to belong to this note
+ */
+export function judgeTiming(
+  offsetMs: number,
+  note: NoteSpec,
+  settings: GameSettings
+): TimingJudgement | null {
+  if (Math.abs(offsetMs) <= settings.timingWindowMs) return 'onTime';
+  if (Math.abs(offsetMs) > getHitWindowMs(note, settings)) return null;
+  return offsetMs < 0 ? 'early' : 'late';
+}
+
+/**
+ * Get how long a note has to be held, including the notes tied onto it
+ */
+export function getHeldBeats(sequence: NoteSpec[], index: number): number {
+  let beats = sequence[index].beats ?? 1;
+  for (let i = index; sequence[i].tiedToNext && i + 1 < sequence.length; i++) {
+    beats += sequence[i + 1].beats ?? 1;
+  }
+  return beats;
+}
+
+/**
+ * Describe how long the note at index should be held once it has been played
+ * It may be released a little early: a quarter of its length, or the on-time window
+ */
+export function createHeldNote(
+  snapshot: GameSnapshot,
+  settings: GameSettings,
+  index: number
+): HeldNote {
+  const heldMs = getHeldBeats(snapshot.sequence, index) * getBeatMs(settings.tempoBpm);
+
+  return {
+    midi: snapshot.sequence[index].midi,
+    releaseDueAt: getNoteTime(snapshot, settings, index) + heldMs,
+    toleranceMs: Math.max(settings.timingWindowMs, heldMs / 4),
+  };
+}
+
+/**
+ * Judge the release of a held note
+ */
+export function judgeHold(held: HeldNote, releasedAt: number): HoldJudgement {
+  return releasedAt >= held.releaseDueAt - held.toleranceMs ? 'held' : 'short';
+}
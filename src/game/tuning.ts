@@ -0,0 +1,103 @@
+// Tuning systems: concert pitch and where each pitch class sits against equal temperament
+
+import { GameSettings, TuningSystem } from './types';
+
+export interface Tuning {
+  system: TuningSystem;
+  concertPitch: number; // frequency of A4 in Hz
+  root: number; // pitch class (0 = C) the scale of the system starts on
+  customCents: number[]; // cents away from equal temperament for C..B, used with 'custom'
+}
+
+export const TUNING_SYSTEM_NAMES: Record<TuningSystem, string> = {
+  equal: 'Equal Temperament',
+  just: 'Just Intonation',
+  pythagorean: 'Pythagorean',
+  meantone: 'Quarter-Comma Meantone',
+  custom: 'Custom',
+};
+
+export const EQUAL_TUNING: Tuning = {
+  system: 'equal',
+  concertPitch: 440,
+  root: 0,
+  customCents: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+};
+
+// 5-limit just ratios above the root, one per semitone
+// prettier-ignore
+const JUST_RATIOS = [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8];
+
+// A pure fifth, and one narrowed by a quarter of the syntonic comma so major thirds are pure
+const PURE_FIFTH_CENTS = ratioToCents(3 / 2);
+const MEANTONE_FIFTH_CENTS = PURE_FIFTH_CENTS - ratioToCents(81 / 80) / 4;
+
+function ratioToCents(ratio: number): number {
+  return 1200 * Math.log2(ratio);
+}
+
+/**
+ * Build a scale from a chain of equal fifths, starting the given number of fifths below the root
+ * Returns the cents above the root of each semitone
+ */
+function getFifthChainCents(fifthCents: number, fifthsBelow: number): number[] {
+  const cents = new Array<number>(12);
+  for (let fifth = -fifthsBelow; fifth < 12 - fifthsBelow; fifth++) {
+    const semitone = (((fifth * 7) % 12) + 12) % 12;
+    cents[semitone] = (((fifth * fifthCents) % 1200) + 1200) % 1200;
+  }
+  return cents;
+}
+
+/**
+ * Get the cents above the root of each semitone of a system's scale
+ * Custom tunings have no scale of their own; they are offsets by pitch class
+ */
+export function getScaleCents(system: Exclude<TuningSystem, 'custom'>): number[] {
+  switch (system) {
+    case 'just':
+      return JUST_RATIOS.map(ratioToCents);
+    case 'pythagorean':
+      return getFifthChainCents(PURE_FIFTH_CENTS, 5); // Db to F#
+    case 'meantone':
+      return getFifthChainCents(MEANTONE_FIFTH_CENTS, 3); // Eb to G#
+    default:
+      return Array.from({ length: 12 }, (_, semitone) => semitone * 100);
+  }
+}
+
+/**
+ * Get how far each pitch class (0 = C) sits from equal temperament, in cents
+ */
+export function getTuningOffsets(tuning: Tuning): number[] {
+  if (tuning.system === 'custom') return tuning.customCents;
+
+  const scale = getScaleCents(tuning.system);
+  const offsets = new Array<number>(12);
+  scale.forEach((cents, semitone) => {
+    offsets[(tuning.root + semitone) % 12] = cents - semitone * 100;
+  });
+  return offsets;
+}
+
+/**
+ * Get the frequency of a MIDI note in a tuning; A4 always sounds at the concert pitch
+ */
+export function getTuningFrequency(midiNote: number, tuning: Tuning): number {
+  const offsets = getTuningOffsets(tuning);
+  const offset = offsets[((midiNote % 12) + 12) % 12] ?? 0;
+  const cents = (midiNote - 69) * 100 + offset - (offsets[9] ?? 0);
+  return tuning.concertPitch * Math.pow(2, cents / 1200);
+}
+
+/**
+ * Get the tuning chosen in the settings
+ */
+export function getTuning(settings: GameSettings): Tuning {
+  return {
+    system: settings.tuningSystem,
+    concertPitch: settings.concertPitch,
+    root: settings.tuningRoot,
+    customCents: settings.customCents,
+  };
+}
@@ -1,8 +1,43 @@
 // Core types for the piano note trainer game
 
-export type ClefChoice = 'treble' | 'bass' | 'both';
+import { KeyName, KeySignatureChoice } from './keys';
+import { SkillModel } from './adaptive';
+import { NoteResults } from './history';
+import { ConfusionMatrix } from './confusion';
+
+export type StaffClef = 'treble' | 'bass' | 'alto' | 'tenor';
+export type ClefChoice = StaffClef | 'both' | 'mixed'; // both = grand staff, mixed = rotate clefs
 export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
-export type GameMode = 'reading' | 'hearing';
+export type GameMode =
+  | 'reading'
+  | 'hearing'
+  | 'chords'
+  | 'intervals'
+  | 'dictation'
+  | 'timed'
+  | 'rhythm';
+export type TimingJudgement = 'early' | 'onTime' | 'late' | 'missed';
+export type HoldJudgement = 'held' | 'short';
+export type NoteDuration = 'w' | 'hd' | 'h' | 'qd' | 'q' | '8'; // VexFlow duration codes
+export type TimeSignature = '2/4' | '3/4' | '4/4' | '6/8';
+export type SoundSource = 'synth' | 'samples'; // synthesized piano, or a sample pack
+export type TuningSystem = 'equal' | 'just' | 'pythagorean' | 'meantone' | 'custom';
+export type Random = () => number; // uniform in [0, 1), like Math.random
+export type IntervalPlayback = 'melodic' | 'harmonic';
+// prettier-ignore
+export type IntervalName =
+  | 'm2' | 'M2' | 'm3' | 'M3' | 'P4' | 'TT' | 'P5' | 'm6' | 'M6' | 'm7' | 'M7' | 'P8'
+  | 'm9' | 'M9' | 'm10' | 'M10' | 'P11' | 'A11' | 'P12' | 'm13' | 'M13' | 'm14' | 'M14' | 'P15';
+export type ChordQuality =
+  | 'major'
+  | 'minor'
+  | 'diminished'
+  | 'augmented'
+  | 'dominant7'
+  | 'major7'
+  | 'minor7'
+  | 'halfDiminished7'
+  | 'diminished7';
 
 export interface GameSettings {
   mode: GameMode; // reading notes or hearing notes
@@ -12,16 +47,68 @@ export interface GameSettings {
   sequenceLength: number; // derived from difficulty but user-adjustable
   allowDoubleAccidentals: boolean; // only meaningful on advanced
   enableFallbackPiano: boolean;
+  chordWindowMs: number; // max spread between the note-ons of one chord
+  keySignature: KeySignatureChoice; // 'random' picks a new key per sequence
+  mixedClefs: StaffClef[]; // clefs the 'mixed' choice rotates through, one per sequence
+  intervalPlayback: IntervalPlayback; // notes one after another, or together
+  transposedAnswer: boolean; // answer an interval from any note instead of the given one
+  dictationReplays: number; // how many times a dictation phrase may be replayed
+  dictationRhythm: boolean; // play dictation phrases with varied note lengths
+  tempoBpm: number; // quarter notes per minute in timed mode
+  timingWindowMs: number; // max distance from the beat for an on-time note
+  metronome: boolean; // click along in timed mode
+  timeSignature: TimeSignature; // rhythm mode only
+  soundSource: SoundSource; // how prompts and keys sound
+  samplePackUrl: string; // JSON or SFZ sample pack used with 'samples'; empty until one is set
+  concertPitch: number; // frequency of A4 in Hz
+  tuningSystem: TuningSystem;
+  tuningRoot: number; // pitch class (0 = C) the just, Pythagorean and meantone scales start on
+  customCents: number[]; // cents away from equal temperament for C..B, used with 'custom'
+  adaptive: boolean; // favour weak notes and move on from mastered ones
 }
 
 export interface NoteSpec {
   midi: number; // 21..108
   pitch: string; // e.g., "C#4"
   vexKey: string; // e.g., "C#/4" for VexFlow
-  clef: 'treble' | 'bass';
+  clef: StaffClef;
+  accidental?: '#' | 'b' | '##' | 'bb' | 'n'; // only set when it leaves the key signature
+  keySignature?: KeyName; // defaults to C major
+  chord?: ChordSpec; // chords mode only; midi/pitch/vexKey then describe the lowest tone
+  interval?: IntervalSpec; // intervals mode only; midi/pitch/vexKey then describe the reference note
+  beats?: number; // playback length in beats, defaults to 1
+  duration?: NoteDuration; // written length, defaults to a quarter note
+  isRest?: boolean; // midi/pitch/vexKey then only place the rest on the staff
+  tiedToNext?: boolean; // held on into the next note, which is not played again
+  timeSignature?: TimeSignature; // rhythm mode only; the sequence is split into bars
+}
+
+export interface IntervalSpec {
+  name: IntervalName;
+  semitones: number; // negative for descending intervals
+  secondMidi: number; // the note played after (or with) the reference note
+  answerStartMidi: number; // the note the answer has to start from
+}
+
+export interface IntervalResult {
+  attempts: number;
+  correct: number;
+}
+
+export interface ChordTone {
+  midi: number;
+  pitch: string;
+  vexKey: string;
   accidental?: '#' | 'b' | '##' | 'bb' | 'n';
 }
 
+export interface ChordSpec {
+  symbol: string; // e.g., "F#m7"
+  quality: ChordQuality;
+  inversion: number; // 0 = root position
+  tones: ChordTone[]; // lowest to highest
+}
+
 export interface GameSnapshot {
   sequence: NoteSpec[]; // full generated sequence
   currentIndex: number; // which note is expected now
@@ -38,45 +125,133 @@ export interface GameSnapshot {
   isGameOver: boolean;
   lastWasCorrect: boolean | null; // for visual feedback
   flashError: boolean; // trigger red flash animation
+  pendingNotes: number[]; // note-ons collected for the current chord, interval or phrase
+  pendingSince: number | null; // ms timestamp of the first pending note-on
+  sequenceNumber: number; // how many sequences were generated before the current one
+  seed: number; // seeds every sequence of the game, so it can be played again
+  skill: SkillModel; // how well each note is read, updated as the game goes
+  noteResults: NoteResults; // answers to each single note of this game
+  confusions: ConfusionMatrix; // notes played for each expected single note
+  intervalResults: Partial<Record<IntervalName, IntervalResult>>; // intervals mode only
+  playbacksUsed: number; // times the current dictation phrase was played
+  dictationMarks: boolean[] | null; // per-position result of the last judged dictation phrase
+  beatZeroAt: number | null; // ms timestamp the first note of the sequence is due (timed mode only)
+  pausedAt: number | null; // ms timestamp of the last pause
+  noteTimings: (TimingJudgement | null)[]; // each passed note; null for rests and tied notes
+  timingResults: Record<TimingJudgement, number>; // totals over the whole game
+  heldNote: HeldNote | null; // rhythm mode: the last hit note, until it is released
+  holdResults: Record<HoldJudgement, number>; // rhythm mode: held-length totals
 }
 
-export interface DifficultyConfig {
+export interface HeldNote {
+  midi: number;
+  releaseDueAt: number; // ms timestamp the note (with its ties) should be held until
+  toleranceMs: number; // how early it may be released and still count as held
+}
+
+export interface MidiRange {
   minMidi: number;
   maxMidi: number;
-  allowNaturalsOnly: boolean;
+}
+
+export interface DifficultyConfig {
+  minMidi: number; // grand staff range, used when both clefs are shown
+  maxMidi: number;
+  clefRanges: Record<StaffClef, MidiRange>; // range when a single clef is shown
+  allowNaturalsOnly: boolean; // no notes outside the key signature
   accidentalProbability: number;
   doubleAccidentalProbability: number;
   maxLedgerLines: number;
   defaultSequenceLength: number;
+  chordQualities: ChordQuality[];
+  allowInversions: boolean;
+  intervals: IntervalName[];
+  allowDescendingIntervals: boolean;
+  rhythmDurations: NoteDuration[];
+  restProbability: number;
+  tieProbability: number;
 }
 
 export const DIFFICULTY_CONFIGS: Record<Difficulty, DifficultyConfig> = {
   beginner: {
     minMidi: 48, // C3
     maxMidi: 72, // C5
+    clefRanges: {
+      treble: { minMidi: 60, maxMidi: 72 }, // C4-C5
+      bass: { minMidi: 48, maxMidi: 60 }, // C3-C4
+      alto: { minMidi: 48, maxMidi: 72 }, // C3-C5
+      tenor: { minMidi: 48, maxMidi: 69 }, // C3-A4
+    },
     allowNaturalsOnly: true,
     accidentalProbability: 0,
     doubleAccidentalProbability: 0,
     maxLedgerLines: 1,
     defaultSequenceLength: 5,
+    chordQualities: ['major', 'minor'],
+    allowInversions: false,
+    intervals: ['M2', 'M3', 'P4', 'P5', 'P8'],
+    allowDescendingIntervals: false,
+    rhythmDurations: ['w', 'hd', 'h', 'qd', 'q'],
+    restProbability: 0.1,
+    tieProbability: 0,
   },
   intermediate: {
     minMidi: 45, // A2
     maxMidi: 76, // E5
+    clefRanges: {
+      treble: { minMidi: 57, maxMidi: 76 }, // A3-E5
+      bass: { minMidi: 45, maxMidi: 64 }, // A2-E4
+      alto: { minMidi: 48, maxMidi: 74 }, // C3-D5
+      tenor: { minMidi: 45, maxMidi: 69 }, // A2-A4
+    },
     allowNaturalsOnly: false,
     accidentalProbability: 0.3,
     doubleAccidentalProbability: 0,
     maxLedgerLines: 2,
     defaultSequenceLength: 8,
+    chordQualities: ['major', 'minor', 'diminished', 'augmented'],
+    allowInversions: true,
+    intervals: ['m2', 'M2', 'm3', 'M3', 'P4', 'TT', 'P5', 'm6', 'M6', 'm7', 'M7', 'P8'],
+    allowDescendingIntervals: true,
+    rhythmDurations: ['w', 'hd', 'h', 'qd', 'q', '8'],
+    restProbability: 0.15,
+    tieProbability: 0.1,
   },
   advanced: {
     minMidi: 41, // F2
     maxMidi: 79, // G5
+    clefRanges: {
+      treble: { minMidi: 53, maxMidi: 79 }, // F3-G5
+      bass: { minMidi: 41, maxMidi: 67 }, // F2-G4
+      alto: { minMidi: 45, maxMidi: 77 }, // A2-F5
+      tenor: { minMidi: 41, maxMidi: 74 }, // F2-D5
+    },
     allowNaturalsOnly: false,
     accidentalProbability: 0.5,
     doubleAccidentalProbability: 0.05,
     maxLedgerLines: 3,
     defaultSequenceLength: 12,
+    chordQualities: [
+      'major',
+      'minor',
+      'diminished',
+      'augmented',
+      'dominant7',
+      'major7',
+      'minor7',
+      'halfDiminished7',
+      'diminished7',
+    ],
+    allowInversions: true,
+    // prettier-ignore
+    intervals: [
+      'm2', 'M2', 'm3', 'M3', 'P4', 'TT', 'P5', 'm6', 'M6', 'm7', 'M7', 'P8',
+      'm9', 'M9', 'm10', 'M10', 'P11', 'A11', 'P12', 'm13', 'M13', 'm14', 'M14', 'P15',
+    ],
+    allowDescendingIntervals: true,
+    rhythmDurations: ['w', 'hd', 'h', 'qd', 'q', '8'],
+    restProbability: 0.2,
+    tieProbability: 0.2,
   },
 };
 
@@ -88,5 +263,67 @@ export const DEFAULT_SETTINGS: GameSettings = {
   sequenceLength: 5,
   allowDoubleAccidentals: false,
   enableFallbackPiano: false,
+  chordWindowMs: 250,
+  keySignature: 'C',
+  mixedClefs: ['treble', 'bass'],
+  intervalPlayback: 'melodic',
+  transposedAnswer: false,
+  dictationReplays: 2,
+  dictationRhythm: false,
+  tempoBpm: 72,
+  timingWindowMs: 100,
+  metronome: true,
+  timeSignature: '4/4',
+  soundSource: 'synth',
+  samplePackUrl: '',
+  concertPitch: 440,
+  tuningSystem: 'equal',
+  tuningRoot: 0,
+  customCents: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  adaptive: false,
+};
+
+export interface GameModeInfo {
+  label: string;
+  emoji: string;
+  description: string;
+}
+
+export const GAME_MODE_INFO: Record<GameMode, GameModeInfo> = {
+  reading: {
+    label: 'Reading Challenge',
+    emoji: '👀',
+    description: 'See notes and play them',
+  },
+  hearing: {
+    label: 'Hearing Challenge',
+    emoji: '👂',
+    description: 'Hear notes and play them back',
+  },
+  chords: {
+    label: 'Chord Challenge',
+    emoji: '🎼',
+    description: 'See chords and play all their notes together',
+  },
+  intervals: {
+    label: 'Interval Challenge',
+    emoji: '🎶',
+    description: 'Hear two notes and play the same interval back',
+  },
+  dictation: {
+    label: 'Melodic Dictation',
+    emoji: '📝',
+    description: 'Hear a whole phrase and play it back from memory',
+  },
+  timed: {
+    label: 'Tempo Challenge',
+    emoji: '⏱️',
+    description: 'Play the notes in time as they scroll past',
+  },
+  rhythm: {
+    label: 'Rhythm Challenge',
+    emoji: '🥁',
+    description: 'Read rhythms in bars and hold every note for its full length',
+  },
 };
 
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  DEFAULT_KEYBOARD_INPUT,
+  OCTAVE_DOWN_KEY,
+  OCTAVE_UP_KEY,
+  applyKeyboardInput,
+  getKeyLabel,
+  getKeyNote,
+  getKeyboardInput,
+} from '../keyboard';
+import { MIDIEvent, subscribeMIDIEvents } from '../midi';
+
+// The keyboard plays its own notes; there is no audio to play them on here
+vi.mock('../../utils/audio', () => ({ playNote: vi.fn() }));
+
+function press(code: string, target: EventTarget = window): void {
+  target.dispatchEvent(new KeyboardEvent('keydown', { code, bubbles: true }));
+}
+
+function release(code: string): void {
+  window.dispatchEvent(new KeyboardEvent('keyup', { code }));
+}
+
+describe('Computer Keyboard', () => {
+  describe('getKeyNote', () => {
+    it('should play the mapped offset above the base note', () => {
+      expect(getKeyNote('KeyA', DEFAULT_KEYBOARD_INPUT)).toBe(60);
+      expect(getKeyNote('KeyW', DEFAULT_KEYBOARD_INPUT)).toBe(61);
+      expect(getKeyNote('Semicolon', { ...DEFAULT_KEYBOARD_INPUT, baseMidi: 48 })).toBe(64);
+    });
+
+    it('should ignore keys that are not mapped', () => {
+      expect(getKeyNote('KeyQ', DEFAULT_KEYBOARD_INPUT)).toBeNull();
+    });
+  });
+
+  describe('getKeyLabel', () => {
+    it('should shorten letter, digit and punctuation codes', () => {
+      expect(getKeyLabel('KeyA')).toBe('A');
+      expect(getKeyLabel('Digit7')).toBe('7');
+      expect(getKeyLabel('Semicolon')).toBe(';');
+      expect(getKeyLabel('BracketLeft')).toBe('[');
+      expect(getKeyLabel('Space')).toBe('Space');
+    });
+  });
+
+  describe('playing', () => {
+    let events: MIDIEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      applyKeyboardInput({ ...DEFAULT_KEYBOARD_INPUT, enabled: true });
+      events = [];
+      unsubscribe = subscribeMIDIEvents((event) => events.push(event));
+    });
+
+    afterEach(() => {
+      unsubscribe();
+      applyKeyboardInput(DEFAULT_KEYBOARD_INPUT);
+    });
+
+    it('should send a note-on and note-off for a mapped key', () => {
+      press('KeyD');
+      press('KeyD'); // held down, not a new note
+      release('KeyD');
+
+      expect(events.map(({ type }) => type)).toEqual(['noteOn', 'noteOff']);
+      expect(events[0]).toMatchObject({ note: 64, deviceId: 'computer-keyboard' });
+    });
+
+    it('should shift the layout by octaves', () => {
+      press(OCTAVE_UP_KEY);
+      release(OCTAVE_UP_KEY);
+      press('KeyA');
+
+      expect(getKeyboardInput().baseMidi).toBe(72);
+      expect(events[0]).toMatchObject({ type: 'noteOn', note: 72 });
+    });
+
+    it('should release the note that was pressed, even after an octave shift', () => {
+      press('KeyA');
+      press(OCTAVE_DOWN_KEY);
+      release('KeyA');
+
+      expect(getKeyboardInput().baseMidi).toBe(48);
+      expect(events[1]).toMatchObject({ type: 'noteOff', note: 60 });
+    });
+
+    it('should keep the layout on the piano', () => {
+      for (let i = 0; i < 10; i++) {
+        press(OCTAVE_UP_KEY);
+        release(OCTAVE_UP_KEY);
+      }
+
+      expect(getKeyboardInput().baseMidi).toBe(96);
+    });
+
+    it('should leave keys alone while typing in a text field', () => {
+      const field = document.createElement('input');
+      document.body.appendChild(field);
+
+      press('KeyA', field);
+
+      expect(events).toEqual([]);
+      field.remove();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  DEFAULT_MICROPHONE_INPUT,
+  applyMicrophoneInput,
+  getMicrophoneInput,
+  isMicrophoneListening,
+} from '../microphone';
+import { initAudio } from '../../utils/audio';
+
+vi.mock('../../utils/audio', () => ({
+  initAudio: vi.fn(),
+  getActiveTuning: () => ({ concertPitch: 440 }),
+}));
+
+const enabled = { ...DEFAULT_MICROPHONE_INPUT, enabled: true };
+
+// An audio context whose resume() settles when the test says so
+function createContext() {
+  let settle: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  const node = () => ({ connect: vi.fn(), disconnect: vi.fn(), fftSize: 0 });
+  const context = {
+    sampleRate: 44100,
+    resume: vi.fn(() => new Promise<void>((resolve, reject) => (settle = { resolve, reject }))),
+    createMediaStreamSource: vi.fn(node),
+    createAnalyser: vi.fn(node),
+  };
+  vi.mocked(initAudio).mockReturnValue(context as unknown as AudioContext);
+  return {
+    resume: context.resume,
+    resolve: () => settle!.resolve(),
+    reject: (error: Error) => settle!.reject(error),
+  };
+}
+
+describe('Microphone', () => {
+  let stopTrack: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    stopTrack = vi.fn();
+    const stream = { getTracks: () => [{ stop: stopTrack }] };
+    vi.stubGlobal('navigator', {
+      mediaDevices: { getUserMedia: vi.fn().mockResolvedValue(stream) },
+    });
+  });
+
+  afterEach(async () => {
+    await applyMicrophoneInput(DEFAULT_MICROPHONE_INPUT);
+    vi.unstubAllGlobals();
+  });
+
+  it('should listen once the audio context has resumed', async () => {
+    const context = createContext();
+    const started = applyMicrophoneInput(enabled);
+    await vi.waitFor(() => expect(context.resume).toHaveBeenCalled());
+
+    context.resolve();
+    await started;
+
+    expect(isMicrophoneListening()).toBe(true);
+    expect(stopTrack).not.toHaveBeenCalled();
+  });
+
+  it('should close the microphone when it is turned off while the context resumes', async () => {
+    const context = createContext();
+    const started = applyMicrophoneInput(enabled);
+    await vi.waitFor(() => expect(context.resume).toHaveBeenCalled());
+
+    await applyMicrophoneInput(DEFAULT_MICROPHONE_INPUT);
+    context.resolve();
+    await started;
+
+    expect(isMicrophoneListening()).toBe(false);
+    expect(stopTrack).toHaveBeenCalled();
+  });
+
+  it('should close the microphone when the context cannot resume', async () => {
+    const context = createContext();
+    const started = applyMicrophoneInput(enabled);
+    await vi.waitFor(() => expect(context.resume).toHaveBeenCalled());
+
+    context.reject(new Error('Not allowed'));
+
+    await expect(started).rejects.toThrow('Not allowed');
+    expect(isMicrophoneListening()).toBe(false);
+    expect(stopTrack).toHaveBeenCalled();
+    expect(getMicrophoneInput().enabled).toBe(false);
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  MIDIEvent,
+  applyDeviceChoices,
+  applyOutputChoice,
+  cleanup,
+  getConnectedDevices,
+  getLostDevices,
+  initMIDI,
+  onDeviceStateChange,
+  parseMIDIMessage,
+  sendNote,
+  subscribeMIDIEvents,
+} from '../midi';
+
+// Just enough of a Web MIDI port for the module to use
+interface FakePort {
+  id: string;
+  name: string;
+  manufacturer: string;
+  state: 'connected' | 'disconnected';
+  onmidimessage: ((event: { data: Uint8Array; timeStamp: number }) => void) | null;
+  send: ReturnType<typeof vi.fn>;
+}
+
+function createPort(id: string, name: string): FakePort {
+  return { id, name, manufacturer: 'Acme', state: 'connected', onmidimessage: null, send: vi.fn() };
+}
+
+function createAccess(inputs: FakePort[], outputs: FakePort[] = []) {
+  return {
+    inputs: new Map(inputs.map((port) => [port.id, port])),
+    outputs: new Map(outputs.map((port) => [port.id, port])),
+    onstatechange: null as (() => void) | null,
+  };
+}
+
+async function connectAccess(access: ReturnType<typeof createAccess>): Promise<void> {
+  navigator.requestMIDIAccess = async () => access as unknown as MIDIAccess;
+  await initMIDI();
+}
+
+// Send raw bytes from a fake input, as the browser would
+function play(port: FakePort, ...bytes: number[]): void {
+  port.onmidimessage?.({ data: new Uint8Array(bytes), timeStamp: 0 });
+}
+
+describe('MIDI', () => {
+  describe('parseMIDIMessage', () => {
+    const parse = (...bytes: number[]) => parseMIDIMessage(new Uint8Array(bytes), 1000, 'in-1');
+
+    it('should read note-on and note-off', () => {
+      expect(parse(0x90, 60, 100)).toEqual({
+        type: 'noteOn',
+        note: 60,
+        velocity: 100,
+        channel: 0,
+        deviceId: 'in-1',
+        timestamp: 1000,
+      });
+      expect(parse(0x80, 60, 40)).toMatchObject({ type: 'noteOff', note: 60, velocity: 40 });
+    });
+
+    it('should treat a note-on with velocity 0 as a note-off', () => {
+      expect(parse(0x90, 64, 0)).toMatchObject({ type: 'noteOff', note: 64, velocity: 0 });
+    });
+
+    it('should take the channel from the low bits of the status byte', () => {
+      expect(parse(0x93, 60, 100)).toMatchObject({ type: 'noteOn', channel: 3 });
+      expect(parse(0x8f, 60, 0)).toMatchObject({ type: 'noteOff', channel: 15 });
+    });
+
+    it('should read control changes', () => {
+      expect(parse(0xb1, 64, 127)).toMatchObject({
+        type: 'controlChange',
+        channel: 1,
+        controller: 64,
+        value: 127,
+      });
+    });
+
+    it('should read the 14-bit pitch bend around the centre', () => {
+      expect(parse(0xe0, 0x00, 0x40)).toMatchObject({ type: 'pitchBend', value: 0 });
+      expect(parse(0xe0, 0x00, 0x00)).toMatchObject({ type: 'pitchBend', value: -8192 });
+      expect(parse(0xe0, 0x7f, 0x7f)).toMatchObject({ type: 'pitchBend', value: 8191 });
+      expect(parse(0xe0, 0x01, 0x40)).toMatchObject({ type: 'pitchBend', value: 1 });
+    });
+
+    it('should ignore messages the app does not use', () => {
+      expect(parse(0xa0, 60, 50)).toBeNull(); // aftertouch
+      expect(parse(0xc0, 5)).toBeNull(); // program change, too short
+      expect(parse(0xf8, 0, 0)).toBeNull(); // clock
+    });
+  });
+
+  describe('several inputs', () => {
+    const piano = createPort('in-1', 'Piano');
+    const pads = createPort('in-2', 'Pads');
+    let events: MIDIEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      await connectAccess(createAccess([piano, pads]));
+      events = [];
+      unsubscribe = subscribeMIDIEvents((event) => events.push(event));
+    });
+
+    afterEach(() => {
+      unsubscribe();
+      cleanup();
+      vi.restoreAllMocks();
+    });
+
+    it('should merge the events of every chosen input', () => {
+      applyDeviceChoices({
+        'Acme::Piano': { enabled: true, channel: null },
+        'Acme::Pads': { enabled: true, channel: null },
+      });
+
+      play(piano, 0x90, 60, 100);
+      play(pads, 0x90, 62, 100);
+
+      expect(events.map((event) => event.deviceId)).toEqual(['in-1', 'in-2']);
+      expect(getConnectedDevices().map((device) => device.name)).toEqual(['Piano', 'Pads']);
+    });
+
+    it('should not listen to inputs that are switched off', () => {
+      applyDeviceChoices({
+        'Acme::Piano': { enabled: true, channel: null },
+        'Acme::Pads': { enabled: false, channel: null },
+      });
+
+      play(piano, 0x90, 60, 100);
+      play(pads, 0x90, 62, 100);
+
+      expect(events.map((event) => event.deviceId)).toEqual(['in-1']);
+      expect(getConnectedDevices().map((device) => device.name)).toEqual(['Piano']);
+    });
+
+    it('should only pass the chosen channel of an input', () => {
+      applyDeviceChoices({ 'Acme::Piano': { enabled: true, channel: 2 } });
+
+      play(piano, 0x90, 60, 100);
+      play(piano, 0x92, 64, 100);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ note: 64, channel: 2 });
+    });
+  });
+
+  describe('reconnecting', () => {
+    let piano: FakePort;
+    let access: ReturnType<typeof createAccess>;
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      piano = createPort('in-1', 'Piano');
+      access = createAccess([piano]);
+      await connectAccess(access);
+      applyDeviceChoices({ 'Acme::Piano': { enabled: true, channel: null } });
+    });
+
+    afterEach(() => {
+      cleanup();
+      vi.restoreAllMocks();
+    });
+
+    it('should report a chosen input that was unplugged', () => {
+      const listener = vi.fn();
+      onDeviceStateChange(listener);
+
+      piano.state = 'disconnected';
+      access.onstatechange?.();
+
+      expect(getLostDevices().map((device) => device.name)).toEqual(['Piano']);
+      expect(getConnectedDevices()).toEqual([]);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reconnect the input when it is plugged back in', () => {
+      piano.state = 'disconnected';
+      access.onstatechange?.();
+      piano.state = 'connected';
+      access.onstatechange?.();
+
+      expect(getLostDevices()).toEqual([]);
+      expect(getConnectedDevices().map((device) => device.name)).toEqual(['Piano']);
+      expect(piano.onmidimessage).not.toBeNull();
+    });
+
+    it('should report an input the browser dropped from its list', () => {
+      access.inputs.delete('in-1');
+      access.onstatechange?.();
+
+      expect(getLostDevices().map((device) => device.name)).toEqual(['Piano']);
+      expect(getConnectedDevices()).toEqual([]);
+    });
+
+    it('should forget a lost input that is switched off', () => {
+      piano.state = 'disconnected';
+      access.onstatechange?.();
+      applyDeviceChoices({ 'Acme::Piano': { enabled: false, channel: null } });
+
+      expect(getLostDevices()).toEqual([]);
+    });
+  });
+
+  describe('sendNote', () => {
+    let synth: FakePort;
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(performance, 'now').mockReturnValue(1000);
+      synth = createPort('out-1', 'Synth');
+      await connectAccess(createAccess([], [synth]));
+    });
+
+    afterEach(() => {
+      cleanup();
+      vi.restoreAllMocks();
+    });
+
+    it('should leave the note to the caller when no output is chosen', () => {
+      expect(sendNote(60, 0.5)).toBeNull();
+    });
+
+    it('should send the note on the chosen channel and velocity', () => {
+      applyOutputChoice({ deviceKey: 'Acme::Synth', channel: 5, velocity: 90 });
+
+      sendNote(60, 0.5, 0.25);
+
+      expect(synth.send.mock.calls).toEqual([
+        [[0x95, 60, 90], 1250],
+        [[0x85, 60, 0], 1750],
+      ]);
+    });
+
+    it('should let a note use its own velocity', () => {
+      applyOutputChoice({ deviceKey: 'Acme::Synth', channel: 0, velocity: 90 });
+
+      sendNote(60, 0.5, 0, 40);
+
+      expect(synth.send.mock.calls[0][0]).toEqual([0x90, 60, 40]);
+    });
+
+    it('should end the note early when stopped', () => {
+      applyOutputChoice({ deviceKey: 'Acme::Synth', channel: 0, velocity: 90 });
+
+      const stop = sendNote(60, 2)!;
+      stop();
+
+      expect(synth.send.mock.calls[2]).toEqual([[0x80, 60, 0], 1000]);
+    });
+
+    it('should not send to an output that is unplugged', () => {
+      synth.state = 'disconnected';
+      applyOutputChoice({ deviceKey: 'Acme::Synth', channel: 0, velocity: 90 });
+
+      expect(sendNote(60, 0.5)).toBeNull();
+      expect(synth.send).not.toHaveBeenCalled();
+    });
+  });
+});
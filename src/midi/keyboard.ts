@@ -0,0 +1,212 @@
+// Computer keyboard as a virtual MIDI source
+
+import { injectMIDIEvent } from './midi';
+import { playNote } from '../utils/audio';
+
+export const KEYBOARD_DEVICE_ID = 'computer-keyboard';
+
+// Playing on the computer keyboard
+export interface KeyboardInputSettings {
+  enabled: boolean;
+  baseMidi: number; // note of the first key of the layout
+  keyMap: Record<string, number>; // semitones above baseMidi, by KeyboardEvent.code
+}
+
+// Piano-style layout over two rows: white keys on the home row, black keys above them
+export const DEFAULT_KEY_MAP: Record<string, number> = {
+  KeyA: 0,
+  KeyW: 1,
+  KeyS: 2,
+  KeyE: 3,
+  KeyD: 4,
+  KeyF: 5,
+  KeyT: 6,
+  KeyG: 7,
+  KeyY: 8,
+  KeyH: 9,
+  KeyU: 10,
+  KeyJ: 11,
+  KeyK: 12,
+  KeyO: 13,
+  KeyL: 14,
+  KeyP: 15,
+  Semicolon: 16,
+};
+
+export const DEFAULT_KEYBOARD_INPUT: KeyboardInputSettings = {
+  enabled: false,
+  baseMidi: 60, // C4
+  keyMap: DEFAULT_KEY_MAP,
+};
+
+export const OCTAVE_DOWN_KEY = 'KeyZ';
+export const OCTAVE_UP_KEY = 'KeyX';
+
+// Keep the whole layout on an 88-key piano
+const MIN_BASE_MIDI = 24;
+const MAX_BASE_MIDI = 96;
+const KEYBOARD_VELOCITY = 96;
+
+let keyboardInput: KeyboardInputSettings = DEFAULT_KEYBOARD_INPUT;
+// Note sounding for each held key, so releases match presses across octave shifts
+const heldKeys = new Map<string, number>();
+const changeListeners = new Set<(settings: KeyboardInputSettings) => void>();
+
+/**
+ * Apply the computer keyboard settings, starting or stopping keyboard input
+ */
+export function applyKeyboardInput(settings: KeyboardInputSettings): void {
+  releaseAllKeys();
+  keyboardInput = settings;
+
+  window.removeEventListener('keydown', handleKeyDown);
+  window.removeEventListener('keyup', handleKeyUp);
+  window.removeEventListener('blur', releaseAllKeys);
+
+  if (settings.enabled) {
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', releaseAllKeys);
+  }
+
+  changeListeners.forEach((listener) => listener(settings));
+}
+
+/**
+ * Get the current computer keyboard settings (including octave shifts)
+ */
+export function getKeyboardInput(): KeyboardInputSettings {
+  return keyboardInput;
+}
+
+/**
+ * Listen for setting changes, such as octave shifts from the keyboard
+ * Returns a function that stops listening
+ */
+export function onKeyboardInputChange(
+  listener: (settings: KeyboardInputSettings) => void
+): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Get the MIDI note a key plays, or null when it is not mapped
+ */
+export function getKeyNote(code: string, settings: KeyboardInputSettings): number | null {
+  const offset = settings.keyMap[code];
+  return offset === undefined ? null : settings.baseMidi + offset;
+}
+
+/**
+ * Get a short label for a key code (e.g., "KeyA" -> "A", "Semicolon" -> ";")
+ */
+export function getKeyLabel(code: string): string {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+
+  const labels: Record<string, string> = {
+    Semicolon: ';',
+    Quote: "'",
+    Comma: ',',
+    Period: '.',
+    Slash: '/',
+    BracketLeft: '[',
+    BracketRight: ']',
+    Minus: '-',
+    Equal: '=',
+  };
+  return labels[code] ?? code;
+}
+
+/**
+ * Play mapped keys as notes; shift octaves with the octave keys
+ */
+function handleKeyDown(event: KeyboardEvent): void {
+  if (!isPlayingKey(event)) return;
+
+  // Auto-repeat of a held key is not a new note
+  if (event.repeat || heldKeys.has(event.code)) {
+    if (getKeyNote(event.code, keyboardInput) !== null) event.preventDefault();
+    return;
+  }
+
+  if (event.code === OCTAVE_DOWN_KEY || event.code === OCTAVE_UP_KEY) {
+    shiftOctave(event.code === OCTAVE_UP_KEY ? 12 : -12);
+    return;
+  }
+
+  const note = getKeyNote(event.code, keyboardInput);
+  if (note === null) return;
+
+  event.preventDefault();
+  heldKeys.set(event.code, note);
+
+  // A computer keyboard makes no sound of its own
+  playNote(note, 0.5, 0.3);
+  injectMIDIEvent({
+    type: 'noteOn',
+    note,
+    velocity: KEYBOARD_VELOCITY,
+    deviceId: KEYBOARD_DEVICE_ID,
+    channel: 0,
+    timestamp: event.timeStamp,
+  });
+}
+
+function handleKeyUp(event: KeyboardEvent): void {
+  const note = heldKeys.get(event.code);
+  if (note === undefined) return;
+
+  heldKeys.delete(event.code);
+  injectMIDIEvent({
+    type: 'noteOff',
+    note,
+    velocity: 0,
+    deviceId: KEYBOARD_DEVICE_ID,
+    channel: 0,
+    timestamp: event.timeStamp,
+  });
+}
+
+/**
+ * Release every held key, e.g. when the window loses focus and key-ups would be lost
+ */
+function releaseAllKeys(): void {
+  heldKeys.forEach((note) => {
+    injectMIDIEvent({
+      type: 'noteOff',
+      note,
+      velocity: 0,
+      deviceId: KEYBOARD_DEVICE_ID,
+      channel: 0,
+      timestamp: performance.now(),
+    });
+  });
+  heldKeys.clear();
+}
+
+/**
+ * Leave keys alone while typing in a form field or using shortcuts
+ */
+function isPlayingKey(event: KeyboardEvent): boolean {
+  if (event.ctrlKey || event.metaKey || event.altKey) return false;
+
+  const target = event.target as HTMLElement | null;
+  if (!target) return true;
+  if (target instanceof HTMLInputElement) {
+    // Checkboxes and sliders keep focus after a click but take no letters
+    return ['checkbox', 'radio', 'range', 'button'].includes(target.type);
+  }
+  return target.tagName !== 'TEXTAREA' && target.tagName !== 'SELECT' && !target.isContentEditable;
+}
+
+function shiftOctave(semitones: number): void {
+  const baseMidi = keyboardInput.baseMidi + semitones;
+  if (baseMidi < MIN_BASE_MIDI || baseMidi > MAX_BASE_MIDI) return;
+
+  keyboardInput = { ...keyboardInput, baseMidi };
+  changeListeners.forEach((listener) => listener(keyboardInput));
+}
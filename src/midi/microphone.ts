@@ -0,0 +1,154 @@
+// Microphone as a virtual MIDI source: pitch detection for acoustic pianos
+
+import { injectMIDIEvent } from './midi';
+import { getActiveTuning, initAudio } from '../utils/audio';
+import { getCurrentTime } from '../utils/time';
+import {
+  detectPitch,
+  getRms,
+  trackPitch,
+  DEFAULT_TRACKER_OPTIONS,
+  INITIAL_TRACKER_STATE,
+  PitchTrackerState,
+  TrackedNoteEvent,
+} from '../game/pitchDetection';
+
+export const MICROPHONE_DEVICE_ID = 'microphone';
+
+// Listening to an acoustic piano through the microphone
+export interface MicrophoneInputSettings {
+  enabled: boolean;
+  minConfidence: number; // 0-1: how clear a pitch must be to count as a note
+}
+
+export const DEFAULT_MICROPHONE_INPUT: MicrophoneInputSettings = {
+  enabled: false,
+  minConfidence: DEFAULT_TRACKER_OPTIONS.minConfidence,
+};
+
+// Samples per analysis frame (about 46ms at 44.1kHz, two periods of F1), and how often to analyse
+const FRAME_SIZE = 2048;
+const FRAME_INTERVAL_MS = 20;
+
+interface ListeningSession {
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  timer: ReturnType<typeof setInterval>;
+}
+
+let microphoneInput: MicrophoneInputSettings = DEFAULT_MICROPHONE_INPUT;
+let session: ListeningSession | null = null;
+let trackerState: PitchTrackerState = INITIAL_TRACKER_STATE;
+// Bumped on every change, so a slow permission prompt cannot start a stale session
+let startRequest = 0;
+
+/**
+ * Apply the microphone settings, starting or stopping microphone input
+ * Rejects when the microphone cannot be opened, e.g. when permission is denied
+ */
+export async function applyMicrophoneInput(settings: MicrophoneInputSettings): Promise<void> {
+  const request = ++startRequest;
+  microphoneInput = settings;
+
+  // A new confidence applies from the next frame; only turning on or off reopens the microphone
+  if (settings.enabled && session) return;
+  stopListening();
+  if (!settings.enabled) return;
+
+  let stream: MediaStream;
+  try {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error('Microphone input is not supported in this browser');
+    }
+    // Voice processing would smear and cut out a piano's tone
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+  } catch (error) {
+    if (request === startRequest) microphoneInput = { ...settings, enabled: false };
+    throw error;
+  }
+
+  const closeStream = () => stream.getTracks().forEach((track) => track.stop());
+  if (request !== startRequest) {
+    closeStream();
+    return;
+  }
+
+  const context = initAudio();
+  try {
+    await context.resume();
+  } catch (error) {
+    closeStream();
+    if (request === startRequest) microphoneInput = { ...settings, enabled: false };
+    throw error;
+  }
+
+  // Turned off or changed while the audio context was resuming
+  if (request !== startRequest) {
+    closeStream();
+    return;
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FRAME_SIZE;
+  source.connect(analyser);
+
+  const frame = new Float32Array(FRAME_SIZE);
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(frame);
+    const step = trackPitch(trackerState, getRms(frame), detectPitch(frame, context.sampleRate), {
+      ...DEFAULT_TRACKER_OPTIONS,
+      minConfidence: microphoneInput.minConfidence,
+      concertPitch: getActiveTuning().concertPitch,
+    });
+    trackerState = step.state;
+    step.events.forEach(sendTrackedEvent);
+  }, FRAME_INTERVAL_MS);
+
+  session = { stream, source, analyser, timer };
+}
+
+/**
+ * Get the current microphone settings
+ */
+export function getMicrophoneInput(): MicrophoneInputSettings {
+  return microphoneInput;
+}
+
+/**
+ * Check whether the microphone is open and listening
+ */
+export function isMicrophoneListening(): boolean {
+  return session !== null;
+}
+
+function sendTrackedEvent(event: TrackedNoteEvent): void {
+  // Detection lags the strike by a frame or two; latency calibration measures that too
+  injectMIDIEvent({
+    ...event,
+    velocity: event.type === 'noteOn' ? event.velocity : 0,
+    deviceId: MICROPHONE_DEVICE_ID,
+    channel: 0,
+    timestamp: getCurrentTime(),
+  });
+}
+
+/**
+ * Close the microphone, releasing any note that was still sounding
+ */
+function stopListening(): void {
+  if (trackerState.note !== null) {
+    sendTrackedEvent({ type: 'noteOff', note: trackerState.note });
+  }
+  trackerState = INITIAL_TRACKER_STATE;
+
+  if (!session) return;
+  clearInterval(session.timer);
+  session.source.disconnect();
+  session.analyser.disconnect();
+  session.stream.getTracks().forEach((track) => track.stop());
+  session = null;
+}
@@ -1,5 +1,18 @@
 // Web MIDI API handling
 
+// How a MIDI input is used, keyed by device name and manufacturer
+export interface MIDIDeviceChoice {
+  enabled: boolean;
+  channel: number | null; // 0-15, or null for every channel
+}
+
+// The MIDI output prompts and hints are played on
+export interface MIDIOutputChoice {
+  deviceKey: string; // device name and manufacturer, as for inputs
+  channel: number; // 0-15
+  velocity: number; // 1-127
+}
+
 export interface MIDIDeviceInfo {
   id: string;
   name: string;
@@ -7,11 +20,54 @@ export interface MIDIDeviceInfo {
   state: string;
 }
 
-export type MIDIMessageHandler = (midiNote: number, velocity: number) => void;
+export type MIDIMessageHandler = (
+  midiNote: number,
+  velocity: number,
+  deviceId: string,
+  timestamp: number
+) => void;
+
+// Controller numbers of the pedals
+export const SUSTAIN_PEDAL = 64;
+export const SOSTENUTO_PEDAL = 66;
+
+// Where an event came from; timestamps are event.timeStamp, on the performance.now() clock
+interface MIDIEventSource {
+  deviceId: string;
+  channel: number; // 0-15
+  timestamp: number;
+}
+
+// Typed MIDI events, merged from every connected input
+export type MIDIEvent = MIDIEventSource &
+  (
+    | { type: 'noteOn'; note: number; velocity: number }
+    | { type: 'noteOff'; note: number; velocity: number }
+    | { type: 'controlChange'; controller: number; value: number }
+    | { type: 'pitchBend'; value: number }
+  );
+
+export type MIDIEventListener = (event: MIDIEvent) => void;
+
+interface ConnectedInput {
+  input: MIDIInput;
+  channel: number | null; // only this channel is listened to; null for all
+}
 
 let midiAccess: MIDIAccess | null = null;
-let selectedInput: MIDIInput | null = null;
+const connectedInputs = new Map<string, ConnectedInput>();
 let messageHandler: MIDIMessageHandler | null = null;
+const eventListeners = new Set<MIDIEventListener>();
+const stateListeners = new Set<(devices: MIDIDeviceInfo[]) => void>();
+
+// Devices the player chose, by device key, so they reconnect whenever they show up
+let deviceChoices: Record<string, MIDIDeviceChoice> = {};
+// Chosen devices that were unplugged while connected, by device key
+const lostDevices = new Map<string, MIDIDeviceInfo>();
+
+// Output for prompts and hints; found again by device key when it is plugged back in
+let outputChoice: MIDIOutputChoice | null = null;
+let selectedOutput: MIDIOutput | null = null;
 
 /**
  * Check if Web MIDI API is supported
@@ -31,6 +87,7 @@ export async function initMIDI(): Promise<boolean> {
 
   try {
     midiAccess = await navigator.requestMIDIAccess();
+    midiAccess.onstatechange = handleStateChange;
     console.log('MIDI access granted');
     return true;
   } catch (error) {
@@ -49,45 +106,184 @@ export function getInputDevices(): MIDIDeviceInfo[] {
   const inputs = midiAccess.inputs.values();
 
   for (const input of inputs) {
-    devices.push({
-      id: input.id,
-      name: input.name || 'Unknown Device',
-      manufacturer: input.manufacturer || 'Unknown',
-      state: input.state,
-    });
+    devices.push(getDeviceInfo(input));
   }
 
   return devices;
 }
 
 /**
- * Connect to a MIDI input device
+ * Get list of available MIDI output devices
+ */
+export function getOutputDevices(): MIDIDeviceInfo[] {
+  if (!midiAccess) return [];
+
+  const devices: MIDIDeviceInfo[] = [];
+  for (const output of midiAccess.outputs.values()) {
+    devices.push(getDeviceInfo(output));
+  }
+
+  return devices;
+}
+
+function getDeviceInfo(port: MIDIPort): MIDIDeviceInfo {
+  return {
+    id: port.id,
+    name: port.name || 'Unknown Device',
+    manufacturer: port.manufacturer || 'Unknown',
+    state: port.state,
+  };
+}
+
+/**
+ * Get the key a device is remembered by across reloads (its id can change)
  */
-export function connectDevice(deviceId: string, handler: MIDIMessageHandler): boolean {
+export function getDeviceKey(device: MIDIDeviceInfo): string {
+  return `${device.manufacturer}::${device.name}`;
+}
+
+/**
+ * Get the key of the input an event came from; virtual sources are keyed by their id
+ */
+export function getInputDeviceKey(deviceId: string): string {
+  const connected = connectedInputs.get(deviceId);
+  return connected ? getDeviceKey(getDeviceInfo(connected.input)) : deviceId;
+}
+
+/**
+ * Connect to a MIDI input device, alongside any already connected
+ * Connecting a connected device again only changes its channel filter
+ */
+export function connectDevice(deviceId: string, channel: number | null = null): boolean {
   if (!midiAccess) {
     console.warn('MIDI not initialized');
     return false;
   }
 
-  // Disconnect previous device
-  disconnectDevice();
-
   const input = midiAccess.inputs.get(deviceId);
   if (!input) {
     console.error('Device not found:', deviceId);
     return false;
   }
 
-  selectedInput = input;
-  messageHandler = handler;
+  connectedInputs.set(deviceId, { input, channel });
 
-  // Attach message handler
-  selectedInput.onmidimessage = handleMIDIMessage;
+  // Attach message handler, tagging events with their device
+  input.onmidimessage = (event) => handleMIDIMessage(deviceId, event);
 
   console.log('Connected to MIDI device:', input.name);
   return true;
 }
 
+/**
+ * Remember which devices to play and connect the ones that are plugged in
+ * Chosen devices connect by themselves when they are plugged in later
+ */
+export function applyDeviceChoices(choices: Record<string, MIDIDeviceChoice>): void {
+  deviceChoices = choices;
+  syncConnections();
+}
+
+/**
+ * Connect the chosen inputs and disconnect the rest, noting chosen inputs that went away
+ */
+function syncConnections(): void {
+  if (!midiAccess) return;
+
+  for (const input of midiAccess.inputs.values()) {
+    const device = getDeviceInfo(input);
+    const key = getDeviceKey(device);
+    const choice = deviceChoices[key];
+    const connected = connectedInputs.get(input.id);
+
+    if (!choice?.enabled) {
+      disconnectDevice(input.id);
+      lostDevices.delete(key);
+    } else if (input.state === 'connected') {
+      if (connected?.input !== input || connected.channel !== choice.channel) {
+        connectDevice(input.id, choice.channel);
+      }
+      lostDevices.delete(key);
+    } else if (connected) {
+      disconnectDevice(input.id);
+      lostDevices.set(key, device);
+    }
+  }
+
+  // Some browsers drop unplugged inputs from the list altogether
+  for (const [id, { input }] of connectedInputs) {
+    if (!midiAccess.inputs.has(id)) {
+      disconnectDevice(id);
+      lostDevices.set(getDeviceKey(getDeviceInfo(input)), getDeviceInfo(input));
+    }
+  }
+
+  selectedOutput = null;
+  for (const output of midiAccess.outputs.values()) {
+    const isChosen = getDeviceKey(getDeviceInfo(output)) === outputChoice?.deviceKey;
+    if (isChosen && output.state === 'connected') {
+      selectedOutput = output;
+    }
+  }
+}
+
+/**
+ * Choose the output prompts and hints are sent to, or null to play them through the speakers
+ */
+export function applyOutputChoice(choice: MIDIOutputChoice | null): void {
+  outputChoice = choice;
+  syncConnections();
+}
+
+/**
+ * Get the output notes are sent to, if it is plugged in
+ */
+export function getSelectedOutput(): MIDIDeviceInfo | null {
+  return selectedOutput ? getDeviceInfo(selectedOutput) : null;
+}
+
+/**
+ * Play a note on the chosen output, with its channel and velocity
+ * Returns null when no output is plugged in, so the caller can play it itself
+ * @param midiNote - MIDI note number
+ * @param duration - Seconds until the note-off
+ * @param delay - Seconds until the note-on (default: 0)
+ * @param velocity - Velocity for this note instead of the chosen one
+ * @returns A function that ends the note early
+ */
+export function sendNote(
+  midiNote: number,
+  duration: number,
+  delay: number = 0,
+  velocity?: number
+): (() => void) | null {
+  if (!selectedOutput || !outputChoice) return null;
+
+  const output = selectedOutput;
+  const { channel } = outputChoice;
+  const startAt = performance.now() + delay * 1000;
+  output.send([0x90 | channel, midiNote, velocity ?? outputChoice.velocity], startAt);
+  output.send([0x80 | channel, midiNote, 0], startAt + duration * 1000);
+
+  return () => output.send([0x80 | channel, midiNote, 0], Math.max(performance.now(), startAt));
+}
+
+/**
+ * Reconnect chosen devices as they come and go, then tell the listeners
+ */
+function handleStateChange(): void {
+  syncConnections();
+  const devices = getInputDevices();
+  stateListeners.forEach((listener) => listener(devices));
+}
+
+/**
+ * Get the chosen devices that were unplugged and have not come back yet
+ */
+export function getLostDevices(): MIDIDeviceInfo[] {
+  return [...lostDevices.values()];
+}
+
 /**
  * Update the message handler without disconnecting
  */
@@ -97,59 +293,114 @@ export function updateMessageHandler(handler: MIDIMessageHandler): void {
 }
 
 /**
- * Disconnect current MIDI device
+ * Subscribe to every MIDI event of the connected device (kept across device changes)
+ * Returns a function that unsubscribes
  */
-export function disconnectDevice(): void {
-  if (selectedInput) {
-    selectedInput.onmidimessage = null;
-    selectedInput = null;
-  }
-  messageHandler = null;
+export function subscribeMIDIEvents(listener: MIDIEventListener): () => void {
+  eventListeners.add(listener);
+  return () => {
+    eventListeners.delete(listener);
+  };
 }
 
 /**
- * Handle incoming MIDI messages
+ * Check whether a pedal controller is pressed (values of 64 and up are down)
  */
-function handleMIDIMessage(event: MIDIMessageEvent): void {
-  const data = event.data;
-  if (!data || data.length < 3) return;
+export function isPedalDown(event: MIDIEvent, controller: number): boolean {
+  return event.type === 'controlChange' && event.controller === controller && event.value >= 64;
+}
 
-  const status = data[0];
-  const note = data[1];
-  const velocity = data[2];
+/**
+ * Disconnect one MIDI device, or every device when no id is given
+ */
+export function disconnectDevice(deviceId?: string): void {
+  const ids = deviceId ? [deviceId] : [...connectedInputs.keys()];
+
+  ids.forEach((id) => {
+    const connected = connectedInputs.get(id);
+    if (connected) {
+      connected.input.onmidimessage = null;
+      connectedInputs.delete(id);
+    }
+  });
+}
+
+/**
+ * Turn raw MIDI bytes into a typed event
+ * Returns null for messages the app does not use (aftertouch, program change, system)
+ */
+export function parseMIDIMessage(
+  data: Uint8Array,
+  timestamp: number,
+  deviceId: string
+): MIDIEvent | null {
+  if (data.length < 3) return null;
 
-  // Filter for NOTE_ON messages (status byte 144-159) with velocity > 0
-  // NOTE_OFF is either status 128-143 or NOTE_ON with velocity 0
+  const status = data[0];
   const messageType = status & 0xf0;
-  const isNoteOn = messageType === 0x90 && velocity > 0;
+  const source = { deviceId, channel: status & 0x0f, timestamp };
 
-  if (isNoteOn && messageHandler) {
-    messageHandler(note, velocity);
+  switch (messageType) {
+    // NOTE_ON with velocity 0 is a NOTE_OFF (running status)
+    case 0x90:
+      return data[2] > 0
+        ? { ...source, type: 'noteOn', note: data[1], velocity: data[2] }
+        : { ...source, type: 'noteOff', note: data[1], velocity: 0 };
+    case 0x80:
+      return { ...source, type: 'noteOff', note: data[1], velocity: data[2] };
+    case 0xb0:
+      return { ...source, type: 'controlChange', controller: data[1], value: data[2] };
+    case 0xe0:
+      // 14-bit value centred on 0 (-8192 to 8191)
+      return { ...source, type: 'pitchBend', value: ((data[2] << 7) | data[1]) - 8192 };
+    default:
+      return null;
   }
 }
 
 /**
- * Get currently connected device info
+ * Handle incoming MIDI messages
  */
-export function getConnectedDevice(): MIDIDeviceInfo | null {
-  if (!selectedInput) return null;
+function handleMIDIMessage(deviceId: string, event: MIDIMessageEvent): void {
+  if (!event.data) return;
 
-  return {
-    id: selectedInput.id,
-    name: selectedInput.name || 'Unknown Device',
-    manufacturer: selectedInput.manufacturer || 'Unknown',
-    state: selectedInput.state,
-  };
+  const midiEvent = parseMIDIMessage(event.data, event.timeStamp, deviceId);
+  if (!midiEvent) return;
+
+  // Drop channels the device is not listened to on
+  const channel = connectedInputs.get(deviceId)?.channel ?? null;
+  if (channel !== null && midiEvent.channel !== channel) return;
+
+  injectMIDIEvent(midiEvent);
 }
 
 /**
- * Listen for device connection/disconnection events
+ * Deliver an event to the listeners and the note handler, as if a device had sent it
+ * Virtual sources such as the computer keyboard come in through here
  */
-export function onDeviceStateChange(callback: (devices: MIDIDeviceInfo[]) => void): void {
-  if (!midiAccess) return;
+export function injectMIDIEvent(event: MIDIEvent): void {
+  eventListeners.forEach((listener) => listener(event));
 
-  midiAccess.onstatechange = () => {
-    callback(getInputDevices());
+  if (event.type === 'noteOn' && messageHandler) {
+    messageHandler(event.note, event.velocity, event.deviceId, event.timestamp);
+  }
+}
+
+/**
+ * Get info on every connected device
+ */
+export function getConnectedDevices(): MIDIDeviceInfo[] {
+  return [...connectedInputs.values()].map(({ input }) => getDeviceInfo(input));
+}
+
+/**
+ * Listen for device connection/disconnection events, after chosen devices reconnected
+ * Returns a function that stops listening
+ */
+export function onDeviceStateChange(callback: (devices: MIDIDeviceInfo[]) => void): () => void {
+  stateListeners.add(callback);
+  return () => {
+    stateListeners.delete(callback);
   };
 }
 
@@ -158,6 +409,11 @@ export function onDeviceStateChange(callback: (devices: MIDIDeviceInfo[]) => voi
  */
 export function cleanup(): void {
   disconnectDevice();
+  messageHandler = null;
+  stateListeners.clear();
+  lostDevices.clear();
+  outputChoice = null;
+  selectedOutput = null;
   if (midiAccess) {
     midiAccess.onstatechange = null;
   }
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import { getAudioContext, initAudio, scheduleSequence, stopPlayback } from '../audio';
+import { startSampleVoice } from '../samples';
+import { startMetronome } from '../metronome';
+
+// Records what is scheduled on an AudioParam
+class FakeParam {
+  cancelledFrom: number[] = [];
+  setValueAtTime() {}
+  linearRampToValueAtTime() {}
+  exponentialRampToValueAtTime() {}
+  setTargetAtTime() {}
+  cancelScheduledValues(time: number) {
+    this.cancelledFrom.push(time);
+  }
+}
+
+class FakeNode {
+  connect() {}
+  disconnect() {}
+}
+
+// An oscillator or buffer source; only its last stop time counts, as in Web Audio
+class FakeSource extends FakeNode {
+  type = 'sine';
+  buffer: unknown = null;
+  frequency = new FakeParam();
+  playbackRate = new FakeParam();
+  start = vi.fn();
+  stop = vi.fn();
+
+  get stopsAt(): number {
+    return this.stop.mock.calls[this.stop.mock.calls.length - 1][0];
+  }
+}
+
+class FakeGain extends FakeNode {
+  gain = new FakeParam();
+}
+
+class FakeAudioContext {
+  currentTime = 0;
+  destination = new FakeNode();
+  sources: FakeSource[] = [];
+  gains: FakeGain[] = [];
+
+  createOscillator() {
+    const source = new FakeSource();
+    this.sources.push(source);
+    return source;
+  }
+
+  createBufferSource() {
+    return this.createOscillator();
+  }
+
+  createGain() {
+    const gain = new FakeGain();
+    this.gains.push(gain);
+    return gain;
+  }
+
+  createDynamicsCompressor() {
+    return Object.assign(new FakeNode(), { threshold: new FakeParam(), ratio: new FakeParam() });
+  }
+}
+
+describe('Audio', () => {
+  let context: FakeAudioContext;
+
+  beforeAll(() => {
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    initAudio();
+    context = getAudioContext() as unknown as FakeAudioContext;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    stopPlayback();
+    context.currentTime = 0;
+    context.sources = [];
+    context.gains = [];
+  });
+
+  describe('cancelling playback', () => {
+    it('should silence a note that is already sounding', () => {
+      // The note starts at 0.05s and would ring until 1.55s
+      const playback = scheduleSequence([{ midi: 60, beats: 1 }], 60);
+      const firstStop = context.sources[0].stopsAt;
+
+      context.currentTime = 0.5;
+      playback.cancel();
+
+      context.sources.forEach((source) => {
+        expect(source.stopsAt).toBeLessThan(firstStop);
+        expect(source.stopsAt).toBeCloseTo(0.5 + 0.64);
+      });
+      expect(context.gains.some((gain) => gain.gain.cancelledFrom.includes(0.5))).toBe(true);
+    });
+
+    it('should keep a note that has not started from sounding', () => {
+      const playback = scheduleSequence([{ midi: 60, beats: 1 }], 60);
+
+      context.currentTime = 0.02;
+      playback.cancel();
+
+      context.sources.forEach((source) => expect(source.stopsAt).toBe(0.05));
+    });
+
+    it('should silence every sequence on stopPlayback', () => {
+      scheduleSequence([{ midi: 60, beats: 1 }], 60);
+      scheduleSequence([{ midi: 64, beats: 1 }], 60);
+
+      context.currentTime = 0.5;
+      stopPlayback();
+
+      context.sources.forEach((source) => expect(source.stopsAt).toBeCloseTo(1.14));
+    });
+  });
+
+  describe('sample voices', () => {
+    const pack = {
+      regions: [{ file: 'c4.wav', keyCenter: 60, loKey: 0, hiKey: 127, loVel: 0, hiVel: 127 }],
+      buffers: new Map([['c4.wav', {} as AudioBuffer]]),
+    };
+
+    it('should only move the release earlier', () => {
+      const fake = new FakeAudioContext();
+      const voice = startSampleVoice(
+        fake as unknown as BaseAudioContext,
+        fake.destination as unknown as AudioNode,
+        pack,
+        60,
+        261.63,
+        100,
+        0
+      )!;
+      const [source] = fake.sources;
+
+      voice.release(2);
+      voice.release(3);
+      expect(source.stopsAt).toBeCloseTo(2 + 0.64);
+
+      voice.release(1);
+      expect(source.stopsAt).toBeCloseTo(1 + 0.64);
+    });
+  });
+
+  describe('metronome', () => {
+    it('should keep every click on the beat when the clocks drift apart', () => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      const now = vi.spyOn(performance, 'now').mockReturnValue(1000);
+
+      // 120 bpm from a downbeat now, at audio time 0
+      const stop = startMetronome(120, 1000);
+
+      // The audio clock moves in coarse steps, so it lags the performance clock a little
+      context.currentTime = 0.41;
+      now.mockReturnValue(1430);
+      vi.advanceTimersByTime(25);
+      stop();
+
+      expect(context.sources.map((source) => source.start.mock.calls[0][0])).toEqual([0, 0.5]);
+    });
+  });
+});
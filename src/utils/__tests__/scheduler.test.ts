@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { scheduleAhead } from '../scheduler';
+
+describe('scheduleAhead', () => {
+  // Only the clock is read
+  let context: { currentTime: number };
+  const asContext = () => context as unknown as BaseAudioContext;
+
+  // Events every half second, five in all
+  const eventTime = (index: number) => (index < 5 ? index * 0.5 : null);
+
+  // Move both clocks on together
+  const advance = (seconds: number) => {
+    context.currentTime += seconds;
+    vi.advanceTimersByTime(seconds * 1000);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    context = { currentTime: 0 };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should hand events over only shortly before they are due', () => {
+    const played: [number, number][] = [];
+    scheduleAhead(asContext(), eventTime, (index, when) => {
+      played.push([index, when]);
+    });
+
+    expect(played).toEqual([[0, 0]]);
+
+    advance(0.45);
+    expect(played).toEqual([
+      [0, 0],
+      [1, 0.5],
+    ]);
+  });
+
+  it('should start from the first index and stop after the last event', () => {
+    const played: number[] = [];
+    scheduleAhead(
+      asContext(),
+      eventTime,
+      (index) => {
+        played.push(index);
+      },
+      3
+    );
+
+    advance(2);
+
+    expect(played).toEqual([3, 4]);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should play late events straight away', () => {
+    context.currentTime = 0.3;
+    const times: number[] = [];
+    scheduleAhead(asContext(), eventTime, (_, when) => {
+      times.push(when);
+    });
+
+    expect(times).toEqual([0.3]);
+  });
+
+  it('should silence the events it handed over when cancelled', () => {
+    const silencers = [vi.fn(), vi.fn(), vi.fn()];
+    const playback = scheduleAhead(asContext(), eventTime, (index) => silencers[index]);
+
+    advance(0.45);
+    playback.cancel();
+    advance(2);
+
+    expect(silencers[0]).toHaveBeenCalledTimes(1);
+    expect(silencers[1]).toHaveBeenCalledTimes(1);
+    expect(silencers[2]).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
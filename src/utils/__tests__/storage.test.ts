@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  LegacyStorage,
+  SCHEMA_VERSION,
+  clearAllData,
+  getHighScore,
+  initStorage,
+  loadMIDIOutputChoice,
+  loadSessionHistory,
+  loadSettings,
+  saveHighScore,
+  saveMIDIOutputChoice,
+  saveSettings,
+} from '../storage';
+import { StorageAdapter, createMemoryAdapter } from '../storageAdapters';
+import { DEFAULT_SETTINGS } from '../../game/types';
+
+function legacyStorage(items: Record<string, string>): LegacyStorage & { keys: () => string[] } {
+  const stored = new Map(Object.entries(items));
+  return {
+    getItem: (key) => stored.get(key) ?? null,
+    removeItem: (key) => {
+      stored.delete(key);
+    },
+    keys: () => [...stored.keys()],
+  };
+}
+
+// Let background saves reach the store
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const highScore = {
+  score: 1200,
+  accuracy: 92,
+  streak: 14,
+  date: '2024-05-01T10:00:00.000Z',
+  difficulty: 'intermediate',
+};
+
+describe('Storage', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('migrations', () => {
+    it('should move the localStorage settings and high score into the store', async () => {
+      const store = createMemoryAdapter();
+      const legacy = legacyStorage({
+        pnt_settings_v1: JSON.stringify({ ...DEFAULT_SETTINGS, lives: 5, difficulty: 'advanced' }),
+        pnt_highscore_v1: JSON.stringify(highScore),
+      });
+
+      await initStorage(store, legacy);
+
+      expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, lives: 5, difficulty: 'advanced' });
+      expect(getHighScore()).toEqual(highScore);
+      expect(legacy.keys()).toEqual([]);
+      expect(await store.getAll()).toMatchObject({ schemaVersion: SCHEMA_VERSION });
+    });
+
+    it('should fill settings missing from older versions with defaults', async () => {
+      await initStorage(createMemoryAdapter(), legacyStorage({ pnt_settings_v1: '{"lives":2}' }));
+
+      expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, lives: 2 });
+    });
+
+    it('should drop corrupt records', async () => {
+      const legacy = legacyStorage({ pnt_highscore_v1: '{"score": 12' });
+
+      await initStorage(createMemoryAdapter(), legacy);
+
+      expect(getHighScore()).toBeNull();
+      expect(legacy.keys()).toEqual([]);
+    });
+
+    it('should run each migration only once', async () => {
+      const store = createMemoryAdapter();
+      await initStorage(store, legacyStorage({}));
+
+      const legacy = legacyStorage({ pnt_highscore_v1: JSON.stringify(highScore) });
+      await initStorage(store, legacy);
+
+      expect(getHighScore()).toBeNull();
+      expect(legacy.keys()).toEqual(['pnt_highscore_v1']);
+    });
+
+    it('should keep a record the store failed to write for the next try', async () => {
+      const failing: StorageAdapter = {
+        ...createMemoryAdapter(),
+        set: async () => {
+          throw new Error('Quota exceeded');
+        },
+      };
+      const legacy = legacyStorage({ pnt_highscore_v1: JSON.stringify(highScore) });
+
+      await initStorage(failing, legacy);
+
+      expect(legacy.keys()).toEqual(['pnt_highscore_v1']);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject out-of-range and unknown settings', async () => {
+      const settings = { ...DEFAULT_SETTINGS, lives: 0, sequenceLength: 500, tempoBpm: 90 };
+      await initStorage(createMemoryAdapter({ schemaVersion: SCHEMA_VERSION, settings }), null);
+
+      expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, tempoBpm: 90 });
+
+      await initStorage(
+        createMemoryAdapter({
+          schemaVersion: SCHEMA_VERSION,
+          settings: { ...DEFAULT_SETTINGS, difficulty: 'impossible', lives: 2.5 },
+        }),
+        null
+      );
+
+      expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should reject a record of the wrong shape', async () => {
+      await initStorage(
+        createMemoryAdapter({
+          schemaVersion: SCHEMA_VERSION,
+          settings: 'hard',
+          highScore: { ...highScore, score: '1200' },
+        }),
+        null
+      );
+
+      expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+      expect(getHighScore()).toBeNull();
+    });
+
+    it('should drop invalid sessions and fill in missing confusions', async () => {
+      const session = {
+        endedAt: 1_700_000_000_000,
+        settings: DEFAULT_SETTINGS,
+        seed: 1,
+        durationSeconds: 60,
+        score: 100,
+        attempts: 10,
+        correct: 8,
+        accuracy: 80,
+        bestStreak: 5,
+        avgMsPerNote: 1500,
+        noteResults: {},
+      };
+      await initStorage(
+        createMemoryAdapter({
+          schemaVersion: SCHEMA_VERSION,
+          history: [session, { ...session, accuracy: 180 }],
+        }),
+        null
+      );
+
+      expect(loadSessionHistory()).toEqual([{ ...session, confusions: {} }]);
+    });
+  });
+
+  describe('saving', () => {
+    it('should keep saved records across a restart', async () => {
+      const store = createMemoryAdapter();
+      await initStorage(store, null);
+
+      saveSettings({ ...DEFAULT_SETTINGS, lives: 4 });
+      saveHighScore(highScore);
+      saveHighScore({ ...highScore, score: 10 });
+      await flush();
+      await initStorage(store, null);
+
+      expect(loadSettings().lives).toBe(4);
+      expect(getHighScore()).toEqual(highScore);
+    });
+
+    it('should remove the MIDI output choice when it is cleared', async () => {
+      const store = createMemoryAdapter();
+      await initStorage(store, null);
+
+      saveMIDIOutputChoice({ deviceKey: 'Piano', channel: 0, velocity: 100 });
+      saveMIDIOutputChoice(null);
+      await flush();
+      await initStorage(store, null);
+
+      expect(loadMIDIOutputChoice()).toBeNull();
+    });
+
+    it('should clear every record but the schema version', async () => {
+      const store = createMemoryAdapter();
+      await initStorage(store, null);
+      saveHighScore(highScore);
+
+      clearAllData();
+      await flush();
+
+      expect(getHighScore()).toBeNull();
+      expect(await store.getAll()).toEqual({ schemaVersion: SCHEMA_VERSION });
+    });
+  });
+
+  describe('opening', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      localStorage.clear();
+    });
+
+    it('should fall back to localStorage when another tab blocks the database', async () => {
+      const request = {} as IDBOpenDBRequest;
+      vi.stubGlobal('indexedDB', {
+        open: () => {
+          setTimeout(() => request.onblocked?.({} as IDBVersionChangeEvent));
+          return request;
+        },
+      });
+
+      await initStorage(undefined, null);
+      saveSettings({ ...DEFAULT_SETTINGS, lives: 4 });
+      await flush();
+
+      expect(JSON.parse(localStorage.getItem('solideya:settings')!).lives).toBe(4);
+    });
+  });
+});
@@ -1,6 +1,34 @@
 // Audio utilities for playing note sounds
 
+import { sendNote } from '../midi/midi';
+import { SoundSource } from '../game/types';
+import { getTuningFrequency, EQUAL_TUNING, Tuning } from '../game/tuning';
+import { startPianoVoice } from './pianoSynth';
+import { loadSamplePack, startSampleVoice, SamplePack } from './samples';
+import { scheduleAhead, PlaybackHandle } from './scheduler';
+
+// Volume that plays a note at full velocity, and the velocity of notes that set none
+const MAX_VOLUME = 0.5;
+const DEFAULT_VELOCITY = 76;
+
+export interface SequenceNote {
+  midi: number;
+  beats: number; // time until the next note starts, in beats
+  durationBeats?: number; // how long it sounds, in beats (default: 90% of beats)
+  velocity?: number; // 1-127; sets the MIDI output's velocity too (default: a medium touch)
+}
+
 let audioContext: AudioContext | null = null;
+let output: DynamicsCompressorNode | null = null;
+
+let soundSource: SoundSource = 'synth';
+let tuning: Tuning = EQUAL_TUNING;
+let chosenPackUrl = '';
+let loadedPackUrl: string | null = null;
+let samplePack: SamplePack | null = null;
+
+// Sequences still playing, so they can all be stopped at once
+const activePlayback = new Set<PlaybackHandle>();
 
 /**
  * Initialize the audio context (call once on user interaction)
@@ -8,6 +36,7 @@ let audioContext: AudioContext | null = null;
 export function initAudio(): AudioContext {
   if (!audioContext) {
     audioContext = new AudioContext();
+    loadChosenSamplePack(audioContext);
   }
   return audioContext;
 }
@@ -20,53 +49,192 @@ export function getAudioContext(): AudioContext | null {
 }
 
 /**
- * Convert MIDI note number to frequency in Hz
+ * Choose the concert pitch and tuning system notes are played in
+ */
+export function setTuning(newTuning: Tuning): void {
+  tuning = newTuning;
+}
+
+/**
+ * Get the tuning notes are played in
+ */
+export function getActiveTuning(): Tuning {
+  return tuning;
+}
+
+/**
+ * Convert MIDI note number to frequency in Hz, in the chosen tuning
  */
 export function midiToFrequency(midiNote: number): number {
-  return 440 * Math.pow(2, (midiNote - 69) / 12);
+  return getTuningFrequency(midiNote, tuning);
+}
+
+/**
+ * Load the chosen sample pack, unless it is already loaded or loading
+ */
+function loadChosenSamplePack(context: AudioContext): void {
+  if (soundSource !== 'samples' || !chosenPackUrl || loadedPackUrl === chosenPackUrl) return;
+
+  const packUrl = chosenPackUrl;
+  loadedPackUrl = packUrl;
+  samplePack = null;
+  loadSamplePack(context, packUrl)
+    .then((pack) => {
+      if (loadedPackUrl === packUrl) samplePack = pack;
+    })
+    .catch((error) => {
+      if (loadedPackUrl === packUrl) loadedPackUrl = null;
+      console.warn('Failed to load sample pack, using the piano synth:', error);
+    });
+}
+
+/**
+ * Choose how notes sound
+ * The synth keeps playing until the sample pack has loaded, and if it fails to load
+ * @param source - Synthesized piano or sample pack
+ * @param packUrl - URL of an .sfz or .json sample pack, or '' for none
+ */
+export function setSoundSource(source: SoundSource, packUrl: string): void {
+  soundSource = source;
+  chosenPackUrl = packUrl;
+  // Before the first user interaction the pack loads once the audio context exists
+  if (audioContext) loadChosenSamplePack(audioContext);
+}
+
+/**
+ * Get the node every note plays into: a compressor that keeps chords from clipping
+ */
+function getOutput(context: AudioContext): AudioNode {
+  if (!output) {
+    output = context.createDynamicsCompressor();
+    output.threshold.setValueAtTime(-12, context.currentTime);
+    output.ratio.setValueAtTime(4, context.currentTime);
+    output.connect(context.destination);
+  }
+  return output;
+}
+
+/**
+ * Start a note on the chosen MIDI output, or with the chosen sound
+ * @param midiNote - MIDI note number (21-108)
+ * @param when - Audio clock time the note starts
+ * @param duration - Seconds before the damper falls
+ * @param velocity - Key velocity (1-127); a MIDI output uses its own unless given
+ * @param outputVelocity - Whether a MIDI output plays at this velocity too
+ * @returns A function that silences the note
+ */
+function startNote(
+  midiNote: number,
+  when: number,
+  duration: number,
+  velocity: number,
+  outputVelocity: boolean
+): () => void {
+  const context = initAudio();
+  const delay = Math.max(0, when - context.currentTime);
+  const endOutputNote = sendNote(midiNote, duration, delay, outputVelocity ? velocity : undefined);
+  if (endOutputNote) return endOutputNote;
+
+  // A MIDI output plays in its own tuning; only the built-in sounds follow this one
+  const frequency = midiToFrequency(midiNote);
+  const voice =
+    (soundSource === 'samples' &&
+      samplePack &&
+      startSampleVoice(
+        context,
+        getOutput(context),
+        samplePack,
+        midiNote,
+        frequency,
+        velocity,
+        when
+      )) ||
+    startPianoVoice(context, getOutput(context), midiNote, frequency, velocity, when);
+  voice.release(when + duration);
+  return () => voice.release(context.currentTime);
+}
+
+/**
+ * Convert a volume (0.0 to 1.0) to a key velocity
+ */
+function volumeToVelocity(volume: number): number {
+  return Math.max(1, Math.min(127, Math.round((volume / MAX_VOLUME) * 127)));
 }
 
 /**
  * Play a note with the given MIDI number
+ * It goes to the chosen MIDI output when there is one, and plays the chosen sound otherwise
  * @param midiNote - MIDI note number (21-108)
- * @param duration - Duration in seconds (default: 1.0)
- * @param volume - Volume (0.0 to 1.0, default: 0.3)
+ * @param duration - Duration in seconds before the damper falls (default: 1.0)
+ * @param volume - Volume (0.0 to 1.0, default: 0.3); louder notes are also brighter
  */
 export function playNote(
   midiNote: number,
   duration: number = 1.0,
   volume: number = 0.3
 ): void {
+  startNote(midiNote, initAudio().currentTime, duration, volumeToVelocity(volume), false);
+}
+
+/**
+ * Play notes one after another on the audio clock
+ * Notes with zero beats sound together with the next note, as a chord
+ * @param notes - Notes in order, each with its own length and velocity
+ * @param tempoBpm - Beats per minute
+ * @returns A handle that stops the notes, including any still sounding
+ */
+export function scheduleSequence(notes: SequenceNote[], tempoBpm: number): PlaybackHandle {
   const context = initAudio();
-  
-  const frequency = midiToFrequency(midiNote);
-  const now = context.currentTime;
+  const secondsPerBeat = 60 / tempoBpm;
+
+  // Leave time to schedule the first note, so it is not late
+  const startAt = context.currentTime + 0.05;
+  const noteTimes: number[] = [];
+  let totalBeats = 0;
+  notes.forEach((note) => {
+    noteTimes.push(startAt + totalBeats * secondsPerBeat);
+    totalBeats += note.beats;
+  });
+  const noteSeconds = notes.map(
+    (note) => (note.durationBeats ?? note.beats * 0.9) * secondsPerBeat
+  );
 
-  // Create oscillator for the main tone
-  const oscillator = context.createOscillator();
-  oscillator.type = 'sine'; // Piano-like sound
-  oscillator.frequency.setValueAtTime(frequency, now);
+  const handle = scheduleAhead(
+    context,
+    (index) => noteTimes[index] ?? null,
+    (index, when) =>
+      startNote(
+        notes[index].midi,
+        when,
+        noteSeconds[index],
+        notes[index].velocity ?? DEFAULT_VELOCITY,
+        notes[index].velocity !== undefined
+      )
+  );
 
-  // Create gain node for volume control and envelope
-  const gainNode = context.createGain();
-  gainNode.gain.setValueAtTime(0, now);
-  
-  // ADSR envelope for more natural piano sound
-  // Attack
-  gainNode.gain.linearRampToValueAtTime(volume, now + 0.01);
-  // Decay
-  gainNode.gain.exponentialRampToValueAtTime(volume * 0.7, now + 0.1);
-  // Sustain (no change, held at decay level)
-  // Release
-  gainNode.gain.exponentialRampToValueAtTime(0.001, now + duration);
+  // Remember the sequence until it ends, so stopPlayback can reach it
+  const endAt = Math.max(startAt, ...noteTimes.map((time, index) => time + noteSeconds[index]));
+  const forget = setTimeout(
+    () => activePlayback.delete(tracked),
+    (endAt - context.currentTime) * 1000 + 100
+  );
+  const tracked: PlaybackHandle = {
+    cancel: () => {
+      clearTimeout(forget);
+      activePlayback.delete(tracked);
+      handle.cancel();
+    },
+  };
+  activePlayback.add(tracked);
 
-  // Connect nodes
-  oscillator.connect(gainNode);
-  gainNode.connect(context.destination);
+  return tracked;
+}
 
-  // Start and stop
-  oscillator.start(now);
-  oscillator.stop(now + duration);
+/**
+ * Stop every sequence that is playing, e.g. when the game is paused or quit
+ */
+export function stopPlayback(): void {
+  activePlayback.forEach((playback) => playback.cancel());
 }
 
 /**
@@ -79,12 +247,51 @@ export function playSequence(
   midiNotes: number[],
   delayBetweenNotes: number = 0.5,
   noteDuration: number = 0.8
-): void {
-  midiNotes.forEach((note, index) => {
-    setTimeout(() => {
-      playNote(note, noteDuration);
-    }, index * delayBetweenNotes * 1000);
-  });
+): PlaybackHandle {
+  return scheduleSequence(
+    midiNotes.map((midi) => ({ midi, beats: 1, durationBeats: noteDuration / delayBetweenNotes })),
+    60 / delayBetweenNotes
+  );
+}
+
+/**
+ * Play a phrase where every note has its own length
+ * @param midiNotes - Array of MIDI note numbers
+ * @param beats - Length of each note in beats (missing entries default to 1)
+ * @param secondsPerBeat - Length of one beat in seconds (default: 0.6)
+ */
+export function playPhrase(
+  midiNotes: number[],
+  beats: number[],
+  secondsPerBeat: number = 0.6
+): PlaybackHandle {
+  return scheduleSequence(
+    midiNotes.map((midi, index) => ({ midi, beats: beats[index] ?? 1 })),
+    60 / secondsPerBeat
+  );
+}
+
+/**
+ * Play two notes as an interval
+ * @param firstNote - MIDI note number of the first note
+ * @param secondNote - MIDI note number of the second note
+ * @param harmonic - Play both notes together instead of one after the other (default: false)
+ */
+export function playInterval(
+  firstNote: number,
+  secondNote: number,
+  harmonic: boolean = false
+): PlaybackHandle {
+  if (harmonic) {
+    return scheduleSequence(
+      [
+        { midi: firstNote, beats: 0, durationBeats: 1.2 },
+        { midi: secondNote, beats: 1.2, durationBeats: 1.2 },
+      ],
+      60
+    );
+  }
+  return playSequence([firstNote, secondNote], 0.7, 0.9);
 }
 
 /**
@@ -0,0 +1,13 @@
+// Save generated text, such as exported practice data, as a file on the player's computer
+
+/**
+ * Offer text for download under a file name
+ */
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,5 +1,7 @@
 // GitHub Gist API utilities for leaderboard storage
 
+import { GameMode } from '../game/types';
+
 export interface LeaderboardEntry {
   playerName: string;
   score: number;
@@ -73,8 +75,10 @@ export async function submitScore(entry: LeaderboardEntry): Promise<boolean> {
     const updatedLeaderboard = [...currentLeaderboard, entry];
 
     // Separate by mode
-    const readingScores = updatedLeaderboard.filter(e => e.mode === 'reading');
-    const hearingScores = updatedLeaderboard.filter(e => e.mode === 'hearing');
+    const scoresByMode = new Map<string, LeaderboardEntry[]>();
+    for (const e of updatedLeaderboard) {
+      scoresByMode.set(e.mode, [...(scoresByMode.get(e.mode) ?? []), e]);
+    }
 
     // Sort each mode by score (descending), then by avg response time (ascending - faster is better)
     const sortScores = (scores: LeaderboardEntry[]) => {
@@ -84,18 +88,17 @@ export async function submitScore(entry: LeaderboardEntry): Promise<boolean> {
       });
     };
 
-    sortScores(readingScores);
-    sortScores(hearingScores);
-
     // Keep top 10 for each mode
-    const top10Reading = readingScores.slice(0, 10);
-    const top10Hearing = hearingScores.slice(0, 10);
+    const top10ByMode = new Map<string, LeaderboardEntry[]>();
+    for (const [mode, scores] of scoresByMode) {
+      top10ByMode.set(mode, sortScores(scores).slice(0, 10));
+    }
 
-    // Combine both top 10 lists
-    const combinedTop10 = [...top10Reading, ...top10Hearing];
+    // Combine all top 10 lists
+    const combinedTop10 = [...top10ByMode.values()].flat();
 
     // Check if the new entry made it to top 10 for its mode
-    const relevantTop10 = entry.mode === 'reading' ? top10Reading : top10Hearing;
+    const relevantTop10 = top10ByMode.get(entry.mode) ?? [];
     const madeTopTen = relevantTop10.some(
       (e) => e.playerName === entry.playerName && 
              e.date === entry.date &&
@@ -136,7 +139,7 @@ export async function submitScore(entry: LeaderboardEntry): Promise<boolean> {
 /**
  * Check if a score would make it to the top 10 for a specific mode
  */
-export async function wouldMakeTopTen(score: number, mode: 'reading' | 'hearing' = 'reading'): Promise<boolean> {
+export async function wouldMakeTopTen(score: number, mode: GameMode = 'reading'): Promise<boolean> {
   try {
     const leaderboard = await fetchLeaderboard();
     
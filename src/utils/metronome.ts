@@ -0,0 +1,63 @@
+// Metronome clicks scheduled ahead of time on the AudioContext clock
+
+import { initAudio } from './audio';
+import { scheduleAhead } from './scheduler';
+import { getCurrentTime } from './time';
+
+/**
+ * Start clicking on every beat of a pulse
+ * @param tempoBpm - Beats per minute
+ * @param beatZeroAt - A getCurrentTime() timestamp that falls on a downbeat
+ * @param beatsPerBar - Beats between accented clicks (default: 4)
+ * @returns A function that stops the metronome
+ */
+export function startMetronome(
+  tempoBpm: number,
+  beatZeroAt: number,
+  beatsPerBar: number = 4
+): () => void {
+  const context = initAudio();
+  const beatMs = 60000 / tempoBpm;
+
+  // Read both clocks once: re-reading them for every click would add the audio clock's
+  // coarse steps to each click as jitter
+  const now = getCurrentTime();
+  const beatZeroAudioTime = context.currentTime + (beatZeroAt - now) / 1000;
+
+  // First beat that has not sounded yet (negative during a count-in)
+  const firstBeat = Math.ceil((now - beatZeroAt) / beatMs);
+
+  const playback = scheduleAhead(
+    context,
+    (beatIndex) => beatZeroAudioTime + (beatIndex * beatMs) / 1000,
+    (beatIndex, when) => {
+      const isDownbeat = ((beatIndex % beatsPerBar) + beatsPerBar) % beatsPerBar === 0;
+      scheduleClick(context, when, isDownbeat);
+    },
+    firstBeat
+  );
+
+  return playback.cancel;
+}
+
+/**
+ * Schedule a single short click
+ * @param context - Audio context to play on
+ * @param when - Audio clock time in seconds
+ * @param accent - Higher, louder click for the first beat of a bar
+ */
+function scheduleClick(context: AudioContext, when: number, accent: boolean): void {
+  const oscillator = context.createOscillator();
+  oscillator.type = 'square';
+  oscillator.frequency.setValueAtTime(accent ? 1500 : 1000, when);
+
+  const gainNode = context.createGain();
+  gainNode.gain.setValueAtTime(accent ? 0.25 : 0.15, when);
+  gainNode.gain.exponentialRampToValueAtTime(0.001, when + 0.05);
+
+  oscillator.connect(gainNode);
+  gainNode.connect(context.destination);
+
+  oscillator.start(when);
+  oscillator.stop(when + 0.05);
+}
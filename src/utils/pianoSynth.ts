@@ -0,0 +1,98 @@
+// Additive piano synthesis: stretched partials, velocity brightness, pitch-dependent decay
+
+import { Voice, createVoice } from './voice';
+
+// Upper limit on partials per note, and the highest frequency worth synthesizing
+const MAX_PARTIALS = 16;
+const MAX_PARTIAL_HZ = 12000;
+
+/**
+ * Get the inharmonicity coefficient of a string
+ * Short, stiff treble strings stretch their overtones more than long bass strings
+ * @param midiNote - MIDI note number
+ */
+export function getInharmonicity(midiNote: number): number {
+  return 0.00004 * Math.pow(2, (midiNote - 21) / 18);
+}
+
+/**
+ * Get the frequency of the nth partial (n = 1 is the fundamental)
+ * @param fundamental - Frequency of the fundamental in Hz
+ * @param n - Partial number
+ * @param inharmonicity - Inharmonicity coefficient of the string
+ */
+export function getPartialFrequency(fundamental: number, n: number, inharmonicity: number): number {
+  return n * fundamental * Math.sqrt(1 + inharmonicity * n * n);
+}
+
+/**
+ * Get how long a note rings before fading by 60dB: bass notes sustain, treble notes die fast
+ * @param midiNote - MIDI note number
+ */
+export function getDecaySeconds(midiNote: number): number {
+  return Math.max(0.6, 12 * Math.pow(2, -(midiNote - 21) / 20));
+}
+
+/**
+ * Start a synthesized piano note
+ * @param context - Audio context to play on
+ * @param destination - Node to play into
+ * @param midiNote - MIDI note number (21-108), which sets the string's stiffness and decay
+ * @param fundamental - Frequency of the note in Hz, in the chosen tuning
+ * @param velocity - Key velocity (1-127): louder and brighter when higher
+ * @param when - Audio clock time the hammer hits the string
+ * @returns The voice, to release with the damper
+ */
+export function startPianoVoice(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  midiNote: number,
+  fundamental: number,
+  velocity: number,
+  when: number
+): Voice {
+  const strength = Math.min(127, Math.max(1, velocity)) / 127;
+  const inharmonicity = getInharmonicity(midiNote);
+  const decaySeconds = getDecaySeconds(midiNote);
+
+  // Harder strikes excite more of the upper partials
+  const rolloff = 2.2 - 1.2 * strength;
+
+  // The damper and the overall loudness act on every partial together
+  const voiceGain = context.createGain();
+  voiceGain.gain.setValueAtTime(0.6 * strength * strength + 0.02, when);
+  voiceGain.connect(destination);
+
+  // Upper partials start quieter and die away sooner
+  const partials: { frequency: number; peak: number; decay: number }[] = [];
+  for (let n = 1; n <= MAX_PARTIALS; n++) {
+    const frequency = getPartialFrequency(fundamental, n, inharmonicity);
+    if (frequency > MAX_PARTIAL_HZ) break;
+    partials.push({
+      frequency,
+      peak: 1 / Math.pow(n, rolloff),
+      decay: decaySeconds / (1 + 0.4 * (n - 1)),
+    });
+  }
+
+  // Brightness should not change the loudness
+  const totalPeak = partials.reduce((total, partial) => total + partial.peak, 0);
+
+  const oscillators = partials.map(({ frequency, peak, decay }) => {
+    const oscillator = context.createOscillator();
+    oscillator.type = 'sine';
+    oscillator.frequency.setValueAtTime(frequency, when);
+
+    const partialGain = context.createGain();
+    partialGain.gain.setValueAtTime(0, when);
+    partialGain.gain.linearRampToValueAtTime(peak / totalPeak, when + 0.004);
+    partialGain.gain.setTargetAtTime(0, when + 0.004, decay / 6.9);
+
+    oscillator.connect(partialGain);
+    partialGain.connect(voiceGain);
+    oscillator.start(when);
+    return oscillator;
+  });
+
+  return createVoice(voiceGain.gain, oscillators, when);
+}
@@ -0,0 +1,227 @@
+// Sample pack loading: SFZ or JSON maps of WAV files, such as ones added under public/
+
+import { pitchToMidi } from '../game/mapping';
+import { Voice, createVoice } from './voice';
+
+export interface SampleRegion {
+  file: string; // URL of the WAV file
+  keyCenter: number; // MIDI note the sample was recorded at
+  loKey: number;
+  hiKey: number;
+  loVel: number;
+  hiVel: number;
+}
+
+export interface SamplePack {
+  regions: SampleRegion[];
+  buffers: Map<string, AudioBuffer>; // decoded audio by file URL
+}
+
+/**
+ * Read a key opcode, which SFZ allows as a MIDI number or a note name like c#4
+ */
+function parseSfzKey(value: string): number {
+  if (/^-?\d+$/.test(value)) return parseInt(value);
+  return pitchToMidi(value.charAt(0).toUpperCase() + value.slice(1));
+}
+
+/**
+ * Resolve a sample path against the URL of the pack that names it
+ */
+function resolveSampleUrl(file: string, baseUrl: string): string {
+  if (/^(\/|[a-z]+:)/i.test(file)) return file;
+  return baseUrl + file.replace(/\\/g, '/');
+}
+
+/**
+ * Build a region from its opcodes, or null when it has no sample
+ */
+function toRegion(opcodes: Record<string, string>, baseUrl: string): SampleRegion | null {
+  if (!opcodes.sample) return null;
+
+  const key = opcodes.key !== undefined ? parseSfzKey(opcodes.key) : undefined;
+  const loKey = opcodes.lokey !== undefined ? parseSfzKey(opcodes.lokey) : (key ?? 0);
+  const hiKey = opcodes.hikey !== undefined ? parseSfzKey(opcodes.hikey) : (key ?? 127);
+  const keyCenter =
+    opcodes.pitch_keycenter !== undefined
+      ? parseSfzKey(opcodes.pitch_keycenter)
+      : (key ?? Math.round((loKey + hiKey) / 2));
+
+  return {
+    file: resolveSampleUrl((opcodes.default_path ?? '') + opcodes.sample, baseUrl),
+    keyCenter,
+    loKey,
+    hiKey,
+    loVel: opcodes.lovel !== undefined ? parseInt(opcodes.lovel) : 1,
+    hiVel: opcodes.hivel !== undefined ? parseInt(opcodes.hivel) : 127,
+  };
+}
+
+/**
+ * Parse the regions of an SFZ file
+ * Supports <control> default_path, <global>/<group> opcodes inherited by their
+ * regions, and the sample, key, lokey, hikey, pitch_keycenter, lovel and hivel opcodes
+ * @param text - Contents of the SFZ file
+ * @param baseUrl - URL of the folder the SFZ file is in, ending with a slash
+ */
+export function parseSfz(text: string, baseUrl: string): SampleRegion[] {
+  const regions: SampleRegion[] = [];
+  let control: Record<string, string> = {};
+  let global: Record<string, string> = {};
+  let group: Record<string, string> = {};
+  let current: Record<string, string> | null = null;
+  let header = '';
+
+  const closeHeader = () => {
+    if (header === 'region' && current) {
+      const region = toRegion({ ...control, ...global, ...group, ...current }, baseUrl);
+      if (region) regions.push(region);
+    } else if (header === 'control' && current) {
+      control = current;
+    } else if (header === 'global' && current) {
+      global = current;
+    } else if (header === 'group' && current) {
+      group = current;
+    }
+    current = null;
+  };
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.replace(/\/\/.*$/, '');
+    // Headers and opcodes can share a line; sample paths can contain spaces
+    const tokens = line.match(/<\w+>|\w+=.*?(?=\s+\w+=|\s*<|\s*$)/g) ?? [];
+    tokens.forEach((token) => {
+      if (token.startsWith('<')) {
+        closeHeader();
+        header = token.slice(1, -1);
+        current = {};
+        if (header === 'group') group = {};
+        return;
+      }
+      if (!current) return;
+      const separator = token.indexOf('=');
+      current[token.slice(0, separator)] = token.slice(separator + 1).trim();
+    });
+  });
+  closeHeader();
+
+  return regions;
+}
+
+/**
+ * Parse a JSON sample pack: an object mapping notes (MIDI numbers or names like "C4")
+ * to WAV files. Each sample covers the keys closest to it
+ * @param mapping - Parsed JSON of the pack
+ * @param baseUrl - URL of the folder the JSON file is in, ending with a slash
+ */
+export function parseSamplePackJson(mapping: unknown, baseUrl: string): SampleRegion[] {
+  if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) {
+    throw new Error('Sample pack must map notes to WAV files');
+  }
+
+  const samples = Object.entries(mapping)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    .map(([note, file]) => ({ keyCenter: parseSfzKey(note), file }))
+    .sort((a, b) => a.keyCenter - b.keyCenter);
+
+  return samples.map(({ keyCenter, file }, index) => {
+    const previous = samples[index - 1];
+    const next = samples[index + 1];
+    return {
+      file: resolveSampleUrl(file, baseUrl),
+      keyCenter,
+      loKey: previous ? Math.floor((previous.keyCenter + keyCenter) / 2) + 1 : 0,
+      hiKey: next ? Math.floor((keyCenter + next.keyCenter) / 2) : 127,
+      loVel: 1,
+      hiVel: 127,
+    };
+  });
+}
+
+/**
+ * Fetch and decode a sample pack
+ * @param context - Audio context to decode the samples for
+ * @param url - URL of an .sfz or .json file under public/
+ */
+export async function loadSamplePack(context: BaseAudioContext, url: string): Promise<SamplePack> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load sample pack: ${url}`);
+
+  const baseUrl = url.slice(0, url.lastIndexOf('/') + 1);
+  const regions = url.toLowerCase().endsWith('.sfz')
+    ? parseSfz(await response.text(), baseUrl)
+    : parseSamplePackJson(await response.json(), baseUrl);
+  if (regions.length === 0) throw new Error(`Sample pack has no samples: ${url}`);
+
+  const files = [...new Set(regions.map((region) => region.file))];
+  const decoded = await Promise.all(
+    files.map(async (file) => {
+      const sample = await fetch(file);
+      if (!sample.ok) throw new Error(`Could not load sample: ${file}`);
+      return [file, await context.decodeAudioData(await sample.arrayBuffer())] as const;
+    })
+  );
+
+  return { regions, buffers: new Map(decoded) };
+}
+
+/**
+ * Find the region that plays a note, preferring an exact key and velocity match
+ */
+export function findSampleRegion(
+  regions: SampleRegion[],
+  midiNote: number,
+  velocity: number
+): SampleRegion | null {
+  const byKey = regions.filter((region) => midiNote >= region.loKey && midiNote <= region.hiKey);
+  const candidates = byKey.length > 0 ? byKey : regions;
+  if (candidates.length === 0) return null;
+
+  return (
+    candidates.find((region) => velocity >= region.loVel && velocity <= region.hiVel) ??
+    candidates.reduce((best, region) =>
+      Math.abs(region.keyCenter - midiNote) < Math.abs(best.keyCenter - midiNote) ? region : best
+    )
+  );
+}
+
+/**
+ * Start a sampled note, repitched from the nearest recording
+ * @param context - Audio context to play on
+ * @param destination - Node to play into
+ * @param pack - Loaded sample pack
+ * @param midiNote - MIDI note number (21-108)
+ * @param frequency - Frequency of the note in Hz, in the chosen tuning
+ * @param velocity - Key velocity (1-127)
+ * @param when - Audio clock time the note starts
+ * @returns The voice, or null when the pack has no sample for the note
+ */
+export function startSampleVoice(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  pack: SamplePack,
+  midiNote: number,
+  frequency: number,
+  velocity: number,
+  when: number
+): Voice | null {
+  const region = findSampleRegion(pack.regions, midiNote, velocity);
+  const buffer = region && pack.buffers.get(region.file);
+  if (!region || !buffer) return null;
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  // Samples are taken to be recorded in equal temperament at A440
+  const recordedFrequency = 440 * Math.pow(2, (region.keyCenter - 69) / 12);
+  source.playbackRate.setValueAtTime(frequency / recordedFrequency, when);
+
+  const strength = Math.min(127, Math.max(1, velocity)) / 127;
+  const voiceGain = context.createGain();
+  voiceGain.gain.setValueAtTime(strength * strength, when);
+
+  source.connect(voiceGain);
+  voiceGain.connect(destination);
+  source.start(when);
+
+  return createVoice(voiceGain.gain, [source], when);
+}
@@ -0,0 +1,60 @@
+// Look-ahead scheduling: events are handed to the AudioContext clock shortly before they are due
+
+// How far ahead events are handed to the audio clock, and how often we check
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+const TIMER_INTERVAL_MS = 25;
+
+export interface PlaybackHandle {
+  cancel: () => void; // stop, silencing events already handed to the audio clock
+}
+
+/**
+ * Run events on the audio clock, scheduling each one just before it is due
+ * A timer alone drifts and jitters under load; the audio clock does not
+ * @param context - Audio context whose clock the events run on
+ * @param getEventTime - Audio clock time of the nth event, or null after the last one
+ * @param playEvent - Schedule the nth event at an audio clock time; returns a function
+ *   that silences it, if it can be silenced
+ * @param firstIndex - Index of the first event to play (default: 0)
+ * @returns A handle that cancels the events
+ */
+export function scheduleAhead(
+  context: BaseAudioContext,
+  getEventTime: (index: number) => number | null,
+  playEvent: (index: number, when: number) => (() => void) | void,
+  firstIndex: number = 0
+): PlaybackHandle {
+  const silencers: (() => void)[] = [];
+  let index = firstIndex;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const scheduleEvents = () => {
+    for (;;) {
+      const when = getEventTime(index);
+      if (when === null) {
+        stopTimer();
+        return;
+      }
+      if (when >= context.currentTime + SCHEDULE_AHEAD_SECONDS) return;
+
+      const silence = playEvent(index, Math.max(when, context.currentTime));
+      if (silence) silencers.push(silence);
+      index++;
+    }
+  };
+
+  const stopTimer = () => {
+    if (timer !== null) clearInterval(timer);
+    timer = null;
+  };
+
+  timer = setInterval(scheduleEvents, TIMER_INTERVAL_MS);
+  scheduleEvents();
+
+  return {
+    cancel: () => {
+      stopTimer();
+      silencers.splice(0).forEach((silence) => silence());
+    },
+  };
+}
@@ -1,9 +1,44 @@
-// LocalStorage helpers for persisting settings and high score
+// Versioned store of validated records: kept in IndexedDB and read into memory by initStorage,
+// so loads are synchronous and saves reach the store in the background
 
 import { GameSettings, DEFAULT_SETTINGS } from '../game/types';
+import { LatencyCalibration } from '../game/latency';
+import { EMPTY_SKILL_MODEL, SkillModel } from '../game/adaptive';
+import { FlashcardDeck } from '../game/flashcards';
+import { SessionRecord } from '../game/history';
+import type { MIDIDeviceChoice, MIDIOutputChoice } from '../midi/midi';
+import type { KeyboardInputSettings } from '../midi/keyboard';
+import type { MicrophoneInputSettings } from '../midi/microphone';
+import {
+  StorageAdapter,
+  createIndexedDBAdapter,
+  createLocalStorageAdapter,
+  createMemoryAdapter,
+} from './storageAdapters';
+import {
+  validateFlashcards,
+  validateHighScore,
+  validateKeyboardInput,
+  validateLatencyCalibrations,
+  validateMicrophoneInput,
+  validateMIDIDeviceChoices,
+  validateMIDIOutputChoice,
+  validateSessionHistory,
+  validateSettings,
+  validateSkillModel,
+} from './validation';
 
-const SETTINGS_KEY = 'pnt_settings_v1';
-const HIGH_SCORE_KEY = 'pnt_highscore_v1';
+const SETTINGS_KEY = 'settings';
+const HIGH_SCORE_KEY = 'highScore';
+const MIDI_DEVICES_KEY = 'midiDevices';
+const MIDI_OUTPUT_KEY = 'midiOutput';
+const KEYBOARD_INPUT_KEY = 'keyboardInput';
+const LATENCY_KEY = 'latency';
+const MICROPHONE_INPUT_KEY = 'microphoneInput';
+const SKILL_MODEL_KEY = 'skillModel';
+const FLASHCARDS_KEY = 'flashcards';
+const HISTORY_KEY = 'history';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
 
 export interface HighScoreEntry {
   score: number;
@@ -13,76 +48,293 @@ export interface HighScoreEntry {
   difficulty: string;
 }
 
+// The records the app kept in localStorage before the versioned store
+const LEGACY_KEYS: Record<string, string> = {
+  pnt_settings_v1: SETTINGS_KEY,
+  pnt_highscore_v1: HIGH_SCORE_KEY,
+};
+
+// Check of each record; null rejects the record
+const VALIDATORS: Record<string, (value: unknown) => unknown> = {
+  [SETTINGS_KEY]: validateSettings,
+  [HIGH_SCORE_KEY]: validateHighScore,
+  [MIDI_DEVICES_KEY]: validateMIDIDeviceChoices,
+  [MIDI_OUTPUT_KEY]: validateMIDIOutputChoice,
+  [KEYBOARD_INPUT_KEY]: validateKeyboardInput,
+  [LATENCY_KEY]: validateLatencyCalibrations,
+  [MICROPHONE_INPUT_KEY]: validateMicrophoneInput,
+  [SKILL_MODEL_KEY]: validateSkillModel,
+  [FLASHCARDS_KEY]: validateFlashcards,
+  [HISTORY_KEY]: validateSessionHistory,
+};
+
+// Where legacy records are read from (localStorage in the browser)
+export type LegacyStorage = Pick<Storage, 'getItem' | 'removeItem'>;
+
+interface Migration {
+  version: number; // schema version the store has once the migration has run
+  description: string;
+  migrate: (store: StorageAdapter, legacy: LegacyStorage | null) => Promise<void>;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Move the localStorage records into the store',
+    migrate: async (target, legacy) => {
+      if (!legacy) return;
+
+      for (const [legacyKey, key] of Object.entries(LEGACY_KEYS)) {
+        const stored = legacy.getItem(legacyKey);
+        if (stored === null) continue;
+
+        let parsed: unknown = null;
+        try {
+          parsed = JSON.parse(stored);
+        } catch {
+          console.warn(`Dropped corrupt ${legacyKey} while migrating`);
+        }
+
+        const record = VALIDATORS[key](parsed);
+        if (record === null) {
+          console.warn(`Dropped invalid ${legacyKey} while migrating`);
+        } else {
+          // A record that cannot be written stays in localStorage for the next try
+          await target.set(key, record);
+        }
+        legacy.removeItem(legacyKey);
+      }
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+let store: StorageAdapter = createMemoryAdapter();
+const records = new Map<string, unknown>();
+
 /**
- * Save game settings to localStorage
+ * Pick the best store the browser offers: IndexedDB, then localStorage, then memory
  */
-export function saveSettings(settings: GameSettings): void {
+async function openStore(): Promise<StorageAdapter> {
   try {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    if (typeof indexedDB !== 'undefined') return await createIndexedDBAdapter();
   } catch (error) {
-    console.warn('Failed to save settings:', error);
+    console.warn('IndexedDB is unavailable:', error);
   }
+  return isStorageAvailable() ? createLocalStorageAdapter() : createMemoryAdapter();
 }
 
 /**
- * Load game settings from localStorage
+ * Open the store, run pending migrations and read the validated records into memory
+ * Call once before the first load; it never rejects, falling back to defaults instead
  */
-export function loadSettings(): GameSettings {
+export async function initStorage(
+  adapter?: StorageAdapter,
+  legacy: LegacyStorage | null = isStorageAvailable() ? localStorage : null
+): Promise<void> {
+  records.clear();
   try {
-    const stored = localStorage.getItem(SETTINGS_KEY);
-    if (!stored) return DEFAULT_SETTINGS;
-
-    const parsed = JSON.parse(stored);
-    // Validate and merge with defaults to handle schema changes
-    return {
-      ...DEFAULT_SETTINGS,
-      ...parsed,
-    };
+    store = adapter ?? (await openStore());
+
+    const stored = await store.getAll();
+    let version = Number(stored[SCHEMA_VERSION_KEY] ?? 0);
+    for (const migration of MIGRATIONS.filter((pending) => pending.version > version)) {
+      await migration.migrate(store, legacy);
+      version = migration.version;
+      await store.set(SCHEMA_VERSION_KEY, version);
+    }
+
+    const migrated = await store.getAll();
+    for (const [key, validate] of Object.entries(VALIDATORS)) {
+      if (!(key in migrated)) continue;
+
+      const record = validate(migrated[key]);
+      if (record === null) {
+        console.warn(`Dropped invalid ${key} record`);
+      } else {
+        records.set(key, record);
+      }
+    }
   } catch (error) {
-    console.warn('Failed to load settings:', error);
-    return DEFAULT_SETTINGS;
+    console.warn('Failed to load stored data:', error);
   }
 }
 
 /**
- * Save high score to localStorage
+ * Read a record, or its fallback when there is none
+ */
+function readRecord<T>(key: string, fallback: T): T {
+  return records.has(key) ? (records.get(key) as T) : fallback;
+}
+
+/**
+ * Keep a record in memory and write it to the store in the background
+ */
+function writeRecord(key: string, value: unknown, label: string): void {
+  records.set(key, value);
+  store.set(key, value).catch((error) => console.warn(`Failed to save ${label}:`, error));
+}
+
+/**
+ * Save game settings
+ */
+export function saveSettings(settings: GameSettings): void {
+  writeRecord(SETTINGS_KEY, settings, 'settings');
+}
+
+/**
+ * Load game settings
+ */
+export function loadSettings(): GameSettings {
+  return readRecord(SETTINGS_KEY, DEFAULT_SETTINGS);
+}
+
+/**
+ * Save the high score, if it beats the current one
  */
 export function saveHighScore(entry: HighScoreEntry): void {
-  try {
-    const current = getHighScore();
-    if (!current || entry.score > current.score) {
-      localStorage.setItem(HIGH_SCORE_KEY, JSON.stringify(entry));
-    }
-  } catch (error) {
-    console.warn('Failed to save high score:', error);
+  const current = getHighScore();
+  if (!current || entry.score > current.score) {
+    writeRecord(HIGH_SCORE_KEY, entry, 'high score');
   }
 }
 
 /**
- * Get high score from localStorage
+ * Get the high score
  */
 export function getHighScore(): HighScoreEntry | null {
-  try {
-    const stored = localStorage.getItem(HIGH_SCORE_KEY);
-    if (!stored) return null;
+  return readRecord<HighScoreEntry | null>(HIGH_SCORE_KEY, null);
+}
 
-    return JSON.parse(stored);
-  } catch (error) {
-    console.warn('Failed to load high score:', error);
-    return null;
+/**
+ * Save the MIDI device choices
+ */
+export function saveMIDIDeviceChoices(choices: Record<string, MIDIDeviceChoice>): void {
+  writeRecord(MIDI_DEVICES_KEY, choices, 'MIDI devices');
+}
+
+/**
+ * Load the MIDI device choices
+ */
+export function loadMIDIDeviceChoices(): Record<string, MIDIDeviceChoice> {
+  return readRecord(MIDI_DEVICES_KEY, {});
+}
+
+/**
+ * Save the MIDI output choice (null to play through the speakers)
+ */
+export function saveMIDIOutputChoice(choice: MIDIOutputChoice | null): void {
+  if (choice) {
+    writeRecord(MIDI_OUTPUT_KEY, choice, 'MIDI output');
+  } else {
+    records.delete(MIDI_OUTPUT_KEY);
+    store
+      .remove(MIDI_OUTPUT_KEY)
+      .catch((error) => console.warn('Failed to save MIDI output:', error));
   }
 }
 
 /**
- * Clear all stored data
+ * Load the MIDI output choice
+ */
+export function loadMIDIOutputChoice(): MIDIOutputChoice | null {
+  return readRecord<MIDIOutputChoice | null>(MIDI_OUTPUT_KEY, null);
+}
+
+/**
+ * Save the computer keyboard settings
+ */
+export function saveKeyboardInput(settings: KeyboardInputSettings): void {
+  writeRecord(KEYBOARD_INPUT_KEY, settings, 'keyboard input');
+}
+
+/**
+ * Load the computer keyboard settings
+ */
+export function loadKeyboardInput(): KeyboardInputSettings | null {
+  return readRecord<KeyboardInputSettings | null>(KEYBOARD_INPUT_KEY, null);
+}
+
+/**
+ * Save the microphone input settings
+ */
+export function saveMicrophoneInput(settings: MicrophoneInputSettings): void {
+  writeRecord(MICROPHONE_INPUT_KEY, settings, 'microphone input');
+}
+
+/**
+ * Load the microphone input settings
+ */
+export function loadMicrophoneInput(): MicrophoneInputSettings | null {
+  return readRecord<MicrophoneInputSettings | null>(MICROPHONE_INPUT_KEY, null);
+}
+
+/**
+ * Save the latency calibration of every input device, by device key
+ */
+export function saveLatencyCalibrations(calibrations: Record<string, LatencyCalibration>): void {
+  writeRecord(LATENCY_KEY, calibrations, 'latency calibration');
+}
+
+/**
+ * Load the latency calibration of every input device, by device key
+ */
+export function loadLatencyCalibrations(): Record<string, LatencyCalibration> {
+  return readRecord(LATENCY_KEY, {});
+}
+
+/**
+ * Save the model of how well each note is read (adaptive practice)
+ */
+export function saveSkillModel(model: SkillModel): void {
+  writeRecord(SKILL_MODEL_KEY, model, 'skill model');
+}
+
+/**
+ * Load the model of how well each note is read (adaptive practice)
+ */
+export function loadSkillModel(): SkillModel {
+  return readRecord(SKILL_MODEL_KEY, EMPTY_SKILL_MODEL);
+}
+
+/**
+ * Save the flashcards and their review schedule
+ */
+export function saveFlashcards(deck: FlashcardDeck): void {
+  writeRecord(FLASHCARDS_KEY, deck, 'flashcards');
+}
+
+/**
+ * Load the flashcards and their review schedule
+ */
+export function loadFlashcards(): FlashcardDeck {
+  return readRecord(FLASHCARDS_KEY, {});
+}
+
+/**
+ * Save the history of finished sessions
+ */
+export function saveSessionHistory(history: SessionRecord[]): void {
+  writeRecord(HISTORY_KEY, history, 'session history');
+}
+
+/**
+ * Load the history of finished sessions, oldest first
+ */
+export function loadSessionHistory(): SessionRecord[] {
+  return readRecord(HISTORY_KEY, []);
+}
+
+/**
+ * Clear all stored data, keeping the schema version so migrations do not run again
  */
 export function clearAllData(): void {
-  try {
-    localStorage.removeItem(SETTINGS_KEY);
-    localStorage.removeItem(HIGH_SCORE_KEY);
-  } catch (error) {
-    console.warn('Failed to clear data:', error);
-  }
+  records.clear();
+  store
+    .clear()
+    .then(() => store.set(SCHEMA_VERSION_KEY, SCHEMA_VERSION))
+    .catch((error) => console.warn('Failed to clear data:', error));
 }
 
 /**
@@ -98,4 +350,3 @@ export function isStorageAvailable(): boolean {
     return false;
   }
 }
-
@@ -0,0 +1,124 @@
+// Where stored records live: IndexedDB in the browser, localStorage where IndexedDB is
+// unavailable, and memory in tests
+
+export interface StorageAdapter {
+  getAll(): Promise<Record<string, unknown>>;
+  set(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'solideya';
+const DB_VERSION = 1; // layout of the object stores; the records have their own schema version
+const STORE_NAME = 'records';
+
+const LOCAL_STORAGE_PREFIX = 'solideya:';
+
+/**
+ * Wait for an IndexedDB request
+ */
+function whenDone<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open the app's database, creating its object store on first use
+ * Rejects when another tab holds an older version open, instead of waiting for it to close
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME);
+    }
+  };
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      reject(new Error('The database is held open by another tab'));
+      // It opens once the other tab lets go, when another store is already in use
+      request.onsuccess = () => request.result.close();
+    };
+  });
+}
+
+/**
+ * Keep records in IndexedDB, one per key
+ */
+export async function createIndexedDBAdapter(): Promise<StorageAdapter> {
+  const db = await openDatabase();
+  const getStore = (mode: IDBTransactionMode) =>
+    db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    getAll: async () => {
+      // Both requests run in one transaction, so keys and values line up
+      const store = getStore('readonly');
+      const keys = store.getAllKeys();
+      const values = await whenDone(store.getAll());
+      return Object.fromEntries(keys.result.map((key, index) => [String(key), values[index]]));
+    },
+    set: async (key, value) => {
+      await whenDone(getStore('readwrite').put(value, key));
+    },
+    remove: async (key) => {
+      await whenDone(getStore('readwrite').delete(key));
+    },
+    clear: async () => {
+      await whenDone(getStore('readwrite').clear());
+    },
+  };
+}
+
+/**
+ * Keep records as JSON in localStorage, for browsers without IndexedDB
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+  const getKeys = () =>
+    Object.keys(localStorage).filter((key) => key.startsWith(LOCAL_STORAGE_PREFIX));
+
+  return {
+    getAll: async () =>
+      Object.fromEntries(
+        getKeys().map((key) => [
+          key.slice(LOCAL_STORAGE_PREFIX.length),
+          JSON.parse(localStorage.getItem(key)!),
+        ])
+      ),
+    set: async (key, value) => {
+      localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(value));
+    },
+    remove: async (key) => {
+      localStorage.removeItem(LOCAL_STORAGE_PREFIX + key);
+    },
+    clear: async () => {
+      getKeys().forEach((key) => localStorage.removeItem(key));
+    },
+  };
+}
+
+/**
+ * Keep records in memory only, for tests and as a last resort
+ * Values are copied in and out, as a real store would
+ */
+export function createMemoryAdapter(initial: Record<string, unknown> = {}): StorageAdapter {
+  const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+  const records = new Map(Object.entries(copy(initial)));
+
+  return {
+    getAll: async () => copy(Object.fromEntries(records)),
+    set: async (key, value) => {
+      records.set(key, copy(value));
+    },
+    remove: async (key) => {
+      records.delete(key);
+    },
+    clear: async () => {
+      records.clear();
+    },
+  };
+}
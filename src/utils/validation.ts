@@ -0,0 +1,290 @@
+// Runtime checks for stored records: anything read back may be corrupted, out of range
+// or written by another version of the app
+
+import {
+  DEFAULT_SETTINGS,
+  DIFFICULTY_CONFIGS,
+  GAME_MODE_INFO,
+  GameSettings,
+  StaffClef,
+} from '../game/types';
+import { KEY_NAMES } from '../game/keys';
+import { TIME_SIGNATURES } from '../game/rhythm';
+import { TUNING_SYSTEM_NAMES } from '../game/tuning';
+import { parsePitch } from '../game/mapping';
+import { LatencyCalibration } from '../game/latency';
+import { SkillModel } from '../game/adaptive';
+import { FlashcardDeck } from '../game/flashcards';
+import { SessionRecord } from '../game/history';
+import type { HighScoreEntry } from './storage';
+import type { MIDIDeviceChoice, MIDIOutputChoice } from '../midi/midi';
+import type { KeyboardInputSettings } from '../midi/keyboard';
+import type { MicrophoneInputSettings } from '../midi/microphone';
+
+type Check = (value: unknown) => boolean;
+
+const STAFF_CLEFS: StaffClef[] = ['treble', 'bass', 'alto', 'tenor'];
+const MAX = Number.MAX_SAFE_INTEGER;
+
+const isBoolean: Check = (value) => typeof value === 'boolean';
+const isString: Check = (value) => typeof value === 'string';
+const isNumberIn =
+  (min: number, max: number): Check =>
+  (value) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+const isIntegerIn =
+  (min: number, max: number): Check =>
+  (value) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+const isOneOf =
+  (options: readonly unknown[]): Check =>
+  (value) =>
+    options.includes(value);
+const isNullOr =
+  (check: Check): Check =>
+  (value) =>
+    value === null || check(value);
+const isListOf =
+  (check: Check, minLength: number, maxLength: number = MAX): Check =>
+  (value) =>
+    Array.isArray(value) &&
+    value.length >= minLength &&
+    value.length <= maxLength &&
+    value.every(check);
+
+const isCount = isIntegerIn(0, MAX);
+const isMs = isNumberIn(0, MAX);
+const isMidi = isIntegerIn(0, 127);
+const isChannel = isIntegerIn(0, 15);
+const isStaffClef = isOneOf(STAFF_CLEFS);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPitch(value: unknown): boolean {
+  try {
+    return typeof value === 'string' && parsePitch(value).letterIndex >= 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that an object has every field of a set of rules, each passing its check
+ */
+function matches(value: unknown, rules: Record<string, Check>): value is Record<string, unknown> {
+  return isRecord(value) && Object.entries(rules).every(([field, check]) => check(value[field]));
+}
+
+/**
+ * Keep the entries of a map that pass a check, dropping the others
+ */
+function keepValidEntries<T>(
+  value: unknown,
+  check: Check,
+  label: string
+): Record<string, T> | null {
+  if (!isRecord(value)) return null;
+
+  const entries = Object.entries(value);
+  const valid = entries.filter(([, entry]) => check(entry));
+  if (valid.length < entries.length) {
+    console.warn(`Dropped ${entries.length - valid.length} invalid ${label}`);
+  }
+  return Object.fromEntries(valid) as Record<string, T>;
+}
+
+// Allowed values of each setting; the ranges are those the controls offer
+const SETTINGS_RULES: Record<keyof GameSettings, Check> = {
+  mode: isOneOf(Object.keys(GAME_MODE_INFO)),
+  difficulty: isOneOf(Object.keys(DIFFICULTY_CONFIGS)),
+  clef: isOneOf([...STAFF_CLEFS, 'both', 'mixed']),
+  lives: isIntegerIn(1, 5),
+  sequenceLength: isIntegerIn(3, 20),
+  allowDoubleAccidentals: isBoolean,
+  enableFallbackPiano: isBoolean,
+  chordWindowMs: isNumberIn(50, 1000),
+  keySignature: isOneOf([...KEY_NAMES, 'random']),
+  mixedClefs: isListOf(isStaffClef, 1, STAFF_CLEFS.length),
+  intervalPlayback: isOneOf(['melodic', 'harmonic']),
+  transposedAnswer: isBoolean,
+  dictationReplays: isIntegerIn(0, 5),
+  dictationRhythm: isBoolean,
+  tempoBpm: isNumberIn(40, 180),
+  timingWindowMs: isNumberIn(30, 250),
+  metronome: isBoolean,
+  timeSignature: isOneOf(Object.keys(TIME_SIGNATURES)),
+  soundSource: isOneOf(['synth', 'samples']),
+  samplePackUrl: isString,
+  concertPitch: isNumberIn(380, 480),
+  tuningSystem: isOneOf(Object.keys(TUNING_SYSTEM_NAMES)),
+  tuningRoot: isIntegerIn(0, 11),
+  customCents: isListOf(isNumberIn(-50, 50), 12, 12),
+  adaptive: isBoolean,
+};
+
+const HIGH_SCORE_RULES: Record<keyof HighScoreEntry, Check> = {
+  score: isNumberIn(0, MAX),
+  accuracy: isNumberIn(0, 100),
+  streak: isCount,
+  date: isString,
+  difficulty: isOneOf(Object.keys(DIFFICULTY_CONFIGS)),
+};
+
+const MIDI_DEVICE_RULES: Record<keyof MIDIDeviceChoice, Check> = {
+  enabled: isBoolean,
+  channel: isNullOr(isChannel),
+};
+
+const MIDI_OUTPUT_RULES: Record<keyof MIDIOutputChoice, Check> = {
+  deviceKey: isString,
+  channel: isChannel,
+  velocity: isIntegerIn(1, 127),
+};
+
+const KEYBOARD_INPUT_RULES: Record<keyof KeyboardInputSettings, Check> = {
+  enabled: isBoolean,
+  baseMidi: isMidi,
+  keyMap: (value) =>
+    isRecord(value) && Object.values(value).every((semitones) => Number.isInteger(semitones)),
+};
+
+const MICROPHONE_INPUT_RULES: Record<keyof MicrophoneInputSettings, Check> = {
+  enabled: isBoolean,
+  minConfidence: isNumberIn(0, 1),
+};
+
+const LATENCY_RULES: Record<keyof LatencyCalibration, Check> = {
+  audioMs: isNumberIn(-MAX, MAX),
+  visualMs: isNumberIn(-MAX, MAX),
+};
+
+const NOTE_STAT_RULES: Record<string, Check> = {
+  attempts: isCount,
+  accuracy: isNumberIn(0, 1),
+  avgMs: isNullOr(isMs),
+};
+
+const FLASHCARD_RULES: Record<string, Check> = {
+  id: isString,
+  clef: isStaffClef,
+  pitch: isPitch,
+  repetitions: isCount,
+  intervalDays: isCount,
+  ease: isNumberIn(1, MAX),
+  lapses: isCount,
+  dueAt: isNullOr(isMs),
+  introducedAt: isNullOr(isMs),
+};
+
+const NOTE_RESULT_RULES: Record<string, Check> = {
+  attempts: isCount,
+  correct: isCount,
+  timedCorrect: isCount,
+  totalMs: isMs,
+};
+
+const SESSION_RULES: Record<string, Check> = {
+  endedAt: isMs,
+  seed: isNumberIn(-MAX, MAX),
+  durationSeconds: isMs,
+  score: isNumberIn(0, MAX),
+  attempts: isCount,
+  correct: isCount,
+  accuracy: isNumberIn(0, 100),
+  bestStreak: isCount,
+  avgMsPerNote: isMs,
+};
+
+const isConfusionRow: Check = (value) =>
+  isRecord(value) &&
+  Object.entries(value).every(([midi, count]) => isMidi(Number(midi)) && isCount(count));
+
+/**
+ * Check stored settings
+ * Settings that are missing or invalid fall back to their defaults, so one bad value
+ * does not throw the others away; returns null when the record is not settings at all
+ */
+export function validateSettings(value: unknown): GameSettings | null {
+  if (!isRecord(value)) return null;
+
+  const fields = Object.keys(SETTINGS_RULES) as (keyof GameSettings)[];
+  const rejected = fields.filter((field) => field in value && !SETTINGS_RULES[field](value[field]));
+  if (rejected.length > 0) {
+    console.warn(`Rejected invalid settings: ${rejected.join(', ')}`);
+  }
+
+  const valid = fields.filter((field) => SETTINGS_RULES[field](value[field]));
+  return {
+    ...DEFAULT_SETTINGS,
+    ...Object.fromEntries(valid.map((field) => [field, value[field]])),
+  };
+}
+
+export function validateHighScore(value: unknown): HighScoreEntry | null {
+  return matches(value, HIGH_SCORE_RULES) ? (value as unknown as HighScoreEntry) : null;
+}
+
+export function validateMIDIDeviceChoices(value: unknown): Record<string, MIDIDeviceChoice> | null {
+  return keepValidEntries(value, (entry) => matches(entry, MIDI_DEVICE_RULES), 'MIDI devices');
+}
+
+export function validateMIDIOutputChoice(value: unknown): MIDIOutputChoice | null {
+  return matches(value, MIDI_OUTPUT_RULES) ? (value as unknown as MIDIOutputChoice) : null;
+}
+
+export function validateKeyboardInput(value: unknown): KeyboardInputSettings | null {
+  return matches(value, KEYBOARD_INPUT_RULES) ? (value as unknown as KeyboardInputSettings) : null;
+}
+
+export function validateMicrophoneInput(value: unknown): MicrophoneInputSettings | null {
+  return matches(value, MICROPHONE_INPUT_RULES)
+    ? (value as unknown as MicrophoneInputSettings)
+    : null;
+}
+
+export function validateLatencyCalibrations(
+  value: unknown
+): Record<string, LatencyCalibration> | null {
+  return keepValidEntries(value, (entry) => matches(entry, LATENCY_RULES), 'latency calibrations');
+}
+
+export function validateSkillModel(value: unknown): SkillModel | null {
+  return keepValidEntries(value, (entry) => matches(entry, NOTE_STAT_RULES), 'note stats');
+}
+
+export function validateFlashcards(value: unknown): FlashcardDeck | null {
+  return keepValidEntries(value, (entry) => matches(entry, FLASHCARD_RULES), 'flashcards');
+}
+
+/**
+ * Check the session history
+ * Invalid sessions are dropped; the settings and results inside the others are
+ * checked like their own records
+ */
+export function validateSessionHistory(value: unknown): SessionRecord[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const sessions = value.flatMap((session): SessionRecord[] => {
+    if (!matches(session, SESSION_RULES)) return [];
+    const settings = validateSettings(session.settings);
+    if (!settings) return [];
+
+    const checkResult = (entry: unknown) => matches(entry, NOTE_RESULT_RULES);
+    return [
+      {
+        ...(session as unknown as SessionRecord),
+        settings,
+        noteResults: keepValidEntries(session.noteResults, checkResult, 'note results') ?? {},
+        // Sessions saved before confusions were recorded have none
+        confusions: keepValidEntries(session.confusions, isConfusionRow, 'confusions') ?? {},
+      },
+    ];
+  });
+
+  if (sessions.length < value.length) {
+    console.warn(`Dropped ${value.length - sessions.length} invalid sessions`);
+  }
+  return sessions;
+}
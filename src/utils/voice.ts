@@ -0,0 +1,42 @@
+// Voices: the notes the synthesized piano and the sample packs play, and how the damper ends them
+
+// Time constant of the damper falling on the string (seconds)
+const DAMPER_TIME_CONSTANT = 0.08;
+
+export interface Voice {
+  // Drop the damper at an audio clock time
+  release: (when: number) => void;
+}
+
+/**
+ * Make a voice that fades out and stops its sources when released
+ * Releasing again can only bring the end earlier: the fade is rescheduled, and stopping
+ * again replaces the earlier stop time; released before it starts, it never sounds
+ * @param gain - Gain the damper fades out
+ * @param sources - Nodes that play the note
+ * @param when - Audio clock time the note starts
+ */
+export function createVoice(
+  gain: AudioParam,
+  sources: AudioScheduledSourceNode[],
+  when: number
+): Voice {
+  let releasedAt = Infinity;
+
+  return {
+    release: (releaseAt: number) => {
+      if (releaseAt >= releasedAt) return;
+      releasedAt = releaseAt;
+
+      if (releaseAt <= when) {
+        sources.forEach((source) => source.stop(when));
+        return;
+      }
+
+      const at = Math.max(releaseAt, when + 0.01);
+      gain.cancelScheduledValues(at);
+      gain.setTargetAtTime(0, at, DAMPER_TIME_CONSTANT);
+      sources.forEach((source) => source.stop(at + DAMPER_TIME_CONSTANT * 8));
+    },
+  };
+}